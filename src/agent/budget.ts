@@ -0,0 +1,72 @@
+import type { AgentState, BudgetExceeded, PipelineContext, RunBudget } from "./state.js";
+import type { TokenUsageSummary } from "../llm/client.js";
+
+/**
+ * Parse budget limits from CLI options or a request body.
+ * Values may be numbers or numeric strings; missing/empty values mean "no limit".
+ */
+export function parseRunBudget(input: { maxCostUsd?: unknown; maxTokens?: unknown }): RunBudget | null {
+  const budget: RunBudget = {};
+
+  const maxCostUsd = parseLimit(input.maxCostUsd);
+  if (maxCostUsd !== undefined) {
+    if (!(maxCostUsd > 0)) throw new Error("maxCostUsd must be a positive number");
+    budget.maxCostUsd = maxCostUsd;
+  }
+
+  const maxTokens = parseLimit(input.maxTokens);
+  if (maxTokens !== undefined) {
+    if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+      throw new Error("maxTokens must be a positive integer");
+    }
+    budget.maxTokens = maxTokens;
+  }
+
+  return Object.keys(budget).length > 0 ? budget : null;
+}
+
+function parseLimit(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return typeof value === "number" ? value : Number(value);
+}
+
+/**
+ * Compare the run's spend so far against ctx.budget.
+ * Returns the exceeded limit, or null when the next node may run.
+ *
+ * ctx only counts calls whose node succeeded; `billed` (the call ledger's
+ * summary) also counts attempts that failed after the provider answered,
+ * so the larger of the two is what the run has spent.
+ */
+export function checkBudget(
+  ctx: PipelineContext,
+  nextState: AgentState,
+  billed?: TokenUsageSummary
+): BudgetExceeded | null {
+  if (!ctx.budget) return null;
+
+  const { inputTokens, outputTokens, cacheTokens } = ctx.tokenUsage;
+  const spentTokens = Math.max(inputTokens + outputTokens + cacheTokens, billed ? billedTokens(billed) : 0);
+  const spentUsd = Math.max(ctx.estimatedCost, billed?.estimatedCost ?? 0);
+
+  let limit: BudgetExceeded["limit"] | null = null;
+  if (ctx.budget.maxCostUsd !== undefined && spentUsd >= ctx.budget.maxCostUsd) {
+    limit = "maxCostUsd";
+  } else if (ctx.budget.maxTokens !== undefined && spentTokens >= ctx.budget.maxTokens) {
+    limit = "maxTokens";
+  }
+  if (!limit) return null;
+
+  return {
+    limit,
+    node: ctx.currentState,
+    skippedNode: nextState,
+    spentUsd,
+    spentTokens,
+  };
+}
+
+/** Tokens the call ledger counts against maxTokens: input and output plus prompt-cache reads and writes */
+export function billedTokens(usage: TokenUsageSummary): number {
+  return usage.totalInputTokens + usage.totalOutputTokens + usage.totalCacheReadTokens + usage.totalCacheWriteTokens;
+}
@@ -0,0 +1,100 @@
+import { existsSync, readFileSync, renameSync, writeFileSync, mkdirSync } from "fs";
+import { join } from "path";
+import { AgentState, type PipelineContext } from "./state.js";
+import type { LLMCallRecord } from "../llm/client.js";
+
+/**
+ * Checkpoints — the pipeline context saved to the run directory after every
+ * node that completes, so a run that fails, is cancelled or runs out of budget
+ * can be resumed from its last good node instead of paying for the parse and
+ * analysis calls again.
+ *
+ * Checkpoints are versioned: when PipelineContext changes shape, bump
+ * CHECKPOINT_VERSION and older files are rejected with a clear error rather
+ * than resumed into a context the graph doesn't understand.
+ */
+
+export const CHECKPOINT_VERSION = 1;
+export const CHECKPOINT_FILE = "checkpoint.json";
+
+// --- Types ---
+
+export interface Checkpoint {
+  version: number;
+  savedAt: string;
+  /** State the graph moves to next — where a resumed run restarts */
+  nextState: AgentState;
+  context: PipelineContext;
+  /** Every LLM call so far, so a resumed run's ledger and totals cover the whole run */
+  llmCalls: LLMCallRecord[];
+  /** Where the inputs came from, for the resumed run's metadata.json */
+  jdSource?: string;
+  resumeSource?: string;
+}
+
+export class CheckpointError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CheckpointError";
+  }
+}
+
+/** Snapshot of the context after a node completed, taken before anything else mutates it */
+export function createCheckpoint(
+  ctx: PipelineContext,
+  nextState: AgentState,
+  llmCalls: LLMCallRecord[]
+): Checkpoint {
+  return {
+    version: CHECKPOINT_VERSION,
+    savedAt: new Date().toISOString(),
+    nextState,
+    context: structuredClone(ctx),
+    llmCalls,
+  };
+}
+
+// --- Save / load ---
+
+export function checkpointPath(runDir: string): string {
+  return join(runDir, CHECKPOINT_FILE);
+}
+
+/** Write the checkpoint via a temp file and rename, so a crash never leaves a half-written one */
+export function saveCheckpoint(runDir: string, checkpoint: Checkpoint): void {
+  if (!existsSync(runDir)) {
+    mkdirSync(runDir, { recursive: true });
+  }
+  const path = checkpointPath(runDir);
+  writeFileSync(`${path}.tmp`, JSON.stringify(checkpoint, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+export function loadCheckpoint(runDir: string): Checkpoint {
+  const path = checkpointPath(runDir);
+  if (!existsSync(path)) {
+    throw new CheckpointError(`No checkpoint found in ${runDir}`);
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new CheckpointError(`Could not read checkpoint ${path}: ${error.message}`);
+  }
+
+  if (raw?.version !== CHECKPOINT_VERSION) {
+    const found = raw?.version === undefined ? "no schema version" : `schema version ${raw.version}`;
+    throw new CheckpointError(
+      `Checkpoint ${path} has ${found}; this version of jobfit reads version ${CHECKPOINT_VERSION}. Re-run the analysis instead.`
+    );
+  }
+  if (!Object.values(AgentState).includes(raw.nextState)) {
+    throw new CheckpointError(`Checkpoint ${path} has an invalid nextState: ${raw.nextState}`);
+  }
+  if (typeof raw.context?.jdText !== "string" || typeof raw.context?.resumeText !== "string") {
+    throw new CheckpointError(`Checkpoint ${path} is missing the run's inputs`);
+  }
+
+  return { ...raw, llmCalls: Array.isArray(raw.llmCalls) ? raw.llmCalls : [] } as Checkpoint;
+}
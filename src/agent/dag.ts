@@ -0,0 +1,68 @@
+import type { AgentState, PipelineContext } from "./state.js";
+import type { AgentGraph } from "./graph.js";
+
+/**
+ * DAG execution — nodes declare the PipelineContext fields they read and
+ * write, and runGraph starts a node alongside the one before it when it
+ * doesn't read anything that node writes. Edges still decide the order: only
+ * a node's single unguarded successor can join it, so branching and the
+ * VALIDATE loop behave exactly as in sequential mode.
+ */
+
+// --- Types ---
+
+/** "dag" runs independent nodes concurrently; "sequential" runs one node at a time */
+export type ExecutionMode = "dag" | "sequential";
+
+export const EXECUTION_MODES: readonly ExecutionMode[] = ["dag", "sequential"];
+
+export type ContextField = keyof PipelineContext;
+
+export interface NodeDependencies {
+  /** Fields the node reads — it waits for the nodes that write them */
+  reads: ContextField[];
+  /** Fields the node writes — the only ones a retry restores in DAG mode */
+  writes: ContextField[];
+}
+
+// --- Planning ---
+
+/** Graphs that declare dependencies run as a DAG unless told otherwise */
+export function resolveExecutionMode(graph: AgentGraph, mode?: ExecutionMode): ExecutionMode {
+  return mode ?? (graph.dependencies ? "dag" : "sequential");
+}
+
+/**
+ * Nodes that can start together at `start`: follow single unguarded edges
+ * from it while the next node neither reads nor writes a field an earlier
+ * node in the group writes, and doesn't write one they read.
+ */
+export function concurrentNodes(graph: AgentGraph, start: AgentState): AgentState[] {
+  const group = [start];
+  const first = graph.dependencies?.[start];
+  if (!first) return group;
+
+  const reads = new Set<ContextField>(first.reads);
+  const writes = new Set<ContextField>(first.writes);
+
+  for (let current = start; ; ) {
+    const outgoing = graph.edges.filter((edge) => edge.from === current);
+    if (outgoing.length !== 1 || outgoing[0].guard) break;
+
+    const next = outgoing[0].to;
+    const dependencies = graph.dependencies?.[next];
+    if (!dependencies || !graph.nodes.has(next) || group.includes(next)) break;
+
+    const conflicts =
+      dependencies.reads.some((field) => writes.has(field)) ||
+      dependencies.writes.some((field) => writes.has(field) || reads.has(field));
+    if (conflicts) break;
+
+    group.push(next);
+    dependencies.reads.forEach((field) => reads.add(field));
+    dependencies.writes.forEach((field) => writes.add(field));
+    current = next;
+  }
+
+  return group;
+}
@@ -0,0 +1,117 @@
+import type { LLMCallEnd, LLMCallStart } from "../llm/client.js";
+import type { AgentState, PipelineContext } from "./state.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Pipeline events — a typed emitter the graph runner reports progress on.
+ * The CLI's progress output, the server's SSE stream and the logger all
+ * subscribe to it; library users pass their own through `options.events`.
+ * Listeners run synchronously and must not mutate the context they are given.
+ */
+
+// --- Events ---
+
+/** Parsed inputs, the fit analysis and every generator output, as soon as each exists */
+export type ArtifactKind = "parsedJD" | "parsedResume" | "fitAnalysis" | "output";
+
+export interface PipelineEventMap {
+  nodeStarted: { node: AgentState; ctx: PipelineContext };
+  nodeCompleted: {
+    node: AgentState;
+    nextState: AgentState;
+    durationMs: number;
+    /** Spent by this node's LLM calls, failed attempts included */
+    tokens: { input: number; output: number };
+    costUsd: number;
+    ctx: PipelineContext;
+  };
+  llmCallStarted: LLMCallStart & { node: AgentState };
+  llmCallFinished: LLMCallEnd & { node: AgentState };
+  /** A node attempt or a single LLM call is about to be retried */
+  retryScheduled: {
+    scope: "node" | "llm";
+    node: AgentState;
+    /** Ledger stage of the retried call — absent for a node retry */
+    stage?: string;
+    /** The attempt about to start, 1-based for nodes and 0-based for LLM calls like the ledger */
+    attempt: number;
+    delayMs: number;
+    error: string;
+  };
+  validationIssue: {
+    /** Generator the issue belongs to */
+    output: string;
+    issue: string;
+    /** Generation round the issue was found in (ctx.validationAttempts) */
+    generation: number;
+  };
+  artifactProduced: {
+    kind: ArtifactKind;
+    /** The artifact kind, or the generator name for outputs */
+    name: string;
+    data: unknown;
+    /** Restored from a checkpoint rather than produced in this invocation */
+    restored?: boolean;
+  };
+  /** The run reached a terminal state */
+  runFinished: { state: AgentState; ctx: PipelineContext };
+}
+
+export type PipelineEventName = keyof PipelineEventMap;
+export type PipelineEventListener<K extends PipelineEventName> = (event: PipelineEventMap[K]) => void;
+
+// --- Emitter ---
+
+export class PipelineEvents {
+  private listeners = new Map<PipelineEventName, Set<PipelineEventListener<any>>>();
+
+  /** Subscribe to one event; returns a function that unsubscribes */
+  on<K extends PipelineEventName>(name: K, listener: PipelineEventListener<K>): () => void {
+    let listeners = this.listeners.get(name);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(name, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  off<K extends PipelineEventName>(name: K, listener: PipelineEventListener<K>): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  /** Deliver an event to every listener; a listener that throws is logged and never fails the run */
+  emit<K extends PipelineEventName>(name: K, event: PipelineEventMap[K]): void {
+    for (const listener of this.listeners.get(name) ?? []) {
+      try {
+        listener(event);
+      } catch (err: any) {
+        logger.warn("Pipeline event listener failed", { event: name, error: err.message });
+      }
+    }
+  }
+}
+
+// --- Subscribers ---
+
+/** Log the run's progress through the shared logger — debug for calls, info for nodes, warn for node retries */
+export function logPipelineEvents(events: PipelineEvents): () => void {
+  const unsubscribers = [
+    events.on("nodeStarted", ({ node }) => logger.debug(`Executing handler for ${node}`)),
+    events.on("nodeCompleted", ({ node, nextState, durationMs, tokens, costUsd }) =>
+      logger.info(`Node ${node} completed`, { nextState, durationMs, tokens, costUsd })
+    ),
+    events.on("llmCallFinished", ({ node, stage, model, attempt, durationMs, error }) =>
+      logger.debug("LLM call finished", { node, stage, model, attempt, durationMs, ...(error ? { error } : {}) })
+    ),
+    events.on("retryScheduled", ({ scope, node, stage, attempt, delayMs, error }) =>
+      scope === "node"
+        ? logger.warn(`Retrying ${node}`, { attempt, delayMs, error })
+        : logger.debug(`Retrying LLM call for ${stage}`, { node, attempt, delayMs, error })
+    ),
+    events.on("validationIssue", ({ output, issue, generation }) =>
+      logger.debug("Validation issue", { output, issue, generation })
+    ),
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,27 @@
+import type { NotRecommended, PipelineContext } from "./state.js";
+
+/**
+ * Fit score gate — a run whose fit analysis scores below ctx.minFitScore
+ * ends in NOT_RECOMMENDED instead of paying for generation. Only the analysis,
+ * the fit report and a short summary of why not to apply are written.
+ */
+
+/**
+ * Parse a minimum fit score from a CLI option, config value or request body.
+ * Missing/empty values mean "no gate".
+ */
+export function parseMinFitScore(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const score = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(score) || score < 0 || score > 100) {
+    throw new Error("minFitScore must be a number from 0 to 100");
+  }
+  return score;
+}
+
+/** The gate's verdict on the current fit analysis, or null when the run may generate */
+export function checkFitScore(ctx: PipelineContext): NotRecommended | null {
+  if (ctx.minFitScore === null || !ctx.fitAnalysis) return null;
+  const score = ctx.fitAnalysis.overallScore;
+  return score < ctx.minFitScore ? { score, minScore: ctx.minFitScore } : null;
+}
@@ -0,0 +1,176 @@
+import { AgentState, type StateHistoryEntry } from "./state.js";
+import type { AgentGraph, GraphEdge } from "./graph.js";
+
+/**
+ * Graph export — renders an AgentGraph's declared edges as Mermaid or DOT, and
+ * optionally a run's stateHistory as an annotated path over it: visited nodes
+ * carry visit counts, time spent and the models used, traversed edges carry
+ * their step numbers, and edges the run never took are drawn dashed.
+ */
+
+export type GraphFormat = "mermaid" | "dot";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["mermaid", "dot"];
+
+// --- Run path ---
+
+interface NodeVisit {
+  visits: number;
+  durationMs: number;
+  models: string[];
+}
+
+/** A transition the run made with no declared edge — the runner's exits to ERROR, BUDGET_EXCEEDED or CANCELLED */
+interface RunnerExit {
+  from: AgentState;
+  to: AgentState;
+  steps: number[];
+}
+
+interface RunPath {
+  nodes: Map<AgentState, NodeVisit>;
+  /** Step numbers per traversed edge */
+  edges: Map<GraphEdge, number[]>;
+  exits: RunnerExit[];
+}
+
+/** Match each consecutive pair of history entries to the edge it took, using the recorded guard */
+function tracePath(graph: AgentGraph, history: StateHistoryEntry[]): RunPath {
+  const path: RunPath = { nodes: new Map(), edges: new Map(), exits: [] };
+
+  history.forEach((entry, i) => {
+    const visit = path.nodes.get(entry.state) ?? { visits: 0, durationMs: 0, models: [] };
+    visit.visits++;
+    visit.durationMs += entry.durationMs ?? 0;
+    for (const model of Object.values(entry.models ?? {})) {
+      if (!visit.models.includes(model)) visit.models.push(model);
+    }
+    path.nodes.set(entry.state, visit);
+
+    const next = history[i + 1];
+    if (!next) return;
+    const step = i + 1;
+    const candidates = graph.edges.filter((edge) => edge.from === entry.state && edge.to === next.state);
+    const edge = candidates.find((e) => e.guard?.name === entry.guard) ?? candidates[0];
+    if (edge) {
+      path.edges.set(edge, [...(path.edges.get(edge) ?? []), step]);
+      return;
+    }
+    const exit = path.exits.find((e) => e.from === entry.state && e.to === next.state);
+    if (exit) exit.steps.push(step);
+    else path.exits.push({ from: entry.state, to: next.state, steps: [step] });
+  });
+
+  return path;
+}
+
+// --- Labels ---
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Graph nodes in pipeline order: handlers, edge endpoints, terminal states and anything the run visited */
+function graphStates(graph: AgentGraph, path: RunPath | null): AgentState[] {
+  const present = new Set<AgentState>([...graph.nodes.keys(), ...graph.terminalStates]);
+  for (const edge of graph.edges) {
+    present.add(edge.from);
+    present.add(edge.to);
+  }
+  for (const state of path?.nodes.keys() ?? []) present.add(state);
+  return Object.values(AgentState).filter((state) => present.has(state));
+}
+
+function nodeLines(state: AgentState, path: RunPath | null): string[] {
+  const visit = path?.nodes.get(state);
+  if (!visit) return [state];
+  const timing = [visit.visits > 1 ? `×${visit.visits}` : "", visit.durationMs > 0 ? formatDuration(visit.durationMs) : ""]
+    .filter(Boolean)
+    .join(" · ");
+  return [state, ...(timing ? [timing] : []), ...visit.models];
+}
+
+function edgeLabel(guard: string | undefined, steps: number[] | undefined): string {
+  return [steps?.map((step) => `#${step}`).join(", "), guard].filter(Boolean).join(" · ");
+}
+
+/** States with no handler (INTAKE and the terminal states) are drawn rounded */
+function isEndpoint(graph: AgentGraph, state: AgentState): boolean {
+  return !graph.nodes.has(state);
+}
+
+const RUNNER_EXITS_NOTE = "ERROR, BUDGET_EXCEEDED and CANCELLED are entered by the runner from any node";
+
+// --- Renderers ---
+
+function renderMermaid(graph: AgentGraph, path: RunPath | null): string {
+  const quote = (text: string) => `"${text.replace(/"/g, "#quot;")}"`;
+  const lines = ["flowchart TD", `  %% ${RUNNER_EXITS_NOTE}`];
+  const states = graphStates(graph, path);
+
+  for (const state of states) {
+    const label = quote(nodeLines(state, path).join("<br/>"));
+    lines.push(isEndpoint(graph, state) ? `  ${state}([${label}])` : `  ${state}[${label}]`);
+  }
+
+  for (const edge of graph.edges) {
+    const steps = path?.edges.get(edge);
+    const label = edgeLabel(edge.guard?.name, steps);
+    const arrow = !path ? "-->" : steps ? "==>" : "-.->";
+    lines.push(`  ${edge.from} ${arrow}${label ? `|${quote(label)}|` : ""} ${edge.to}`);
+  }
+  for (const exit of path?.exits ?? []) {
+    lines.push(`  ${exit.from} ==>|${quote(edgeLabel(undefined, exit.steps))}| ${exit.to}`);
+  }
+
+  if (path) {
+    const unvisited = states.filter((state) => !path.nodes.has(state));
+    if (unvisited.length > 0) {
+      lines.push("  classDef unvisited color:#999,stroke:#bbb,stroke-dasharray:4 4");
+      lines.push(`  class ${unvisited.join(",")} unvisited`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function renderDot(graph: AgentGraph, path: RunPath | null): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const lines = [
+    "digraph jobfit {",
+    `  // ${RUNNER_EXITS_NOTE}`,
+    "  rankdir=TB;",
+    '  node [shape=box, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  for (const state of graphStates(graph, path)) {
+    const attrs = [`label=${quote(nodeLines(state, path).join("\n"))}`];
+    if (isEndpoint(graph, state)) attrs.push("shape=oval");
+    if (graph.terminalStates.has(state)) attrs.push("peripheries=2");
+    if (path && !path.nodes.has(state)) attrs.push("style=dashed", "color=gray", "fontcolor=gray");
+    lines.push(`  ${state} [${attrs.join(", ")}];`);
+  }
+
+  const edgeLine = (from: AgentState, to: AgentState, label: string, style: string[]) => {
+    const attrs = [...(label ? [`label=${quote(label)}`] : []), ...style];
+    lines.push(`  ${from} -> ${to}${attrs.length ? ` [${attrs.join(", ")}]` : ""};`);
+  };
+  for (const edge of graph.edges) {
+    const steps = path?.edges.get(edge);
+    const style = !path ? [] : steps ? ["penwidth=2"] : ["style=dashed", "color=gray"];
+    edgeLine(edge.from, edge.to, edgeLabel(edge.guard?.name, steps), style);
+  }
+  for (const exit of path?.exits ?? []) {
+    edgeLine(exit.from, exit.to, edgeLabel(undefined, exit.steps), ["penwidth=2", "color=red"]);
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/** Render the graph, or with a stateHistory, the run's path over it */
+export function renderGraph(graph: AgentGraph, format: GraphFormat, history?: StateHistoryEntry[]): string {
+  const path = history ? tracePath(graph, history) : null;
+  return format === "dot" ? renderDot(graph, path) : renderMermaid(graph, path);
+}
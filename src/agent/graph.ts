@@ -1,57 +1,357 @@
-import { LLMClient } from "../llm/client.js";
+import { APIError } from "@anthropic-ai/sdk";
+import { LLMClient, LLMCallOptions, LLMCallResult, LLMTimeoutError, sleep } from "../llm/client.js";
+import { ProviderError } from "../llm/provider.js";
 import { parseJobDescription } from "../tools/jd-parser.js";
 import { parseResume } from "../tools/resume-parser.js";
 import { analyzeGap } from "../tools/gap-analyzer.js";
-import { generateCoverLetter } from "../tools/generators/cover-letter.js";
-import { generateResumeBullets } from "../tools/generators/resume-bullets.js";
-import { generateInterviewPrep } from "../tools/generators/interview-prep.js";
+import { buildGeneratorPrompt, runGenerator, type GeneratorPlugin, type GeneratorInputs } from "../tools/generators/plugin.js";
 import { validateOutputs } from "./validator.js";
+import { billedTokens, checkBudget } from "./budget.js";
+import { resolveRoute, type ModelRouting } from "./routing.js";
+import { createCheckpoint, type Checkpoint } from "./checkpoint.js";
+import { applyFitReview, type FitReviewer } from "./review.js";
+import { checkFitScore } from "./fit-gate.js";
+import { selectedGenerators } from "./output-selection.js";
+import type { GroundingMode } from "./grounding.js";
+import { NodeTimeoutError, isRetryable, retryDelay, runAttempt, type NodePolicy } from "./node-policy.js";
+import { concurrentNodes, resolveExecutionMode, type ExecutionMode, type NodeDependencies } from "./dag.js";
+import { PipelineEvents, type ArtifactKind } from "./events.js";
 import {
   AgentState,
   PipelineContext,
+  RunBudget,
   transitionTo,
+  startConcurrentNode,
+  finishNode,
   addTokenUsage,
+  recordLLMRetries,
+  recordNodeModel,
+  recordNodeGuard,
+  recordNodeAttempts,
+  recordNodeUsage,
+  nodeUsage,
+  type NodeAttempt,
 } from "./state.js";
 import { logger } from "../utils/logger.js";
 
 // --- Types ---
 
+/** Incremental generator text, tagged by the output it belongs to */
+export interface OutputDelta {
+  /** Generator name — a built-in output or a plugin */
+  output: string;
+  text: string;
+  /** LLM retry attempt within this generation — restart the text when it changes */
+  attempt: number;
+  /** Generation round (ctx.validationAttempts) — restart the text when it changes */
+  generation: number;
+}
+
+export interface GraphRunOptions {
+  onDelta?: (delta: OutputDelta) => void;
+  /** Spend limits for the run — checked before every node, including validation retries */
+  budget?: RunBudget | null;
+  /** Per-node model and max-token overrides — unrouted nodes use the LLMClient's defaults */
+  routing?: ModelRouting | null;
+  /** Aborting cancels in-flight LLM calls and ends the run in CANCELLED */
+  signal?: AbortSignal;
+  /** Called after every node that completes, with a snapshot to persist for resuming */
+  onCheckpoint?: (checkpoint: Checkpoint) => void;
+  /** Pause after ANALYZE_FIT until the fit analysis is approved or edited */
+  reviewFit?: FitReviewer;
+  /** Stop in NOT_RECOMMENDED instead of generating when the fit score is below this */
+  minFitScore?: number | null;
+  /** Generate only these outputs (generator names) and what they depend on — null or omitted for all */
+  outputs?: string[] | null;
+  /** Extra instructions from the user, appended to every generator's prompt */
+  instructions?: string | null;
+  /** What VALIDATE does with claims the resume doesn't support — null or omitted for "warn" */
+  grounding?: GroundingMode | null;
+  /** Run independent nodes concurrently ("dag") or one at a time — defaults to "dag" when the graph declares dependencies */
+  execution?: ExecutionMode;
+  /** Progress events: nodes starting and completing, LLM calls, retries, validation issues and artifacts */
+  events?: PipelineEvents;
+}
+
 export type NodeHandler = (
   ctx: PipelineContext,
-  llm: LLMClient
+  llm: LLMClient,
+  options: GraphRunOptions
 ) => Promise<AgentState>;
 
+/** Named condition on a conditional edge — the name labels the edge in graph exports */
+export interface EdgeGuard {
+  name: string;
+  test: (ctx: PipelineContext) => boolean;
+}
+
+export interface GraphEdge {
+  from: AgentState;
+  to: AgentState;
+  /** Edge is only allowed when the guard holds for the context the handler left behind */
+  guard?: EdgeGuard;
+}
+
 export interface AgentGraph {
   nodes: Map<AgentState, NodeHandler>;
+  /** Every transition a handler may return — anything else fails the run */
+  edges: GraphEdge[];
   terminalStates: Set<AgentState>;
+  /** Timeout and retry policy per node — nodes without one get a single attempt and no timeout */
+  policies?: Partial<Record<AgentState, NodePolicy>>;
+  /** Context fields each node reads and writes — nodes that don't depend on each other run concurrently */
+  dependencies?: Partial<Record<AgentState, NodeDependencies>>;
+}
+
+export class GraphTransitionError extends Error {
+  constructor(
+    public readonly from: AgentState,
+    public readonly to: AgentState,
+    message: string
+  ) {
+    super(message);
+    this.name = "GraphTransitionError";
+  }
 }
 
 // --- Node Handlers ---
 
 const MAX_VALIDATION_ATTEMPTS = 2;
 
-async function handleParseJD(ctx: PipelineContext, llm: LLMClient): Promise<AgentState> {
-  const result = await parseJobDescription(ctx.jdText, llm);
+/**
+ * Failures a later attempt may get past: timeouts, and provider errors that
+ * are rate limits (429), conflicts (408/409), server errors (5xx) or carry no
+ * status (connection errors, broken streams). A bad request or a rejected key
+ * fails the same way every time.
+ */
+export function isTransientLLMError(error: unknown): boolean {
+  if (error instanceof NodeTimeoutError || error instanceof LLMTimeoutError) return true;
+  if (!(error instanceof ProviderError || error instanceof APIError)) return false;
+  const { status } = error;
+  return status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/** LLM-backed nodes: one more attempt after a transient failure that outlasted LLMClient's retries */
+const LLM_NODE_POLICY: NodePolicy = {
+  timeoutMs: 10 * 60_000,
+  maxAttempts: 2,
+  backoff: { initialMs: 5_000, maxMs: 30_000 },
+  retryOn: isTransientLLMError,
+};
+
+// --- Guards ---
+
+const validationPassed: EdgeGuard = {
+  name: "passed",
+  test: (ctx) => ctx.validation?.passed === true,
+};
+
+const regenerationLeft: EdgeGuard = {
+  name: "failed, attempts left",
+  test: (ctx) => ctx.validation?.passed === false && ctx.validationAttempts < MAX_VALIDATION_ATTEMPTS,
+};
+
+const reviewRequested: EdgeGuard = {
+  name: "review requested",
+  test: (ctx) => ctx.fitReview?.status === "pending",
+};
+
+const fitScoreOk: EdgeGuard = {
+  name: "score ok",
+  test: (ctx) => checkFitScore(ctx) === null,
+};
+
+const fitScoreTooLow: EdgeGuard = {
+  name: "below min score",
+  test: (ctx) => checkFitScore(ctx) !== null,
+};
+
+const noReviewScoreOk: EdgeGuard = {
+  name: "no review, score ok",
+  test: (ctx) => ctx.fitReview?.status !== "pending" && fitScoreOk.test(ctx),
+};
+
+const noReviewScoreTooLow: EdgeGuard = {
+  name: "no review, below min score",
+  test: (ctx) => ctx.fitReview?.status !== "pending" && fitScoreTooLow.test(ctx),
+};
+
+const regenerationExhausted: EdgeGuard = {
+  name: "failed, attempts exhausted",
+  test: (ctx) => ctx.validation?.passed === false && ctx.validationAttempts >= MAX_VALIDATION_ATTEMPTS,
+};
+
+async function handleParseJD(
+  ctx: PipelineContext,
+  llm: LLMClient,
+  options: GraphRunOptions
+): Promise<AgentState> {
+  const result = await parseJobDescription(ctx.jdText, llm, callOptions(ctx, options, AgentState.PARSE_JD));
   ctx.parsedJD = result.data;
-  addTokenUsage(ctx, result.usage.inputTokens, result.usage.outputTokens);
+  emitArtifact(options, "parsedJD", "parsedJD", result.data);
+  addResultUsage(ctx, result);
+  recordLLMRetries(ctx, AgentState.PARSE_JD, result);
+  recordNodeModel(ctx, AgentState.PARSE_JD, AgentState.PARSE_JD, result.model);
   return AgentState.PARSE_RESUME;
 }
 
-async function handleParseResume(ctx: PipelineContext, llm: LLMClient): Promise<AgentState> {
-  const result = await parseResume(ctx.resumeText, llm);
+async function handleParseResume(
+  ctx: PipelineContext,
+  llm: LLMClient,
+  options: GraphRunOptions
+): Promise<AgentState> {
+  const result = await parseResume(ctx.resumeText, llm, callOptions(ctx, options, AgentState.PARSE_RESUME));
   ctx.parsedResume = result.data;
-  addTokenUsage(ctx, result.usage.inputTokens, result.usage.outputTokens);
+  emitArtifact(options, "parsedResume", "parsedResume", result.data);
+  addResultUsage(ctx, result);
+  recordLLMRetries(ctx, AgentState.PARSE_RESUME, result);
+  recordNodeModel(ctx, AgentState.PARSE_RESUME, AgentState.PARSE_RESUME, result.model);
   return AgentState.ANALYZE_FIT;
 }
 
-async function handleAnalyzeFit(ctx: PipelineContext, llm: LLMClient): Promise<AgentState> {
-  const result = await analyzeGap(ctx.parsedJD!, ctx.parsedResume!, llm);
+async function handleAnalyzeFit(
+  ctx: PipelineContext,
+  llm: LLMClient,
+  options: GraphRunOptions
+): Promise<AgentState> {
+  const result = await analyzeGap(ctx.parsedJD!, ctx.parsedResume!, llm, callOptions(ctx, options, AgentState.ANALYZE_FIT));
   ctx.fitAnalysis = result.data;
-  addTokenUsage(ctx, result.usage.inputTokens, result.usage.outputTokens);
-  return AgentState.GENERATE_OUTPUTS;
+  emitArtifact(options, "fitAnalysis", "fitAnalysis", result.data);
+  addResultUsage(ctx, result);
+  recordLLMRetries(ctx, AgentState.ANALYZE_FIT, result);
+  recordNodeModel(ctx, AgentState.ANALYZE_FIT, AgentState.ANALYZE_FIT, result.model);
+  return reviewRequested.test(ctx) ? AgentState.REVIEW_FIT : gateOnFitScore(ctx);
+}
+
+async function handleReviewFit(
+  ctx: PipelineContext,
+  _llm: LLMClient,
+  options: GraphRunOptions
+): Promise<AgentState> {
+  if (!options.reviewFit) {
+    throw new Error("The run is waiting for a fit review, but no reviewer was given");
+  }
+  console.log("\n📝 Waiting for the fit analysis review...");
+  const reviewed = await options.reviewFit(ctx.fitAnalysis!, ctx, options.signal);
+  options.signal?.throwIfAborted();
+  const review = applyFitReview(ctx, reviewed);
+  if (review.status === "edited") emitArtifact(options, "fitAnalysis", "fitAnalysis", ctx.fitAnalysis);
+  console.log(`  ✓ Fit analysis ${review.status} (score ${ctx.fitAnalysis!.overallScore}/100)`);
+  return gateOnFitScore(ctx);
 }
 
-async function handleGenerateOutputs(ctx: PipelineContext, llm: LLMClient): Promise<AgentState> {
+/** Generate outputs, or stop in NOT_RECOMMENDED when the fit score is below the minimum */
+function gateOnFitScore(ctx: PipelineContext): AgentState {
+  const notRecommended = checkFitScore(ctx);
+  if (!notRecommended) return AgentState.GENERATE_OUTPUTS;
+
+  ctx.notRecommended = notRecommended;
+  logger.info("Run not recommended", { ...notRecommended });
+  console.log(
+    `\n🚫 Fit score ${notRecommended.score}/100 is below the minimum of ${notRecommended.minScore} — skipping generation`
+  );
+  return AgentState.NOT_RECOMMENDED;
+}
+
+/** Add a successful call's spend to ctx, prompt-cache tokens included */
+function addResultUsage(ctx: PipelineContext, result: LLMCallResult<unknown>): void {
+  const { inputTokens, outputTokens, cacheReadTokens = 0, cacheWriteTokens = 0 } = result.usage;
+  addTokenUsage(ctx, inputTokens, outputTokens, result.costUsd, cacheReadTokens + cacheWriteTokens);
+}
+
+function emitArtifact(options: GraphRunOptions, kind: ArtifactKind, name: string, data: unknown): void {
+  options.events?.emit("artifactProduced", { kind, name, data });
+}
+
+/** Call options for a node's LLM call: ledger stage, routed model, cancellation signal and call events */
+function callOptions(
+  ctx: PipelineContext,
+  options: GraphRunOptions,
+  state: AgentState,
+  output?: string
+): LLMCallOptions {
+  const { events } = options;
+  return {
+    stage: output ?? state,
+    ...resolveRoute(ctx.routing, state, output),
+    ...(options.signal ? { signal: options.signal } : {}),
+    ...(events
+      ? {
+          observer: {
+            callStarted: (call) => events.emit("llmCallStarted", { ...call, node: state }),
+            callFinished: (call) => events.emit("llmCallFinished", { ...call, node: state }),
+            retryScheduled: (retry) => events.emit("retryScheduled", { ...retry, scope: "llm", node: state }),
+          },
+        }
+      : {}),
+  };
+}
+
+/** Call options for one generator, plus delta streaming when requested */
+function streamTo(
+  ctx: PipelineContext,
+  options: GraphRunOptions,
+  output: string
+): LLMCallOptions {
+  const { onDelta } = options;
+  const generatorOptions = callOptions(ctx, options, AgentState.GENERATE_OUTPUTS, output);
+  if (!onDelta) return generatorOptions;
+  const generation = ctx.validationAttempts;
+  return { ...generatorOptions, onDelta: (text, attempt) => onDelta({ output, text, attempt, generation }) };
+}
+
+/**
+ * Inputs for one generator. An output that failed validation in the previous
+ * round gets its text and issues back as feedback, and the revision prompt is
+ * recorded on ctx.regenerations.
+ */
+function generatorInputs(ctx: PipelineContext, generator: GeneratorPlugin): GeneratorInputs {
+  const inputs: GeneratorInputs = {
+    parsedJD: ctx.parsedJD!,
+    parsedResume: ctx.parsedResume!,
+    fitAnalysis: ctx.fitAnalysis!,
+    outputs: ctx.outputs,
+    ...(ctx.instructions ? { instructions: ctx.instructions } : {}),
+  };
+  // The first round of a regeneration with instructions revises the saved output
+  const saved = ctx.validationAttempts === 1 && ctx.instructions ? ctx.previousOutputs?.[generator.name] : null;
+  if (saved) return { ...inputs, feedback: { previousOutput: saved, issues: [] } };
+
+  const previousOutput = ctx.outputs[generator.name];
+  const issues = ctx.validation?.byOutput?.[generator.name]?.issues ?? [];
+  if (!previousOutput || issues.length === 0) return inputs;
+
+  const withFeedback = { ...inputs, feedback: { previousOutput, issues } };
+  ctx.regenerations.push({
+    output: generator.name,
+    generation: ctx.validationAttempts,
+    issues,
+    previousOutput,
+    prompt: buildGeneratorPrompt(generator, withFeedback),
+  });
+  return withFeedback;
+}
+
+async function generateOutput(
+  ctx: PipelineContext,
+  llm: LLMClient,
+  options: GraphRunOptions,
+  generator: GeneratorPlugin
+): Promise<void> {
+  const inputs = generatorInputs(ctx, generator);
+  const result = await runGenerator(generator, inputs, llm, streamTo(ctx, options, generator.name));
+  ctx.outputs[generator.name] = result.data;
+  emitArtifact(options, "output", generator.name, result.data);
+  addResultUsage(ctx, result);
+  recordLLMRetries(ctx, generator.name, result);
+  recordNodeModel(ctx, AgentState.GENERATE_OUTPUTS, generator.name, result.model);
+}
+
+async function handleGenerateOutputs(
+  ctx: PipelineContext,
+  llm: LLMClient,
+  options: GraphRunOptions
+): Promise<AgentState> {
   ctx.validationAttempts++;
 
   if (ctx.validationAttempts > 1) {
@@ -60,45 +360,62 @@ async function handleGenerateOutputs(ctx: PipelineContext, llm: LLMClient): Prom
     );
   }
 
-  // Run all three generators in parallel — only regenerate outputs that failed validation
-  const [coverLetterResult, bulletsResult, interviewResult] = await Promise.all([
-    !ctx.validation || !ctx.validation.coverLetterValid
-      ? generateCoverLetter(ctx.parsedJD!, ctx.parsedResume!, ctx.fitAnalysis!, llm)
-      : null,
-    !ctx.validation || !ctx.validation.bulletsValid
-      ? generateResumeBullets(ctx.parsedJD!, ctx.parsedResume!, ctx.fitAnalysis!, llm)
-      : null,
-    !ctx.validation || !ctx.validation.interviewPrepValid
-      ? generateInterviewPrep(ctx.parsedJD!, ctx.parsedResume!, ctx.fitAnalysis!, llm)
-      : null,
-  ]);
-
-  if (coverLetterResult) {
-    ctx.outputs.coverLetter = coverLetterResult.data;
-    addTokenUsage(ctx, coverLetterResult.usage.inputTokens, coverLetterResult.usage.outputTokens);
-  }
-  if (bulletsResult) {
-    ctx.outputs.tailoredBullets = bulletsResult.data;
-    addTokenUsage(ctx, bulletsResult.usage.inputTokens, bulletsResult.usage.outputTokens);
+  // Only regenerate outputs that failed validation, plus anything built on them
+  const generators = selectedGenerators(ctx);
+  const rerun = new Set<string>();
+  for (const generator of generators) {
+    const valid = ctx.validation?.byOutput?.[generator.name]?.valid;
+    if (!valid || generator.dependsOn?.some((dependency) => rerun.has(dependency))) {
+      rerun.add(generator.name);
+    }
   }
-  if (interviewResult) {
-    ctx.outputs.interviewPrep = interviewResult.data;
-    addTokenUsage(ctx, interviewResult.usage.inputTokens, interviewResult.usage.outputTokens);
+
+  // Generators run in parallel; one that depends on others starts once they finish
+  const running = new Map<string, Promise<void>>();
+  for (const generator of generators) {
+    if (!rerun.has(generator.name)) continue;
+    const dependencies = (generator.dependsOn ?? []).flatMap((name) => running.get(name) ?? []);
+    running.set(
+      generator.name,
+      Promise.all(dependencies).then(() => generateOutput(ctx, llm, options, generator))
+    );
   }
 
+  // Let every generator settle before failing, so none writes to ctx after this node ends
+  const settled = await Promise.allSettled(running.values());
+  const failure = settled.find((result): result is PromiseRejectedResult => result.status === "rejected");
+  if (failure) throw failure.reason;
+
   return AgentState.VALIDATE;
 }
 
-async function handleValidate(ctx: PipelineContext, _llm: LLMClient): Promise<AgentState> {
+async function handleValidate(
+  ctx: PipelineContext,
+  _llm: LLMClient,
+  options: GraphRunOptions
+): Promise<AgentState> {
   console.log("\n🔎 Validating outputs...");
-  ctx.validation = validateOutputs(ctx.outputs, ctx.parsedJD!);
+  ctx.validation = validateOutputs(ctx.outputs, ctx.parsedJD!, selectedGenerators(ctx), {
+    mode: ctx.grounding,
+    sources: {
+      resumeText: ctx.resumeText,
+      parsedResume: ctx.parsedResume!,
+      jdText: ctx.jdText,
+      parsedJD: ctx.parsedJD!,
+    },
+  });
+  for (const [output, { issues }] of Object.entries(ctx.validation.byOutput)) {
+    for (const issue of issues) {
+      options.events?.emit("validationIssue", { output, issue, generation: ctx.validationAttempts });
+    }
+  }
 
-  if (ctx.validation.passed) {
+  if (validationPassed.test(ctx)) {
     return AgentState.DONE;
   }
 
   // Retry if under the attempt limit
-  if (ctx.validationAttempts < MAX_VALIDATION_ATTEMPTS) {
+  if (regenerationLeft.test(ctx)) {
     return AgentState.GENERATE_OUTPUTS;
   }
 
@@ -117,40 +434,343 @@ export function createAgentGraph(): AgentGraph {
   nodes.set(AgentState.PARSE_JD, handleParseJD);
   nodes.set(AgentState.PARSE_RESUME, handleParseResume);
   nodes.set(AgentState.ANALYZE_FIT, handleAnalyzeFit);
+  nodes.set(AgentState.REVIEW_FIT, handleReviewFit);
   nodes.set(AgentState.GENERATE_OUTPUTS, handleGenerateOutputs);
   nodes.set(AgentState.VALIDATE, handleValidate);
 
+  // INTAKE has no handler — its edge only documents where runs enter the graph
+  const edges: GraphEdge[] = [
+    { from: AgentState.INTAKE, to: AgentState.PARSE_JD },
+    { from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME },
+    { from: AgentState.PARSE_RESUME, to: AgentState.ANALYZE_FIT },
+    { from: AgentState.ANALYZE_FIT, to: AgentState.GENERATE_OUTPUTS, guard: noReviewScoreOk },
+    { from: AgentState.ANALYZE_FIT, to: AgentState.REVIEW_FIT, guard: reviewRequested },
+    { from: AgentState.ANALYZE_FIT, to: AgentState.NOT_RECOMMENDED, guard: noReviewScoreTooLow },
+    { from: AgentState.REVIEW_FIT, to: AgentState.GENERATE_OUTPUTS, guard: fitScoreOk },
+    { from: AgentState.REVIEW_FIT, to: AgentState.NOT_RECOMMENDED, guard: fitScoreTooLow },
+    { from: AgentState.GENERATE_OUTPUTS, to: AgentState.VALIDATE },
+    { from: AgentState.VALIDATE, to: AgentState.DONE, guard: validationPassed },
+    { from: AgentState.VALIDATE, to: AgentState.GENERATE_OUTPUTS, guard: regenerationLeft },
+    { from: AgentState.VALIDATE, to: AgentState.DONE, guard: regenerationExhausted },
+  ];
+
+  const policies: AgentGraph["policies"] = {
+    [AgentState.PARSE_JD]: LLM_NODE_POLICY,
+    [AgentState.PARSE_RESUME]: LLM_NODE_POLICY,
+    [AgentState.ANALYZE_FIT]: LLM_NODE_POLICY,
+    [AgentState.GENERATE_OUTPUTS]: LLM_NODE_POLICY,
+  };
+
+  // The two parses share nothing, so in DAG mode PARSE_RESUME starts with PARSE_JD
+  const dependencies: AgentGraph["dependencies"] = {
+    [AgentState.PARSE_JD]: { reads: ["jdText"], writes: ["parsedJD"] },
+    [AgentState.PARSE_RESUME]: { reads: ["resumeText"], writes: ["parsedResume"] },
+    [AgentState.ANALYZE_FIT]: {
+      reads: ["parsedJD", "parsedResume", "fitReview", "minFitScore"],
+      writes: ["fitAnalysis", "notRecommended"],
+    },
+    [AgentState.REVIEW_FIT]: { reads: ["fitAnalysis", "minFitScore"], writes: ["fitAnalysis", "fitReview", "notRecommended"] },
+    [AgentState.GENERATE_OUTPUTS]: {
+      reads: ["parsedJD", "parsedResume", "fitAnalysis", "outputs", "requestedOutputs", "instructions", "previousOutputs", "validation", "validationAttempts"],
+      writes: ["outputs", "validationAttempts", "regenerations"],
+    },
+    [AgentState.VALIDATE]: {
+      reads: ["outputs", "requestedOutputs", "parsedJD", "parsedResume", "jdText", "resumeText", "grounding", "validationAttempts"],
+      writes: ["validation"],
+    },
+  };
+
   return {
     nodes,
-    terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
+    edges,
+    terminalStates: new Set([
+      AgentState.DONE,
+      AgentState.ERROR,
+      AgentState.BUDGET_EXCEEDED,
+      AgentState.CANCELLED,
+      AgentState.NOT_RECOMMENDED,
+    ]),
+    policies,
+    dependencies,
   };
 }
 
 // --- Graph Runner ---
 
+function describeAbortReason(reason: unknown): string {
+  if (reason instanceof Error) return reason.message;
+  return reason === undefined ? "Aborted" : String(reason);
+}
+
+/** Record why and where the run was cancelled, with spend taken from the call ledger */
+function recordCancellation(ctx: PipelineContext, llm: LLMClient, node: AgentState, signal: AbortSignal): void {
+  const usage = llm.getUsageSummary();
+  ctx.cancelled = {
+    node,
+    reason: describeAbortReason(signal.reason),
+    spentUsd: usage.estimatedCost,
+    spentTokens: billedTokens(usage),
+  };
+  logger.warn("Run cancelled", { ...ctx.cancelled });
+  console.log(`\n🛑 Run cancelled during ${node}: ${ctx.cancelled.reason}`);
+}
+
+/**
+ * Return the edge that allows from → to, or throw if the graph doesn't declare
+ * one whose guard holds. ERROR, BUDGET_EXCEEDED and CANCELLED are entered by
+ * the runner, not by handlers, so they need no edges.
+ */
+export function assertTransition(graph: AgentGraph, ctx: PipelineContext, from: AgentState, to: AgentState): GraphEdge {
+  const declared = graph.edges.filter((edge) => edge.from === from && edge.to === to);
+  if (declared.length === 0) {
+    throw new GraphTransitionError(from, to, `Undeclared transition ${from} → ${to}`);
+  }
+  const allowed = declared.find((edge) => !edge.guard || edge.guard.test(ctx));
+  if (!allowed) {
+    const guards = declared.map((edge) => `"${edge.guard!.name}"`).join(", ");
+    throw new GraphTransitionError(from, to, `Transition ${from} → ${to} not allowed: guard ${guards} does not hold`);
+  }
+  return allowed;
+}
+
+/** Hand the checkpoint to the caller; a failed save is logged, never fatal to the run */
+function saveNodeCheckpoint(ctx: PipelineContext, llm: LLMClient, nextState: AgentState, options: GraphRunOptions): void {
+  if (!options.onCheckpoint) return;
+  try {
+    options.onCheckpoint(createCheckpoint(ctx, nextState, llm.getCallLedger()));
+  } catch (err: any) {
+    logger.warn("Checkpoint save failed", { state: ctx.currentState, error: err.message });
+    console.error(`  ⚠ Could not save checkpoint after ${ctx.currentState}: ${err.message}`);
+  }
+}
+
+/** Record the exceeded budget when the run can't afford `nextState`; returns whether it must stop */
+function stopForBudget(ctx: PipelineContext, llm: LLMClient, nextState: AgentState): boolean {
+  const exceeded = checkBudget(ctx, nextState, llm.getUsageSummary());
+  if (!exceeded) return false;
+  logger.warn("Run budget exceeded", { ...exceeded });
+  console.log(
+    `\n💸 Budget exceeded (${exceeded.limit}) after ${exceeded.node} — skipping ${exceeded.skippedNode}`
+  );
+  ctx.budgetExceeded = exceeded;
+  return true;
+}
+
+/**
+ * Context a failed attempt may have left half-written, restored before a retry.
+ * History and errors are kept, and so is spend, though a handler that threw
+ * never recorded its calls on ctx — the budget check before the retry reads
+ * what they cost from the call ledger.
+ * A node with declared dependencies only restores the fields it writes, so a
+ * retry never undoes the work of a node running alongside it.
+ */
+function retrySnapshot(ctx: PipelineContext, dependencies?: NodeDependencies): Partial<PipelineContext> {
+  const { stateHistory, tokenUsage, estimatedCost, llmRetries, errors, ...rest } = ctx;
+  const snapshot: Partial<PipelineContext> = dependencies
+    ? Object.fromEntries(dependencies.writes.map((field) => [field, ctx[field]]))
+    : rest;
+  return copyMutableFields(snapshot);
+}
+
+/** Fresh copies of the fields handlers change in place, so a snapshot outlives the attempts restored from it */
+function copyMutableFields(snapshot: Partial<PipelineContext>): Partial<PipelineContext> {
+  return {
+    ...snapshot,
+    ...(snapshot.outputs ? { outputs: { ...snapshot.outputs } } : {}),
+    ...(snapshot.regenerations ? { regenerations: [...snapshot.regenerations] } : {}),
+  };
+}
+
+/**
+ * Run a node's handler under its policy: each attempt under the timeout,
+ * retryable failures re-run after the backoff, every attempt recorded on the
+ * node's history entry. Returns the next state, or null when the budget ran
+ * out before a retry; throws the last error once the node gives up.
+ */
+async function runNode(
+  graph: AgentGraph,
+  ctx: PipelineContext,
+  llm: LLMClient,
+  state: AgentState,
+  handler: NodeHandler,
+  options: GraphRunOptions
+): Promise<AgentState | null> {
+  const policy = graph.policies?.[state] ?? {};
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? 1);
+  const snapshot = retrySnapshot(ctx, graph.dependencies?.[state]);
+  const attempts: NodeAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const nextState = await runAttempt(state, policy.timeoutMs, options.signal, (signal) =>
+        handler(ctx, llm, { ...options, signal })
+      );
+      attempts.push({ attempt, durationMs: Date.now() - startedAt });
+      recordNodeAttempts(ctx, state, attempts);
+      return nextState;
+    } catch (err: any) {
+      attempts.push({ attempt, durationMs: Date.now() - startedAt, error: err.message });
+      recordNodeAttempts(ctx, state, attempts);
+      if (options.signal?.aborted || attempt >= maxAttempts || !isRetryable(policy, err)) throw err;
+
+      const delay = retryDelay(policy, attempt + 1);
+      options.events?.emit("retryScheduled", { scope: "node", node: state, attempt: attempt + 1, delayMs: delay, error: err.message });
+      console.error(`  ⚠ ${state} attempt ${attempt}/${maxAttempts} failed: ${err.message} — retrying`);
+      Object.assign(ctx, copyMutableFields(snapshot));
+      if (stopForBudget(ctx, llm, state)) return null;
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/** Report a finished node with what its LLM calls spent during this visit */
+function emitNodeCompleted(
+  ctx: PipelineContext,
+  events: PipelineEvents,
+  node: AgentState,
+  nextState: AgentState,
+  startedAt: number
+): void {
+  const usage = nodeUsage(ctx, node);
+  events.emit("nodeCompleted", {
+    node,
+    nextState,
+    durationMs: Date.now() - startedAt,
+    tokens: { input: usage?.inputTokens ?? 0, output: usage?.outputTokens ?? 0 },
+    costUsd: usage?.costUsd ?? 0,
+    ctx,
+  });
+}
+
+/**
+ * Run nodes that don't depend on each other at the same time. Each runs under
+ * its own policy and closes its own history span; every node settles before
+ * the group fails, and the checkpoint is saved once all of them completed.
+ * Returns the state after the last node of the group, or where the run stops.
+ */
+async function runConcurrentNodes(
+  graph: AgentGraph,
+  ctx: PipelineContext,
+  llm: LLMClient,
+  group: AgentState[],
+  options: GraphRunOptions & { events: PipelineEvents }
+): Promise<AgentState> {
+  const { events } = options;
+  group.forEach((state, i) => {
+    if (i === 0) transitionTo(ctx, state);
+    else startConcurrentNode(ctx, state);
+    events.emit("nodeStarted", { node: state, ctx });
+  });
+
+  // Each finished node is checkpointed at once, so a sibling's failure doesn't lose its paid result.
+  // The checkpoint resumes at the first node of the group that hasn't finished.
+  const finished = new Set<AgentState>();
+  const settled = await Promise.allSettled(
+    group.map(async (state) => {
+      const startedAt = Date.now();
+      const nextState = await runNode(graph, ctx, llm, state, graph.nodes.get(state)!, options);
+      finishNode(ctx, state);
+      if (nextState === null) return null;
+      const edge = assertTransition(graph, ctx, state, nextState);
+      if (edge.guard) recordNodeGuard(ctx, state, edge.guard.name);
+      emitNodeCompleted(ctx, events, state, nextState, startedAt);
+      finished.add(state);
+      const unfinished = group.find((node) => !finished.has(node));
+      if (unfinished) saveNodeCheckpoint(ctx, llm, unfinished, options);
+      return nextState;
+    })
+  );
+
+  const failed = group.flatMap((state, i) => {
+    const result = settled[i];
+    return result.status === "rejected" ? [{ state, error: result.reason }] : [];
+  });
+  if (failed.length > 0) {
+    if (options.signal?.aborted) {
+      recordCancellation(ctx, llm, failed[0].state, options.signal);
+      return AgentState.CANCELLED;
+    }
+    for (const { state, error } of failed) {
+      logger.error(`Error in state ${state}`, { error: error.message });
+      console.error(`\n❌ Error in state ${state}: ${error.message}`);
+      ctx.errors.push(`${state}: ${error.message}`);
+    }
+    return AgentState.ERROR;
+  }
+
+  const nextStates = settled.map((result) => (result as PromiseFulfilledResult<AgentState | null>).value);
+  if (nextStates.includes(null)) return AgentState.BUDGET_EXCEEDED;
+
+  const nextState = nextStates[nextStates.length - 1]!;
+  saveNodeCheckpoint(ctx, llm, nextState, options);
+  return nextState;
+}
+
 export async function runGraph(
   graph: AgentGraph,
   ctx: PipelineContext,
   llm: LLMClient,
   startState: AgentState,
-  onStateChange?: (state: AgentState, ctx: PipelineContext) => void,
+  runOptions: GraphRunOptions = {},
 ): Promise<void> {
+  // The runner always reports to a bus — each node's spend is attributed from its call events
+  const events = runOptions.events ?? new PipelineEvents();
+  const options = { ...runOptions, events };
+  const stopRecording = events.on("llmCallFinished", ({ node, record }) => {
+    if (record) recordNodeUsage(ctx, node, record);
+  });
+  const execution = resolveExecutionMode(graph, options.execution);
   let currentState = startState;
 
   while (!graph.terminalStates.has(currentState)) {
     const handler = graph.nodes.get(currentState);
     if (!handler) {
+      stopRecording();
       throw new Error(`No handler registered for state: ${currentState}`);
     }
 
+    if (options.signal?.aborted) {
+      recordCancellation(ctx, llm, currentState, options.signal);
+      currentState = AgentState.CANCELLED;
+      break;
+    }
+
+    // Stop cleanly before spending more — whatever is already in ctx is kept
+    if (stopForBudget(ctx, llm, currentState)) {
+      currentState = AgentState.BUDGET_EXCEEDED;
+      break;
+    }
+
+    const group = execution === "dag" ? concurrentNodes(graph, currentState) : [currentState];
+    if (group.length > 1) {
+      currentState = await runConcurrentNodes(graph, ctx, llm, group, options);
+      if (currentState === AgentState.CANCELLED || currentState === AgentState.BUDGET_EXCEEDED) break;
+      continue;
+    }
+
     transitionTo(ctx, currentState);
-    onStateChange?.(currentState, ctx);
+    events.emit("nodeStarted", { node: currentState, ctx });
+    const startedAt = Date.now();
 
     try {
-      logger.debug(`Executing handler for ${currentState}`);
-      currentState = await handler(ctx, llm);
-      logger.debug(`Handler returned next state: ${currentState}`);
+      const nextState = await runNode(graph, ctx, llm, currentState, handler, options);
+      if (nextState === null) {
+        currentState = AgentState.BUDGET_EXCEEDED;
+        break;
+      }
+      const edge = assertTransition(graph, ctx, currentState, nextState);
+      if (edge.guard) recordNodeGuard(ctx, currentState, edge.guard.name);
+      emitNodeCompleted(ctx, events, currentState, nextState, startedAt);
+      currentState = nextState;
+      saveNodeCheckpoint(ctx, llm, currentState, options);
     } catch (err: any) {
+      // An abort surfaces as whatever the SDK/fetch threw — the signal says what it really was
+      if (options.signal?.aborted) {
+        recordCancellation(ctx, llm, currentState, options.signal);
+        currentState = AgentState.CANCELLED;
+        break;
+      }
       logger.error(`Error in state ${currentState}`, { error: err.message });
       console.error(`\n❌ Error in state ${currentState}: ${err.message}`);
       ctx.errors.push(`${currentState}: ${err.message}`);
@@ -159,6 +779,7 @@ export async function runGraph(
   }
 
   // Transition to the terminal state
+  stopRecording();
   transitionTo(ctx, currentState);
-  onStateChange?.(currentState, ctx);
+  events.emit("runFinished", { state: currentState, ctx });
 }
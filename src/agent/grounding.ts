@@ -0,0 +1,208 @@
+import type { ParsedJD, ParsedResume } from "../llm/schemas.js";
+import type { GeneratedOutputs } from "./state.js";
+import type { GeneratorPlugin } from "../tools/generators/plugin.js";
+import { findTechnologyMentions, mentionsSkill } from "../llm/skill-catalog.js";
+import { matchesCompanyName } from "../tools/generators/checks.js";
+
+/**
+ * Grounding — a deterministic check that generated outputs don't invent
+ * facts about the candidate. Numbers, employers and technology names in each
+ * grounded output must appear in the resume (its text or its parse). Sentences
+ * about the employer — naming the company or saying "you"/"your" — may also
+ * repeat the job description. Nothing here calls the LLM.
+ *
+ * ctx.grounding decides what happens with unsupported claims: "warn" records
+ * them on the validation result, "fail" also makes them validation issues so
+ * VALIDATE sends the output back for a revision, and "off" skips the check.
+ */
+
+export const GROUNDING_MODES = ["off", "warn", "fail"] as const;
+export type GroundingMode = (typeof GROUNDING_MODES)[number];
+
+export type GroundingClaimKind = "metric" | "employer" | "technology";
+
+export interface GroundingIssue {
+  /** Generator name of the output the claim is in */
+  output: string;
+  kind: GroundingClaimKind;
+  /** The claim as written, e.g. "45%", "Stripe" or "Kafka" */
+  claim: string;
+  /** 1-based line and column of the claim in the output text */
+  line: number;
+  column: number;
+  /** The sentence the claim is in */
+  excerpt: string;
+}
+
+/** The texts claims are checked against — raw texts are empty for runs regenerated without a checkpoint, so the parses count too */
+export interface GroundingSources {
+  resumeText: string;
+  parsedResume: ParsedResume;
+  jdText: string;
+  parsedJD: ParsedJD;
+}
+
+/** Parse a grounding mode from a CLI option, request body or env var; missing values mean the default */
+export function parseGroundingMode(value: unknown): GroundingMode | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value !== "string" || !(GROUNDING_MODES as readonly string[]).includes(value)) {
+    throw new Error(`grounding must be one of: ${GROUNDING_MODES.join(", ")}`);
+  }
+  return value as GroundingMode;
+}
+
+// --- Claim extraction ---
+
+interface Claim {
+  kind: GroundingClaimKind;
+  text: string;
+  index: number;
+  /** Catalog name of a technology claim ("Kubernetes" for "k8s") */
+  skill?: string;
+}
+
+// "45%", "$2.5M", "10+", "3x", "1,200", "40 percent", "2 million"
+const METRIC = /(?<![\w.$])\$?\d+(?:[.,]\d+)*(?:\s?(?:%|percent\b|thousand\b|million\b|billion\b)|[kKmMbB]\b|x\b|\+)?/g;
+const LIST_MARKER = /^\s*\d+[.)]\s/;
+// A capitalized name after a preposition that introduces an employer: "at Stripe", "joined Bank of America"
+const EMPLOYER = /\b(?:[Aa]t|[Ff]or|[Ww]ith|[Ff]rom|[Jj]oined)\s+([A-Z][\w&'’.-]*(?:\s+(?:of\s+|&\s+)?(?!I\b|I['’])[A-Z][\w&'’.-]*)*)/g;
+const NOT_EMPLOYERS = new Set([
+  "I", "January", "February", "March", "April", "May", "June", "July", "August",
+  "September", "October", "November", "December", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday",
+]);
+const SCALE: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, million: 1e6, b: 1e9, billion: 1e9 };
+
+/** A metric's value, scaled by its unit — so "$2M", "$2 million" and "2,000,000" compare equal */
+function metricValue(metric: string): number {
+  const number = Number(metric.replace(/[$,]/g, "").match(/\d+(?:\.\d+)?/)![0]);
+  const unit = metric.match(/(thousand|million|billion|[kmb])$/i)?.[1].toLowerCase();
+  return unit ? number * SCALE[unit] : number;
+}
+
+function metricValues(text: string): Set<number> {
+  return new Set([...text.matchAll(METRIC)].map((match) => metricValue(match[0])));
+}
+
+function findClaims(sentence: string, atLineStart: boolean): Claim[] {
+  const claims: Claim[] = [];
+  for (const match of sentence.matchAll(METRIC)) {
+    // "1. " numbering a list isn't a claim
+    if (atLineStart && match.index === sentence.search(/\d/) && LIST_MARKER.test(sentence)) continue;
+    claims.push({ kind: "metric", text: match[0].trim(), index: match.index! });
+  }
+  const technologies = findTechnologyMentions(sentence);
+  for (const mention of technologies) {
+    claims.push({ kind: "technology", text: mention.text, index: mention.index, skill: mention.skill.name });
+  }
+  for (const match of sentence.matchAll(EMPLOYER)) {
+    const name = match[1].replace(/(?:['’]s)?[.'’]*$/, "");
+    const index = match.index! + match[0].length - match[1].length;
+    // Technologies are claims of their own ("with Kubernetes"), not employers
+    if (NOT_EMPLOYERS.has(name) || technologies.some((t) => t.index >= index && t.index < index + name.length)) continue;
+    claims.push({ kind: "employer", text: name, index });
+  }
+  return claims.sort((a, b) => a.index - b.index);
+}
+
+// --- Support ---
+
+/** Whether a text, together with its parse, backs up a claim */
+function supportedBy(text: string, parsed: ParsedResume | ParsedJD): (claim: Claim) => boolean {
+  const source = `${text}\n${JSON.stringify(parsed)}`;
+  const metrics = metricValues(source);
+  return (claim) => {
+    switch (claim.kind) {
+      case "metric":
+        return metrics.has(metricValue(claim.text));
+      case "technology":
+        return mentionsSkill(source, claim.skill!);
+      case "employer":
+        return matchesCompanyName(source, claim.text);
+    }
+  };
+}
+
+/** Whether a sentence is about the employer rather than the candidate */
+function aboutEmployer(sentence: string, company: string): boolean {
+  return /\byou(?:r|rs)?\b/i.test(sentence) || matchesCompanyName(sentence, company);
+}
+
+interface Sentence {
+  text: string;
+  /** Offset in the output text */
+  index: number;
+  /** The whole line the sentence is on */
+  line: string;
+  atLineStart: boolean;
+}
+
+/** Sentences of `text` with their offsets; a line break always ends a sentence */
+function sentences(text: string): Sentence[] {
+  const result: Sentence[] = [];
+  for (const line of text.matchAll(/[^\n]+/g)) {
+    let offset = 0;
+    for (const part of line[0].split(/(?<=[.!?])(?<!^\s*\d+\.)\s+(?=[A-Z"'(*_])/)) {
+      const start = line[0].indexOf(part, offset);
+      result.push({ text: part, index: line.index! + start, line: line[0], atLineStart: start === 0 });
+      offset = start + part.length;
+    }
+  }
+  return result;
+}
+
+function location(text: string, index: number): { line: number; column: number } {
+  const before = text.slice(0, index).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Claims in one output that neither the resume nor (in sentences about the
+ * employer) the job description supports. `lines` limits the check to the
+ * lines that make claims about the candidate.
+ */
+export function checkOutputGrounding(
+  output: string,
+  text: string,
+  sources: GroundingSources,
+  lines: (line: string) => boolean = () => true
+): GroundingIssue[] {
+  const inResume = supportedBy(sources.resumeText, sources.parsedResume);
+  const inJD = supportedBy(sources.jdText, sources.parsedJD);
+  const issues: GroundingIssue[] = [];
+
+  for (const sentence of sentences(text)) {
+    if (!lines(sentence.line)) continue;
+    const employerSentence = aboutEmployer(sentence.text, sources.parsedJD.company);
+
+    for (const claim of findClaims(sentence.text, sentence.atLineStart)) {
+      if (inResume(claim) || (employerSentence && inJD(claim))) continue;
+      issues.push({
+        output,
+        kind: claim.kind,
+        claim: claim.text,
+        ...location(text, sentence.index + claim.index),
+        excerpt: sentence.text.trim(),
+      });
+    }
+  }
+  return issues;
+}
+
+/** Unsupported claims in every grounded output, in generator order */
+export function checkGrounding(
+  outputs: GeneratedOutputs,
+  sources: GroundingSources,
+  generators: GeneratorPlugin[]
+): GroundingIssue[] {
+  return generators.flatMap((generator) => {
+    const text = outputs[generator.name];
+    if (!generator.grounded || !text) return [];
+    const lines = typeof generator.grounded === "function" ? generator.grounded : undefined;
+    return checkOutputGrounding(generator.name, text, sources, lines);
+  });
+}
+
+/** One line per issue, as listed in validation results and revision prompts */
+export function formatGroundingIssue(issue: GroundingIssue, label: string): string {
+  return `${label} line ${issue.line}: ${issue.kind} "${issue.claim}" is not in the resume ("${issue.excerpt}")`;
+}
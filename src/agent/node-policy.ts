@@ -0,0 +1,91 @@
+import type { AgentState } from "./state.js";
+
+/**
+ * Node policies — how runGraph retries and times out one node. LLMClient
+ * already retries individual calls; a node policy sits above that and re-runs
+ * the whole handler, so a call that exhausts its own retries, or a node that
+ * hangs, doesn't end the run on the first failure.
+ */
+
+// --- Types ---
+
+export type ErrorClass = abstract new (...args: any[]) => Error;
+
+export interface NodeBackoff {
+  /** Wait before the second attempt */
+  initialMs: number;
+  /** Factor applied to the wait before each later attempt (default 2) */
+  multiplier?: number;
+  /** Longest wait between attempts */
+  maxMs?: number;
+}
+
+export interface NodePolicy {
+  /** Per-attempt limit — the attempt's signal is aborted and it fails with NodeTimeoutError */
+  timeoutMs?: number;
+  /** Attempts including the first (default 1, i.e. no retry) */
+  maxAttempts?: number;
+  backoff?: NodeBackoff;
+  /** Errors worth another attempt, as classes or a predicate; any error is retried when omitted */
+  retryOn?: ErrorClass[] | ((error: unknown) => boolean);
+}
+
+export class NodeTimeoutError extends Error {
+  constructor(
+    public readonly state: AgentState,
+    public readonly timeoutMs: number
+  ) {
+    super(`${state} timed out after ${timeoutMs}ms`);
+    this.name = "NodeTimeoutError";
+  }
+}
+
+// --- Helpers ---
+
+export function isRetryable(policy: NodePolicy, error: unknown): boolean {
+  if (!policy.retryOn) return true;
+  if (typeof policy.retryOn === "function") return policy.retryOn(error);
+  return policy.retryOn.some((errorClass) => error instanceof errorClass);
+}
+
+/** Wait before attempt `attempt` (1-based, so the first retry is attempt 2) */
+export function retryDelay(policy: NodePolicy, attempt: number): number {
+  if (!policy.backoff) return 0;
+  const { initialMs, multiplier = 2, maxMs = Infinity } = policy.backoff;
+  return Math.min(initialMs * Math.pow(multiplier, attempt - 2), maxMs);
+}
+
+/**
+ * Run one attempt of a node under its timeout. The attempt gets its own
+ * signal, aborted when the run's signal is or when the timeout elapses, and
+ * a timed-out attempt rejects right away even if its handler ignores the signal.
+ */
+export async function runAttempt<T>(
+  state: AgentState,
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined,
+  attempt: (signal: AbortSignal | undefined) => Promise<T>
+): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) return attempt(signal);
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new NodeTimeoutError(state, timeoutMs);
+      reject(error);
+      controller.abort(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([attempt(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -1,16 +1,23 @@
-import { LLMClient, TokenUsageSummary } from "../llm/client.js";
+import { LLMClient, LLMCallRecord, TokenUsageSummary } from "../llm/client.js";
 import {
   AgentState,
   PipelineContext,
   createPipelineContext,
 } from "./state.js";
-import { createAgentGraph, runGraph } from "./graph.js";
+import { createAgentGraph, runGraph, GraphRunOptions } from "./graph.js";
+import { CheckpointError, type Checkpoint } from "./checkpoint.js";
+import { checkFitScore } from "./fit-gate.js";
+import { PipelineEvents, logPipelineEvents } from "./events.js";
 import { logger } from "../utils/logger.js";
+import type { RunAnalysis } from "../utils/run-loader.js";
 
 export interface OrchestratorResult {
   context: PipelineContext;
   success: boolean;
   tokenUsage: TokenUsageSummary;
+  /** Per-call ledger: stage, model, tokens, cost and duration of every provider call */
+  llmCalls: LLMCallRecord[];
+  model: string;
   totalDurationMs: number;
 }
 
@@ -18,22 +25,167 @@ export interface OrchestratorResult {
  * Orchestrator — builds the agent graph and runs it from PARSE_JD to a terminal state.
  *
  * The graph runner loops: get current state → find handler → execute → follow
- * the returned next state → repeat until DONE or ERROR.
+ * the returned next state → repeat until DONE, NOT_RECOMMENDED, ERROR,
+ * BUDGET_EXCEEDED or CANCELLED.
+ * The two parses run concurrently unless `options.execution` is "sequential".
+ * Subscribe to `options.events` to follow the run; the logger is subscribed too.
+ * Pass `options.signal` to cancel: in-flight LLM calls are aborted and the
+ * partial context and token usage are still returned. Pass `options.reviewFit`
+ * to pause after ANALYZE_FIT until the fit analysis is approved or edited, and
+ * `options.minFitScore` to stop in NOT_RECOMMENDED when the score is below it.
+ * `options.outputs` limits generation to those outputs and their dependencies,
+ * and `options.grounding` decides whether unsupported claims fail validation.
  */
 export async function runOrchestrator(
   jdText: string,
   resumeText: string,
   llm: LLMClient,
-  onStateChange?: (state: AgentState, ctx: PipelineContext) => void
+  options: GraphRunOptions = {}
 ): Promise<OrchestratorResult> {
   const ctx = createPipelineContext(jdText, resumeText);
+  ctx.budget = options.budget ?? null;
+  ctx.minFitScore = options.minFitScore ?? null;
+  ctx.requestedOutputs = options.outputs ?? null;
+  ctx.instructions = options.instructions ?? null;
+  if (options.grounding) ctx.grounding = options.grounding;
+  ctx.routing = options.routing ?? null;
+  if (options.reviewFit) ctx.fitReview = { status: "pending" };
   const graph = createAgentGraph();
 
   logger.info("Orchestrator starting", { states: Object.values(AgentState).length });
   console.log("\n🤖 Orchestrator starting...\n");
 
-  await runGraph(graph, ctx, llm, AgentState.PARSE_JD, onStateChange);
+  const events = options.events ?? new PipelineEvents();
+  const stopLogging = logPipelineEvents(events);
+  try {
+    await runGraph(graph, ctx, llm, AgentState.PARSE_JD, { ...options, events });
+  } finally {
+    stopLogging();
+  }
 
+  return finish(ctx, llm);
+}
+
+/**
+ * Resume a run from its last checkpoint: restores the context and the LLM
+ * call ledger, then restarts the graph at the node after the last one that
+ * completed — the node that failed, was cancelled or was skipped by the budget.
+ *
+ * Budget, routing, grounding and minimum fit score in `options` replace the checkpoint's
+ * (e.g. to raise a limit that stopped the run); when omitted the checkpoint's
+ * are kept. A NOT_RECOMMENDED run resumes into GENERATE_OUTPUTS once its
+ * score passes the new minimum (null lifts the gate).
+ * Artifacts the checkpoint already holds are emitted first, marked `restored`.
+ * `totalDurationMs` covers this invocation only.
+ */
+export async function resumeOrchestrator(
+  checkpoint: Checkpoint,
+  llm: LLMClient,
+  options: GraphRunOptions = {}
+): Promise<OrchestratorResult> {
+  const ctx: PipelineContext = structuredClone(checkpoint.context);
+  if (options.minFitScore !== undefined) ctx.minFitScore = options.minFitScore;
+
+  // A run stopped by the fit score gate goes on to generation once the gate is lifted
+  let startState = checkpoint.nextState;
+  if (startState === AgentState.NOT_RECOMMENDED && checkFitScore(ctx) === null) {
+    startState = AgentState.GENERATE_OUTPUTS;
+    ctx.notRecommended = null;
+  }
+  if (graphTerminalState(startState)) {
+    throw new CheckpointError(`Nothing to resume: the run already reached ${startState}`);
+  }
+
+  ctx.startTime = Date.now();
+  // Checkpoints saved before these fields were recorded don't have them
+  ctx.regenerations = ctx.regenerations ?? [];
+  ctx.tokenUsage.cacheTokens = ctx.tokenUsage.cacheTokens ?? 0;
+  ctx.requestedOutputs = ctx.requestedOutputs ?? null;
+  ctx.instructions = ctx.instructions ?? null;
+  ctx.previousOutputs = ctx.previousOutputs ?? null;
+  ctx.grounding = options.grounding ?? ctx.grounding ?? "warn";
+  ctx.budgetExceeded = null;
+  ctx.cancelled = null;
+  if (options.budget !== undefined) ctx.budget = options.budget;
+  if (options.routing !== undefined) ctx.routing = options.routing;
+  llm.restoreCallLedger(checkpoint.llmCalls);
+
+  logger.info("Orchestrator resuming", { from: startState, savedAt: checkpoint.savedAt });
+  console.log(`\n🤖 Orchestrator resuming at ${startState}...\n`);
+
+  const events = options.events ?? new PipelineEvents();
+  emitRestoredArtifacts(events, ctx);
+  const stopLogging = logPipelineEvents(events);
+  try {
+    await runGraph(createAgentGraph(), ctx, llm, startState, { ...options, events });
+  } finally {
+    stopLogging();
+  }
+
+  return finish(ctx, llm);
+}
+
+/**
+ * Regenerate outputs from a saved run's analysis: starts the graph at
+ * GENERATE_OUTPUTS with the parsed JD, resume and fit analysis already in
+ * the context, so nothing is parsed or analyzed again. Validation and its
+ * regeneration loop run as usual. Pass `options.outputs` to pick the outputs
+ * and `options.instructions` to steer them — with instructions, each output
+ * revises its latest saved version. The parsed inputs are emitted first,
+ * marked `restored`.
+ */
+export async function regenerateOutputs(
+  analysis: RunAnalysis,
+  llm: LLMClient,
+  options: GraphRunOptions = {}
+): Promise<OrchestratorResult> {
+  // Without a checkpoint the raw texts are gone; grounding checks claims against the parses
+  const ctx = createPipelineContext(analysis.jdText ?? "", analysis.resumeText ?? "");
+  ctx.parsedJD = analysis.parsedJD;
+  ctx.parsedResume = analysis.parsedResume;
+  ctx.fitAnalysis = analysis.fitAnalysis;
+  ctx.budget = options.budget ?? null;
+  ctx.requestedOutputs = options.outputs ?? null;
+  ctx.instructions = options.instructions ?? null;
+  // Instructions like "more concise" need the text they apply to
+  ctx.previousOutputs = ctx.instructions ? analysis.previousOutputs ?? null : null;
+  if (options.grounding) ctx.grounding = options.grounding;
+  ctx.routing = options.routing ?? null;
+
+  logger.info("Orchestrator regenerating", { outputs: ctx.requestedOutputs, instructions: ctx.instructions });
+  console.log("\n🤖 Orchestrator regenerating outputs...\n");
+
+  const events = options.events ?? new PipelineEvents();
+  emitRestoredArtifacts(events, ctx);
+  const stopLogging = logPipelineEvents(events);
+  try {
+    await runGraph(createAgentGraph(), ctx, llm, AgentState.GENERATE_OUTPUTS, { ...options, events });
+  } finally {
+    stopLogging();
+  }
+
+  return finish(ctx, llm);
+}
+
+/** Report what a checkpoint or saved analysis already produced, so subscribers see the same artifacts as in a fresh run */
+function emitRestoredArtifacts(events: PipelineEvents, ctx: PipelineContext): void {
+  if (ctx.parsedJD) events.emit("artifactProduced", { kind: "parsedJD", name: "parsedJD", data: ctx.parsedJD, restored: true });
+  if (ctx.parsedResume) {
+    events.emit("artifactProduced", { kind: "parsedResume", name: "parsedResume", data: ctx.parsedResume, restored: true });
+  }
+  if (ctx.fitAnalysis) {
+    events.emit("artifactProduced", { kind: "fitAnalysis", name: "fitAnalysis", data: ctx.fitAnalysis, restored: true });
+  }
+  for (const [name, output] of Object.entries(ctx.outputs)) {
+    if (output) events.emit("artifactProduced", { kind: "output", name, data: output, restored: true });
+  }
+}
+
+function graphTerminalState(state: AgentState): boolean {
+  return createAgentGraph().terminalStates.has(state);
+}
+
+function finish(ctx: PipelineContext, llm: LLMClient): OrchestratorResult {
   const totalDurationMs = Date.now() - ctx.startTime;
   const tokenUsage = llm.getUsageSummary();
 
@@ -47,8 +199,11 @@ export async function runOrchestrator(
 
   return {
     context: ctx,
-    success: ctx.currentState === AgentState.DONE,
+    // A run stopped by the fit score gate did what it was asked to
+    success: ctx.currentState === AgentState.DONE || ctx.currentState === AgentState.NOT_RECOMMENDED,
     tokenUsage,
+    llmCalls: llm.getCallLedger(),
+    model: llm.getModel(),
     totalDurationMs,
   };
 }
@@ -0,0 +1,54 @@
+import type { PipelineContext } from "./state.js";
+import type { GeneratorPlugin } from "../tools/generators/plugin.js";
+import { getGenerators } from "../tools/generators/registry.js";
+
+/**
+ * Output selection — a run can ask for only some of the registered outputs.
+ * ctx.requestedOutputs lists them by generator name (null for all), and
+ * generation, validation, the run directory and the summaries only cover the
+ * selected generators: the requested ones plus anything they depend on.
+ */
+
+/** How an output can be named: generator name, filename without extension, or one of its aliases */
+function outputNames(generator: GeneratorPlugin): string[] {
+  return [generator.name, generator.filename.replace(/\.[^.]+$/, ""), ...(generator.aliases ?? [])];
+}
+
+/**
+ * Parse an output selection from a CLI option ("cover-letter,bullets"), a
+ * request body array or a config value into generator names, in run order.
+ * Missing/empty values mean "every output".
+ */
+export function parseOutputSelection(value: unknown): string[] | null {
+  if (value === undefined || value === null || value === "") return null;
+  const refs = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(refs) || refs.some((ref) => typeof ref !== "string")) {
+    throw new Error("outputs must be a comma-separated string or an array of output names");
+  }
+
+  const generators = getGenerators();
+  const requested = new Set<string>();
+  for (const ref of refs.map((r: string) => r.trim()).filter(Boolean)) {
+    const generator = generators.find((g) => outputNames(g).includes(ref));
+    if (!generator) {
+      const known = generators.map((g) => outputNames(g).slice(1).join("|")).join(", ");
+      throw new Error(`Unknown output: ${ref}. Choose from: ${known}`);
+    }
+    requested.add(generator.name);
+  }
+  if (requested.size === 0) return null;
+  return generators.filter((g) => requested.has(g.name)).map((g) => g.name);
+}
+
+/** Generators the run produces, in run order: the requested outputs and the generators they depend on */
+export function selectedGenerators(ctx: Pick<PipelineContext, "requestedOutputs">): GeneratorPlugin[] {
+  const generators = getGenerators();
+  if (!ctx.requestedOutputs) return generators;
+
+  const selected = new Set(ctx.requestedOutputs);
+  // dependsOn only names earlier generators, so walking backwards reaches every dependency
+  for (const generator of [...generators].reverse()) {
+    if (selected.has(generator.name)) generator.dependsOn?.forEach((name) => selected.add(name));
+  }
+  return generators.filter((g) => selected.has(g.name));
+}
@@ -0,0 +1,60 @@
+import { FitAnalysisSchema, type FitAnalysis } from "../llm/schemas.js";
+import { formatZodIssues } from "../llm/client.js";
+import type { PipelineContext } from "./state.js";
+
+/**
+ * Fit review — an optional REVIEW_FIT node between ANALYZE_FIT and
+ * GENERATE_OUTPUTS. It hands the fit analysis to a reviewer (the CLI's editor
+ * prompt, or the web UI through POST /api/runs/review) and waits until it is
+ * approved or edited, so a false gap or a missed match is fixed before paying
+ * for generation. The checkpoint saved after ANALYZE_FIT restarts at
+ * REVIEW_FIT, so a run left waiting can be resumed into the same review.
+ */
+
+// --- Types ---
+
+/**
+ * Resolves with the reviewed analysis: null/undefined approves it unchanged,
+ * anything else is validated against FitAnalysisSchema and replaces it.
+ */
+export type FitReviewer = (
+  fitAnalysis: FitAnalysis,
+  ctx: PipelineContext,
+  signal?: AbortSignal
+) => Promise<unknown>;
+
+export interface FitReview {
+  status: "pending" | "approved" | "edited";
+  reviewedAt?: string;
+}
+
+export class FitReviewError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Edited fit analysis is invalid: ${issues.join(", ")}`);
+    this.name = "FitReviewError";
+  }
+}
+
+// --- Validation ---
+
+export function parseFitReview(input: unknown): FitAnalysis {
+  const result = FitAnalysisSchema.safeParse(input);
+  if (!result.success) {
+    throw new FitReviewError(formatZodIssues(result.error));
+  }
+  return result.data;
+}
+
+/** Apply a reviewer's answer to the context, validating an edited analysis first */
+export function applyFitReview(ctx: PipelineContext, reviewed: unknown): FitReview {
+  let status: FitReview["status"] = "approved";
+  if (reviewed !== null && reviewed !== undefined) {
+    const fitAnalysis = parseFitReview(reviewed);
+    if (JSON.stringify(fitAnalysis) !== JSON.stringify(ctx.fitAnalysis)) {
+      ctx.fitAnalysis = fitAnalysis;
+      status = "edited";
+    }
+  }
+  ctx.fitReview = { status, reviewedAt: new Date().toISOString() };
+  return ctx.fitReview;
+}
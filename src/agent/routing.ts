@@ -0,0 +1,98 @@
+import { readFileSync } from "fs";
+import { AgentState } from "./state.js";
+import type { LLMCallOptions } from "../llm/client.js";
+import { getGenerators } from "../tools/generators/registry.js";
+
+/**
+ * Per-node model routing — lets cheap models handle parsing while a stronger
+ * one writes the outputs. Keys are pipeline states or generator output names
+ * (built-in or plugin — plugins must be registered before routing is parsed);
+ * a generator's own route is layered over the GENERATE_OUTPUTS route.
+ * Anything without a route uses the LLMClient's model and max tokens.
+ */
+
+// --- Types ---
+
+export interface ModelRoute {
+  model?: string;
+  /** Max output tokens for calls made by this node */
+  maxTokens?: number;
+}
+
+/** A routed pipeline state, or a generator's output name */
+export type RouteKey = AgentState | string;
+
+export type ModelRouting = Partial<Record<RouteKey, ModelRoute>>;
+
+const ROUTED_STATES: string[] = [
+  AgentState.PARSE_JD,
+  AgentState.PARSE_RESUME,
+  AgentState.ANALYZE_FIT,
+  AgentState.GENERATE_OUTPUTS,
+];
+
+// --- Parsing ---
+
+/** Validate a routing object (e.g. parsed from JSON); returns null when it has no routes */
+export function parseModelRouting(input: unknown): ModelRouting | null {
+  if (input === undefined || input === null) return null;
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("Model routing must be an object keyed by pipeline state or output name");
+  }
+
+  const routeKeys = [...ROUTED_STATES, ...getGenerators().map((g) => g.name)];
+  const routing: ModelRouting = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!routeKeys.includes(key)) {
+      throw new Error(`Unknown routing key: ${key}. Use one of ${routeKeys.join(", ")}`);
+    }
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`Route for ${key} must be an object with model and/or maxTokens`);
+    }
+
+    const { model, maxTokens } = value as Record<string, unknown>;
+    const route: ModelRoute = {};
+    if (model !== undefined) {
+      if (typeof model !== "string" || !model.trim()) {
+        throw new Error(`${key}.model must be a non-empty string`);
+      }
+      route.model = model.trim();
+    }
+    if (maxTokens !== undefined) {
+      if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens) || maxTokens <= 0) {
+        throw new Error(`${key}.maxTokens must be a positive integer`);
+      }
+      route.maxTokens = maxTokens;
+    }
+    routing[key] = route;
+  }
+
+  return Object.keys(routing).length > 0 ? routing : null;
+}
+
+/** Read and validate a routing JSON file */
+export function loadModelRouting(path: string): ModelRouting | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Could not read model routing from ${path}: ${error.message}`);
+  }
+  return parseModelRouting(raw);
+}
+
+// --- Resolution ---
+
+/** Model and max-token overrides for one node, or one generator within GENERATE_OUTPUTS */
+export function resolveRoute(
+  routing: ModelRouting | null | undefined,
+  state: AgentState,
+  output?: string
+): Pick<LLMCallOptions, "model" | "maxTokens"> {
+  if (!routing) return {};
+  const route = { ...routing[state], ...(output ? routing[output] : undefined) };
+  return {
+    ...(route.model ? { model: route.model } : {}),
+    ...(route.maxTokens ? { maxTokens: route.maxTokens } : {}),
+  };
+}
@@ -1,4 +1,8 @@
 import type { ParsedJD, ParsedResume, FitAnalysis } from "../llm/schemas.js";
+import type { LLMCallRecord } from "../llm/client.js";
+import type { ModelRouting } from "./routing.js";
+import type { FitReview } from "./review.js";
+import type { GroundingIssue, GroundingMode } from "./grounding.js";
 
 // --- Agent States ---
 
@@ -7,10 +11,14 @@ export enum AgentState {
   PARSE_JD = "PARSE_JD",
   PARSE_RESUME = "PARSE_RESUME",
   ANALYZE_FIT = "ANALYZE_FIT",
+  REVIEW_FIT = "REVIEW_FIT",
   GENERATE_OUTPUTS = "GENERATE_OUTPUTS",
   VALIDATE = "VALIDATE",
   DONE = "DONE",
   ERROR = "ERROR",
+  BUDGET_EXCEEDED = "BUDGET_EXCEEDED",
+  CANCELLED = "CANCELLED",
+  NOT_RECOMMENDED = "NOT_RECOMMENDED",
 }
 
 // --- Generated Outputs ---
@@ -19,6 +27,8 @@ export interface GeneratedOutputs {
   coverLetter: string | null;
   tailoredBullets: string | null;
   interviewPrep: string | null;
+  /** Plugin generators' outputs, keyed by generator name */
+  [name: string]: string | null;
 }
 
 // --- Validation Result ---
@@ -29,6 +39,103 @@ export interface ValidationResult {
   bulletsValid: boolean;
   interviewPrepValid: boolean;
   issues: string[];
+  /** Result per generator, keyed by output name — decides which outputs are regenerated */
+  byOutput: Record<string, { valid: boolean; issues: string[] }>;
+  /** Claims the resume doesn't support — also listed in `issues` when grounding is "fail" */
+  grounding: GroundingIssue[];
+}
+
+/** A generator re-run with feedback after failing validation — the prompt it was sent, for auditing */
+export interface Regeneration {
+  output: string;
+  /** Generation round the revision ran in (ctx.validationAttempts) — 2 for the first retry */
+  generation: number;
+  issues: string[];
+  previousOutput: string;
+  prompt: string;
+}
+
+// --- Run Budget ---
+
+export interface RunBudget {
+  /** Stop once the run's estimated cost reaches this many US dollars */
+  maxCostUsd?: number;
+  /** Stop once the run's input + output tokens, prompt-cache reads and writes included, reach this total */
+  maxTokens?: number;
+}
+
+export interface BudgetExceeded {
+  limit: keyof RunBudget;
+  /** Last node that ran — its spend took the run over the limit */
+  node: AgentState;
+  /** Node that was about to run and was skipped */
+  skippedNode: AgentState;
+  spentUsd: number;
+  spentTokens: number;
+}
+
+// --- Fit Score Gate ---
+
+export interface NotRecommended {
+  /** Fit score the run stopped at */
+  score: number;
+  /** Minimum the score had to reach for outputs to be generated */
+  minScore: number;
+}
+
+// --- Cancellation ---
+
+export interface Cancellation {
+  /** Node that was running (or about to run) when the signal aborted */
+  node: AgentState;
+  reason: string;
+  /** Spend up to the abort, from the LLM call ledger — includes completed attempts of the cancelled node */
+  spentUsd: number;
+  spentTokens: number;
+}
+
+// --- State History ---
+
+/** One run of a node's handler under its NodePolicy */
+export interface NodeAttempt {
+  attempt: number;
+  durationMs: number;
+  /** Why the attempt failed — absent on the attempt that succeeded */
+  error?: string;
+}
+
+/** LLM spend of one stage — a pipeline state or output name, like the call ledger */
+export interface StageUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt-cache tokens, not included in inputTokens */
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  /** Provider calls, failed attempts included */
+  calls: number;
+  /** Calls that read from the prompt cache */
+  cacheHits: number;
+}
+
+/** LLM spend of one visit to a node, in total and per stage */
+export interface NodeUsage extends StageUsage {
+  byStage: Record<string, StageUsage>;
+}
+
+export interface StateHistoryEntry {
+  state: AgentState;
+  /** When the node started — nodes run concurrently in DAG mode have overlapping spans */
+  timestamp: number;
+  durationMs?: number;
+  /** Model that served each LLM call made in this node, keyed by pipeline state or output name */
+  models?: Record<string, string>;
+  /** Guard of the conditional edge this node left by — picks the edge when rendering the run's path */
+  guard?: string;
+  /** Every attempt of this node, recorded only when at least one failed */
+  attempts?: NodeAttempt[];
+  /** LLM spend of this visit, from the call ledger — each generation round has its own entry */
+  usage?: NodeUsage;
 }
 
 // --- Pipeline Context (full state of a run) ---
@@ -42,22 +149,46 @@ export interface PipelineContext {
   parsedJD: ParsedJD | null;
   parsedResume: ParsedResume | null;
   fitAnalysis: FitAnalysis | null;
+  /** Set when the run pauses for a fit review before generation — null when none was requested */
+  fitReview: FitReview | null;
 
   // Generated outputs
   outputs: GeneratedOutputs;
+  /** Generator names the run was asked for — null generates every registered output */
+  requestedOutputs: string[] | null;
+  /** The user's instructions appended to every generator prompt — null when none were given */
+  instructions: string | null;
+  /** Saved outputs a regeneration revises as the instructions ask — null generates from scratch */
+  previousOutputs: Partial<GeneratedOutputs> | null;
 
   // Validation
   validation: ValidationResult | null;
   validationAttempts: number;
+  /** Every regeneration prompt sent after a failed validation, in order */
+  regenerations: Regeneration[];
+  /** What VALIDATE does with claims the resume doesn't support: ignore, record or fail them */
+  grounding: GroundingMode;
 
   // Agent state
   currentState: AgentState;
-  stateHistory: { state: AgentState; timestamp: number; durationMs?: number }[];
+  stateHistory: StateHistoryEntry[];
 
   // Metadata
   errors: string[];
   startTime: number;
-  tokenUsage: { inputTokens: number; outputTokens: number };
+  /** cacheTokens are prompt-cache reads and writes, which inputTokens leaves out */
+  tokenUsage: { inputTokens: number; outputTokens: number; cacheTokens: number };
+  /** USD, summed from each LLM result's model-specific cost */
+  estimatedCost: number;
+  /** LLM retries and repair attempts, keyed by pipeline state or output name */
+  llmRetries: Record<string, { retries: number; repairs: number }>;
+  budget: RunBudget | null;
+  budgetExceeded: BudgetExceeded | null;
+  /** Runs scoring below this stop after the fit analysis — null generates whatever the score */
+  minFitScore: number | null;
+  notRecommended: NotRecommended | null;
+  routing: ModelRouting | null;
+  cancelled: Cancellation | null;
 }
 
 // --- Factory ---
@@ -72,18 +203,32 @@ export function createPipelineContext(
     parsedJD: null,
     parsedResume: null,
     fitAnalysis: null,
+    fitReview: null,
     outputs: {
       coverLetter: null,
       tailoredBullets: null,
       interviewPrep: null,
     },
+    requestedOutputs: null,
+    instructions: null,
+    previousOutputs: null,
     validation: null,
     validationAttempts: 0,
+    regenerations: [],
+    grounding: "warn",
     currentState: AgentState.INTAKE,
     stateHistory: [{ state: AgentState.INTAKE, timestamp: Date.now() }],
     errors: [],
     startTime: Date.now(),
-    tokenUsage: { inputTokens: 0, outputTokens: 0 },
+    tokenUsage: { inputTokens: 0, outputTokens: 0, cacheTokens: 0 },
+    estimatedCost: 0,
+    llmRetries: {},
+    budget: null,
+    budgetExceeded: null,
+    minFitScore: null,
+    notRecommended: null,
+    routing: null,
+    cancelled: null,
   };
 }
 
@@ -100,11 +245,122 @@ export function transitionTo(ctx: PipelineContext, next: AgentState): void {
   ctx.currentState = next;
 }
 
+/**
+ * Start `next` alongside the node already running: unlike transitionTo, the
+ * previous entry stays open, so the two spans overlap in stateHistory.
+ */
+export function startConcurrentNode(ctx: PipelineContext, next: AgentState): void {
+  ctx.stateHistory.push({ state: next, timestamp: Date.now() });
+  ctx.currentState = next;
+}
+
+/** Close a node's span when it finishes — concurrent nodes can't wait for transitionTo */
+export function finishNode(ctx: PipelineContext, node: AgentState): void {
+  const entry = nodeEntry(ctx, node);
+  if (entry && entry.durationMs === undefined) {
+    entry.durationMs = Date.now() - entry.timestamp;
+  }
+}
+
+/** Latest history entry of a node — the one it is running in */
+function nodeEntry(ctx: PipelineContext, node: AgentState): StateHistoryEntry | undefined {
+  for (let i = ctx.stateHistory.length - 1; i >= 0; i--) {
+    if (ctx.stateHistory[i].state === node) return ctx.stateHistory[i];
+  }
+  return undefined;
+}
+
+/** Record the model used for a stage on the node's history entry */
+export function recordNodeModel(ctx: PipelineContext, node: AgentState, stage: string, model: string): void {
+  const entry = nodeEntry(ctx, node);
+  if (!entry) return;
+  entry.models = { ...entry.models, [stage]: model };
+}
+
+/** Record which guarded edge the node left by */
+export function recordNodeGuard(ctx: PipelineContext, node: AgentState, guard: string): void {
+  const entry = nodeEntry(ctx, node);
+  if (!entry) return;
+  entry.guard = guard;
+}
+
+/** Record the node's attempts when any of them failed */
+export function recordNodeAttempts(ctx: PipelineContext, node: AgentState, attempts: NodeAttempt[]): void {
+  const entry = nodeEntry(ctx, node);
+  if (!entry || !attempts.some((attempt) => attempt.error !== undefined)) return;
+  entry.attempts = attempts;
+}
+
+/** Attribute one provider call to the node's history entry, under the call's stage */
+export function recordNodeUsage(ctx: PipelineContext, node: AgentState, call: LLMCallRecord): void {
+  const entry = nodeEntry(ctx, node);
+  if (!entry) return;
+  const spent: StageUsage = {
+    inputTokens: call.inputTokens,
+    outputTokens: call.outputTokens,
+    cacheReadTokens: call.cacheReadTokens,
+    cacheWriteTokens: call.cacheWriteTokens,
+    costUsd: call.costUsd,
+    calls: 1,
+    cacheHits: call.cacheReadTokens > 0 ? 1 : 0,
+  };
+  const usage = entry.usage ?? { ...emptyStageUsage(), byStage: {} };
+  addStageUsage(usage, spent);
+  usage.byStage[call.stage] = addStageUsage(usage.byStage[call.stage] ?? emptyStageUsage(), spent);
+  entry.usage = usage;
+}
+
+/** Spend of the node's latest visit — undefined when it made no LLM calls */
+export function nodeUsage(ctx: PipelineContext, node: AgentState): NodeUsage | undefined {
+  return nodeEntry(ctx, node)?.usage;
+}
+
+/** Spend per stage over the whole run, summing every visit (e.g. each generation round) */
+export function usageByStage(history: StateHistoryEntry[]): Record<string, StageUsage> {
+  const totals: Record<string, StageUsage> = {};
+  for (const entry of history) {
+    for (const [stage, usage] of Object.entries(entry.usage?.byStage ?? {})) {
+      totals[stage] = addStageUsage(totals[stage] ?? emptyStageUsage(), usage);
+    }
+  }
+  return totals;
+}
+
+function emptyStageUsage(): StageUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, calls: 0, cacheHits: 0 };
+}
+
+function addStageUsage<T extends StageUsage>(total: T, usage: StageUsage): T {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.cacheReadTokens += usage.cacheReadTokens;
+  total.cacheWriteTokens += usage.cacheWriteTokens;
+  total.costUsd += usage.costUsd;
+  total.calls += usage.calls;
+  total.cacheHits += usage.cacheHits;
+  return total;
+}
+
 export function addTokenUsage(
   ctx: PipelineContext,
   input: number,
-  output: number
+  output: number,
+  costUsd = 0,
+  cacheTokens = 0
 ): void {
   ctx.tokenUsage.inputTokens += input;
   ctx.tokenUsage.outputTokens += output;
+  ctx.tokenUsage.cacheTokens += cacheTokens;
+  ctx.estimatedCost += costUsd;
+}
+
+export function recordLLMRetries(
+  ctx: PipelineContext,
+  stage: string,
+  result: { retries?: number; repairs?: number }
+): void {
+  const entry = ctx.llmRetries[stage] ?? { retries: 0, repairs: 0 };
+  entry.retries += result.retries ?? 0;
+  entry.repairs += result.repairs ?? 0;
+  ctx.llmRetries[stage] = entry;
 }
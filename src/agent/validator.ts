@@ -1,165 +1,46 @@
 import type { ParsedJD } from "../llm/schemas.js";
 import type { GeneratedOutputs, ValidationResult } from "./state.js";
-
-const MAX_COVER_LETTER_WORDS = 400;
-const MIN_COVER_LETTER_WORDS = 150;
-const MIN_BULLETS = 4;
-
-const COMPANY_STOPWORDS = new Set([
-  "inc",
-  "inc.",
-  "llc",
-  "ltd",
-  "ltd.",
-  "corp",
-  "corp.",
-  "co",
-  "co.",
-  "company",
-  "technologies",
-]);
-
-function normalizeText(value: string): string {
-  return value.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
-}
-
-function matchesCompanyName(content: string, company: string): boolean {
-  const normalizedContent = normalizeText(content);
-  const normalizedCompany = normalizeText(company);
-
-  if (normalizedContent.includes(normalizedCompany)) {
-    return true;
-  }
-
-  const companyTokens = normalizedCompany
-    .split(" ")
-    .filter((token) => token.length >= 3 && !COMPANY_STOPWORDS.has(token));
-
-  if (companyTokens.length === 0) {
-    return false;
-  }
-
-  if (companyTokens.length === 1) {
-    return normalizedContent.includes(companyTokens[0]);
-  }
-
-  return companyTokens[0] !== "" && companyTokens[1] !== ""
-    ? normalizedContent.includes(companyTokens[0]) && normalizedContent.includes(companyTokens[1])
-    : false;
-}
+import type { GeneratorPlugin } from "../tools/generators/plugin.js";
+import { getGenerators } from "../tools/generators/registry.js";
+import { checkGrounding, formatGroundingIssue, type GroundingMode, type GroundingSources } from "./grounding.js";
 
 /**
- * Validates the quality of generated outputs.
+ * Validates the quality of generated outputs by running each generator's rules.
  * Returns a ValidationResult with pass/fail and specific issues.
  * The orchestrator can retry generation for any failed section.
+ *
+ * With `grounding`, grounded outputs are also checked for claims the resume
+ * doesn't support; they fail validation only in "fail" mode.
  */
 export function validateOutputs(
   outputs: GeneratedOutputs,
-  parsedJD: ParsedJD
+  parsedJD: ParsedJD,
+  generators: GeneratorPlugin[] = getGenerators(),
+  grounding?: { mode: GroundingMode; sources: GroundingSources }
 ): ValidationResult {
   const issues: string[] = [];
-
-  // --- Cover Letter Validation ---
-  let coverLetterValid = true;
-
-  if (!outputs.coverLetter) {
-    coverLetterValid = false;
-    issues.push("Cover letter is missing");
-  } else {
-    const wordCount = outputs.coverLetter.split(/\s+/).length;
-
-    if (wordCount > MAX_COVER_LETTER_WORDS) {
-      coverLetterValid = false;
-      issues.push(
-        `Cover letter too long: ${wordCount} words (max ${MAX_COVER_LETTER_WORDS})`
-      );
-    }
-
-    if (wordCount < MIN_COVER_LETTER_WORDS) {
-      coverLetterValid = false;
-      issues.push(
-        `Cover letter too short: ${wordCount} words (min ${MIN_COVER_LETTER_WORDS})`
-      );
-    }
-
-    // Check it mentions the company name
-    if (!matchesCompanyName(outputs.coverLetter, parsedJD.company)) {
-      coverLetterValid = false;
-      issues.push("Cover letter doesn't mention the company name");
-    }
-
-    // Check it references at least one required skill
-    const mentionsSkill = parsedJD.requiredSkills.some((s) =>
-      outputs.coverLetter!.toLowerCase().includes(s.name.toLowerCase())
-    );
-    if (!mentionsSkill) {
-      coverLetterValid = false;
-      issues.push(
-        "Cover letter doesn't reference any required skills from the JD"
-      );
+  const byOutput: ValidationResult["byOutput"] = {};
+  const groundingIssues =
+    grounding && grounding.mode !== "off" ? checkGrounding(outputs, grounding.sources, generators) : [];
+
+  for (const generator of generators) {
+    const text = outputs[generator.name];
+    const outputIssues = !text
+      ? [`${generator.label} missing`]
+      : (generator.rules ?? [])
+          .map((rule) => rule(text, { parsedJD, outputs }))
+          .filter((issue): issue is string => issue !== null);
+    if (grounding?.mode === "fail") {
+      for (const issue of groundingIssues.filter((i) => i.output === generator.name)) {
+        outputIssues.push(formatGroundingIssue(issue, generator.label));
+      }
     }
-  }
-
-  // --- Resume Bullets Validation ---
-  let bulletsValid = true;
 
-  if (!outputs.tailoredBullets) {
-    bulletsValid = false;
-    issues.push("Resume bullets are missing");
-  } else {
-    // Count bullet points (lines starting with -)
-    const bulletCount = (outputs.tailoredBullets.match(/^- /gm) || []).length;
-
-    if (bulletCount < MIN_BULLETS) {
-      bulletsValid = false;
-      issues.push(
-        `Too few resume bullets: ${bulletCount} (min ${MIN_BULLETS})`
-      );
-    }
-
-    // Check bullets use JD keywords
-    const jdKeywords = parsedJD.techStack.map((t) => t.toLowerCase());
-    const bulletsLower = outputs.tailoredBullets.toLowerCase();
-    const keywordHits = jdKeywords.filter((k) => bulletsLower.includes(k));
-
-    if (keywordHits.length < 2) {
-      bulletsValid = false;
-      issues.push(
-        `Resume bullets only reference ${keywordHits.length} tech stack keywords (need at least 2)`
-      );
-    }
+    byOutput[generator.name] = { valid: outputIssues.length === 0, issues: outputIssues };
+    issues.push(...outputIssues);
   }
 
-  // --- Interview Prep Validation ---
-  let interviewPrepValid = true;
-
-  if (!outputs.interviewPrep) {
-    interviewPrepValid = false;
-    issues.push("Interview prep is missing");
-  } else {
-    // Check it has all three sections
-    const hasThreeSections =
-      outputs.interviewPrep.includes("Technical Questions") &&
-      outputs.interviewPrep.includes("Behavioral Questions") &&
-      outputs.interviewPrep.includes("Questions to Ask");
-
-    if (!hasThreeSections) {
-      interviewPrepValid = false;
-      issues.push(
-        "Interview prep missing one or more sections (Technical, Behavioral, Questions to Ask)"
-      );
-    }
-
-    // Check it's not too generic (should mention the company or role)
-    if (!matchesCompanyName(outputs.interviewPrep, parsedJD.company)) {
-      interviewPrepValid = false;
-      issues.push(
-        "Interview prep appears generic — doesn't mention the company"
-      );
-    }
-  }
-
-  const passed = coverLetterValid && bulletsValid && interviewPrepValid;
+  const passed = issues.length === 0;
 
   if (passed) {
     console.log("  ✓ All outputs passed validation");
@@ -169,12 +50,21 @@ export function validateOutputs(
       console.log(`    - ${issue}`);
     }
   }
+  if (grounding?.mode === "warn" && groundingIssues.length > 0) {
+    console.log(`  ⚠ ${groundingIssues.length} claim${groundingIssues.length > 1 ? "s" : ""} not found in the resume`);
+    for (const issue of groundingIssues) {
+      const generator = generators.find((g) => g.name === issue.output)!;
+      console.log(`    - ${formatGroundingIssue(issue, generator.label)}`);
+    }
+  }
 
   return {
     passed,
-    coverLetterValid,
-    bulletsValid,
-    interviewPrepValid,
+    coverLetterValid: byOutput.coverLetter?.valid ?? true,
+    bulletsValid: byOutput.tailoredBullets?.valid ?? true,
+    interviewPrepValid: byOutput.interviewPrep?.valid ?? true,
     issues,
+    byOutput,
+    grounding: groundingIssues,
   };
 }
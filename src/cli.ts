@@ -1,22 +1,36 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
-import { readFileSync, existsSync } from "fs";
+import { readFileSync, existsSync, writeFileSync, rmSync } from "fs";
+import { spawnSync } from "child_process";
 import { join, resolve } from "path";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
 import { createInterface } from "readline/promises";
-import { LLMClient } from "./llm/client.js";
-import { runOrchestrator } from "./agent/orchestrator.js";
+import { LLMClient, type LLMCallRecord } from "./llm/client.js";
+import { resolveProviderName } from "./llm/provider.js";
+import { runOrchestrator, resumeOrchestrator, regenerateOutputs, type OrchestratorResult } from "./agent/orchestrator.js";
+import { parseRunBudget } from "./agent/budget.js";
+import { loadModelRouting, type ModelRouting } from "./agent/routing.js";
+import { loadCheckpoint, saveCheckpoint, type Checkpoint } from "./agent/checkpoint.js";
+import { parseFitReview, FitReviewError, type FitReviewer } from "./agent/review.js";
+import { parseMinFitScore } from "./agent/fit-gate.js";
+import { parseOutputSelection, selectedGenerators } from "./agent/output-selection.js";
+import { parseGroundingMode, formatGroundingIssue, type GroundingMode } from "./agent/grounding.js";
+import { createAgentGraph } from "./agent/graph.js";
+import { PipelineEvents } from "./agent/events.js";
+import { renderGraph, GRAPH_FORMATS, type GraphFormat } from "./agent/graph-export.js";
+import { AgentState, type PipelineContext, type RunBudget, type StageUsage, type StateHistoryEntry } from "./agent/state.js";
 import { scrapeJobPosting } from "./tools/scraper.js";
+import { getGenerator, loadGeneratorPlugins } from "./tools/generators/registry.js";
 import { parseFile } from "./utils/file-parser.js";
 import { logger } from "./utils/logger.js";
-import { loadAllRuns } from "./utils/run-loader.js";
-import { writeRunOutputs } from "./utils/output-writer.js";
+import { loadAllRuns, loadRunAnalysis, loadRunCalls, breakdownCosts, CostDimension, type RunAnalysis } from "./utils/run-loader.js";
+import { writeRunOutputs, writeRegeneratedOutputs, defaultRunDir } from "./utils/output-writer.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
-const OUTPUT_ROOT = join(__dirname, "../output");
+const OUTPUT_ROOT = process.env.JOBFIT_OUTPUT_DIR ? resolve(process.env.JOBFIT_OUTPUT_DIR) : join(__dirname, "../output");
 
 const program = new Command();
 
@@ -32,6 +46,201 @@ async function promptForJDText(): Promise<string> {
   return jdText.trim();
 }
 
+interface LLMOptions {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  record?: string;
+  replay?: string;
+}
+
+/** Register generator plugins from --plugins or JOBFIT_PLUGINS */
+async function loadPlugins(path = process.env.JOBFIT_PLUGINS): Promise<void> {
+  if (!path) return;
+  const names = await loadGeneratorPlugins(resolve(path));
+  if (names.length > 0) console.log(`🧩 Plugins: ${names.join(", ")}`);
+}
+
+function createLLMClient(opts: LLMOptions): LLMClient {
+  return new LLMClient({
+    provider: opts.provider ? resolveProviderName(opts.provider) : undefined,
+    model: opts.model,
+    baseUrl: opts.baseUrl,
+    cassette: opts.record
+      ? { path: resolve(opts.record), mode: "record" }
+      : opts.replay
+        ? { path: resolve(opts.replay), mode: "replay" }
+        : undefined,
+    maxRetries: 2,
+    maxTokens: 4096,
+  });
+}
+
+/**
+ * Run with Ctrl+C wired to cancellation: the first press cancels (partial outputs are still saved), a second quits.
+ * `interrupt` does the same from code, e.g. when Ctrl+C reaches a readline prompt instead of the process.
+ */
+async function withInterrupt<T>(run: (signal: AbortSignal, interrupt: () => void) => Promise<T>): Promise<T> {
+  const abortController = new AbortController();
+  const onInterrupt = () => {
+    if (abortController.signal.aborted) process.exit(130);
+    console.log("\n🛑 Cancelling run — press Ctrl+C again to quit immediately");
+    abortController.abort(new Error("Interrupted by user"));
+  };
+  process.on("SIGINT", onInterrupt);
+  try {
+    return await run(abortController.signal, onInterrupt);
+  } finally {
+    process.off("SIGINT", onInterrupt);
+  }
+}
+
+/** Progress lines for the terminal: each node as it starts and what it took, then the final state */
+function printProgress(): PipelineEvents {
+  const events = new PipelineEvents();
+  events.on("nodeStarted", ({ node }) => console.log(`  → State: ${node}`));
+  events.on("nodeCompleted", ({ node, durationMs, tokens, costUsd }) => {
+    const spent = tokens.input + tokens.output > 0
+      ? ` · ${(tokens.input + tokens.output).toLocaleString()} tokens · $${costUsd.toFixed(4)}`
+      : "";
+    console.log(`  ✓ ${node} done in ${(durationMs / 1000).toFixed(1)}s${spent}`);
+  });
+  events.on("runFinished", ({ state }) => console.log(`  → State: ${state}`));
+  return events;
+}
+
+/**
+ * Checkpoint handler writing to the run directory. The directory is fixed by
+ * the first checkpoint — after PARSE_JD, so it is named from the parsed JD.
+ */
+function checkpointToRunDir(
+  runDir: { path: string | null },
+  sources: Pick<Checkpoint, "jdSource" | "resumeSource">
+): (checkpoint: Checkpoint) => void {
+  return (checkpoint) => {
+    runDir.path ??= defaultRunDir(OUTPUT_ROOT, checkpoint.context);
+    saveCheckpoint(runDir.path, { ...checkpoint, ...sources });
+  };
+}
+
+/**
+ * Fit reviewer for --review: shows the analysis, then accepts it, opens it as
+ * JSON in $VISUAL/$EDITOR, or stops the run. An edit that fails the schema is
+ * reported and reopened. A stopped run resumes into the same review.
+ */
+function createEditorReviewer(runDir: { path: string | null }, interrupt: () => void): FitReviewer {
+  return async (fitAnalysis, _ctx, signal) => {
+    const editor = process.env.VISUAL ?? process.env.EDITOR ?? "vi";
+    const reviewPath = join(runDir.path!, "fit-review.json");
+    console.log(`\n📝 Fit analysis — score ${fitAnalysis.overallScore}/100`);
+    console.log(`   ${fitAnalysis.strongMatches.length} strong matches, ${fitAnalysis.partialMatches.length} partial, ${fitAnalysis.gaps.length} gaps`);
+    for (const gap of fitAnalysis.gaps) {
+      console.log(`   - gap: ${gap.skill} (${gap.severity})`);
+    }
+
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    rl.on("SIGINT", interrupt);
+    let current: unknown = fitAnalysis;
+    try {
+      for (;;) {
+        const answer = (await rl.question(`\n[a]ccept, [e]dit in ${editor}, or [s]top here? `, { signal })).trim().toLowerCase();
+        if (answer === "a" || answer === "") {
+          return current === fitAnalysis ? null : current;
+        }
+        if (answer === "s") {
+          interrupt();
+          signal?.throwIfAborted();
+        }
+        if (answer !== "e") continue;
+
+        writeFileSync(reviewPath, JSON.stringify(current, null, 2));
+        spawnSync(`${editor} "${reviewPath}"`, { shell: true, stdio: "inherit" });
+        try {
+          current = parseFitReview(JSON.parse(readFileSync(reviewPath, "utf-8")));
+          rmSync(reviewPath, { force: true });
+          console.log("  ✓ Edited analysis is valid — accept it to continue");
+        } catch (error: any) {
+          const issues = error instanceof FitReviewError ? error.issues : [error.message];
+          console.error(`  ✗ Edited analysis is invalid, kept in ${reviewPath}:`);
+          for (const issue of issues) console.error(`    - ${issue}`);
+        }
+      }
+    } finally {
+      rl.close();
+    }
+  };
+}
+
+function printRunSummary(result: OrchestratorResult, outputDir: string, routing: ModelRouting | null): void {
+  const ctx: PipelineContext = result.context;
+  const budgetExceeded = ctx.currentState === AgentState.BUDGET_EXCEEDED;
+  const canResume = !result.success && ctx.currentState !== AgentState.DONE;
+  console.log("\n═══════════════════════════════════════");
+  if (ctx.cancelled) {
+    console.log(`🛑 Analysis cancelled during ${ctx.cancelled.node}. Partial files saved to:\n   ${outputDir}/\n`);
+  } else if (budgetExceeded) {
+    console.log(`💸 Analysis stopped: budget exceeded! Partial files saved to:\n   ${outputDir}/\n`);
+    console.log(`   Limit: ${ctx.budgetExceeded!.limit} (hit after ${ctx.budgetExceeded!.node}, skipped ${ctx.budgetExceeded!.skippedNode})\n`);
+  } else if (ctx.notRecommended) {
+    console.log(`🚫 Not recommended: fit score below the minimum. Files saved to:\n   ${outputDir}/\n`);
+    console.log(`   Minimum: ${ctx.notRecommended.minScore} (see not-recommended.md)\n`);
+  } else {
+    console.log(`${result.success ? "✅" : "❌"} Analysis ${result.success ? "complete" : "failed"}! Files saved to:\n   ${outputDir}/\n`);
+  }
+  console.log(`   📊 Fit Score: ${ctx.fitAnalysis?.overallScore}/100`);
+  console.log(
+    `   ✅ Strong matches: ${ctx.fitAnalysis?.strongMatches.length}  |  ⚠️ Gaps: ${ctx.fitAnalysis?.gaps.length}  |  🎯 Reframe: ${ctx.fitAnalysis?.reframingSuggestions.length}`
+  );
+  if (ctx.fitReview?.reviewedAt) {
+    console.log(`   🔍 Fit review: ${ctx.fitReview.status}`);
+  }
+  console.log(`\n   Generated:`);
+  console.log(`   - analysis.json       (Full structured data)`);
+  console.log(`   - fit-report.md       ${ctx.parsedJD && ctx.fitAnalysis ? "✓" : "✗"}`);
+  if (ctx.notRecommended) {
+    console.log(`   - not-recommended.md  ✓`);
+  }
+  for (const generator of selectedGenerators(ctx)) {
+    console.log(`   - ${generator.filename.padEnd(19)} ${ctx.outputs[generator.name] ? "✓" : "✗"}`);
+  }
+  console.log(`   - metadata.json       (Run metadata & costs)`);
+  console.log(`   - llm-calls.jsonl     (Per-call token & cost ledger)`);
+  console.log(`   - checkpoint.json     (Context after the last completed node)`);
+  console.log(`   - logs.json           (Structured logs)`);
+  // Nothing was generated for a not-recommended run, so there is nothing to validate
+  if (!ctx.notRecommended) {
+    console.log(`\n   📝 Validation: ${ctx.validation?.passed ? "PASSED" : "ISSUES"} (${ctx.validationAttempts} attempt${ctx.validationAttempts > 1 ? "s" : ""})`);
+    if (ctx.validation && !ctx.validation.passed) {
+      for (const issue of ctx.validation.issues) {
+        console.log(`      - ${issue}`);
+      }
+    }
+    printGroundingWarnings(ctx);
+  }
+  console.log(`   ⏱  Duration: ${result.totalDurationMs}ms`);
+  if (routing) {
+    const routed = ctx.stateHistory.flatMap((entry) =>
+      Object.entries(entry.models ?? {}).map(([stage, model]) => `${stage}=${model}`)
+    );
+    console.log(`   🧭 Models: ${[...new Set(routed)].join(", ")}`);
+  }
+  const totalTokens = result.tokenUsage.totalInputTokens + result.tokenUsage.totalOutputTokens;
+  console.log(`   💰 Tokens: ${totalTokens} (~$${result.tokenUsage.estimatedCost.toFixed(4)})`);
+  if (result.tokenUsage.totalCacheReadTokens > 0 || result.tokenUsage.totalCacheWriteTokens > 0) {
+    console.log(
+      `   💾 Prompt cache: ${result.tokenUsage.totalCacheReadTokens} read, ${result.tokenUsage.totalCacheWriteTokens} written`
+    );
+  }
+  printNodeUsage(ctx.stateHistory);
+  if (canResume && existsSync(join(outputDir, "checkpoint.json"))) {
+    console.log(`\n   ↩ Resume with: jobfit resume ${outputDir}`);
+  }
+  if (ctx.notRecommended && existsSync(join(outputDir, "checkpoint.json"))) {
+    console.log(`\n   ↩ Generate anyway with: jobfit resume ${outputDir} --force`);
+  }
+  console.log("═══════════════════════════════════════");
+}
+
 program
   .name("jobfit")
   .description("AI-powered job application analyzer")
@@ -45,10 +254,51 @@ program
   .argument("<source>", "Job posting URL or path to JD text file")
   .requiredOption("--resume <path>", "Path to resume file (.txt, .md, .pdf, .docx)")
   .option("--mock", "Use mock LLM (no API calls)", false)
+  .option("--provider <name>", "LLM provider: anthropic, openai (default: LLM_PROVIDER or anthropic)")
+  .option("--model <id>", "Model id (default: LLM_MODEL or the provider's default)")
+  .option("--base-url <url>", "Provider base URL, e.g. a self-hosted OpenAI-compatible server")
+  .option("--record <file>", "Record every LLM call to a cassette file")
+  .option("--replay <file>", "Replay LLM calls from a cassette file (no API calls)")
+  .option("--max-cost <usd>", "Stop the run once its estimated cost reaches this many USD")
+  .option("--max-tokens <n>", "Stop the run once it has used this many tokens (input + output, prompt-cache reads and writes included)")
+  .option("--routing <file>", "JSON file mapping pipeline states/outputs to a model and max tokens (default: LLM_ROUTING)")
+  .option("--plugins <file>", "JSON file listing generator plugin modules (default: JOBFIT_PLUGINS)")
+  .option("--review", "Pause after the fit analysis to accept or edit it before generating outputs", false)
+  .option("--min-score <n>", "Skip generation when the fit score is below this (default: JOBFIT_MIN_FIT_SCORE)")
+  .option("--force", "Generate outputs whatever the fit score", false)
+  .option("--grounding <mode>", "Claims not found in the resume: off, warn or fail validation (default: JOBFIT_GROUNDING or warn)")
+  .option("--only <outputs>", "Generate only these outputs, comma-separated (e.g. cover-letter,bullets)")
+  .option("--sequential", "Run one pipeline node at a time instead of starting independent nodes together", false)
   .option("--verbose, -v", "Show detailed logs", false)
   .option("--output <dir>", "Custom output directory")
-  .action(async (source: string, opts: { resume: string; mock: boolean; verbose: boolean; output?: string }) => {
+  .action(async (source: string, opts: { resume: string; mock: boolean; provider?: string; model?: string; baseUrl?: string; record?: string; replay?: string; maxCost?: string; maxTokens?: string; routing?: string; plugins?: string; review: boolean; minScore?: string; force: boolean; grounding?: string; only?: string; sequential: boolean; verbose: boolean; output?: string }) => {
     if (opts.mock) process.env.MOCK_LLM = "true";
+    if (opts.record && opts.replay) {
+      console.error("✗ --record and --replay cannot be used together");
+      process.exit(1);
+    }
+    if (opts.review && !process.stdin.isTTY) {
+      console.error("✗ --review needs an interactive terminal");
+      process.exit(1);
+    }
+    let budget: RunBudget | null;
+    let routing: ModelRouting | null = null;
+    let minFitScore: number | null;
+    let grounding: GroundingMode | null;
+    let outputs: string[] | null;
+    try {
+      budget = parseRunBudget({ maxCostUsd: opts.maxCost, maxTokens: opts.maxTokens });
+      minFitScore = opts.force ? null : parseMinFitScore(opts.minScore ?? process.env.JOBFIT_MIN_FIT_SCORE);
+      grounding = parseGroundingMode(opts.grounding ?? process.env.JOBFIT_GROUNDING);
+      // Plugins first — routing may name their outputs
+      await loadPlugins(opts.plugins);
+      outputs = parseOutputSelection(opts.only);
+      const routingPath = opts.routing ?? process.env.LLM_ROUTING;
+      if (routingPath) routing = loadModelRouting(resolve(routingPath));
+    } catch (error: any) {
+      console.error(`✗ ${error.message}`);
+      process.exit(1);
+    }
     if (opts.verbose) logger.configure({ level: "debug", verbose: true });
 
     console.log("╔══════════════════════════════════════╗");
@@ -104,58 +354,219 @@ program
       console.log(`📂 Resume loaded: ${resumePath} (${resumeText.length} chars)`);
     }
 
-    // 3. Run orchestrator
-    const llm = new LLMClient({
-      model: "claude-sonnet-4-5-20250929",
-      maxRetries: 2,
-      maxTokens: 4096,
-    });
-
-    const result = await runOrchestrator(jdText, resumeText, llm, (state) => {
-      console.log(`  → State: ${state}`);
-    });
+    // 3. Run orchestrator, checkpointing after every node
+    const llm = createLLMClient(opts);
+    const runDir = { path: opts.output ? resolve(opts.output) : null };
+
+    const result = await withInterrupt((signal, interrupt) =>
+      runOrchestrator(
+        jdText,
+        resumeText,
+        llm,
+        {
+          events: printProgress(),
+          budget,
+          routing,
+          signal,
+          onCheckpoint: checkpointToRunDir(runDir, { jdSource: source, resumeSource: opts.resume }),
+          reviewFit: opts.review ? createEditorReviewer(runDir, interrupt) : undefined,
+          minFitScore,
+          outputs,
+          grounding,
+          execution: opts.sequential ? "sequential" : undefined,
+        }
+      )
+    );
     const ctx = result.context;
 
     // 4. Save outputs
-    const now = new Date();
-    const dateStr = now.toISOString().split("T")[0];
-    const company = (ctx.parsedJD?.company ?? "unknown").toLowerCase().replace(/[^a-z0-9]+/g, "-");
-    const role = (ctx.parsedJD?.role ?? "unknown").toLowerCase().replace(/[^a-z0-9]+/g, "-");
-    const outputDir = opts.output
-      ? resolve(opts.output)
-      : join(OUTPUT_ROOT, `${dateStr}_${company}_${role}`);
-
+    const outputDir = runDir.path ?? defaultRunDir(OUTPUT_ROOT, ctx);
     writeRunOutputs(outputDir, ctx, {
-      timestamp: now.toISOString(),
+      timestamp: new Date().toISOString(),
       success: result.success,
       totalDurationMs: result.totalDurationMs,
       jdSource: source,
       resumeSource: opts.resume,
+      model: result.model,
       tokenUsage: result.tokenUsage,
+      llmCalls: result.llmCalls,
     });
 
     // 5. Summary
-    console.log("\n═══════════════════════════════════════");
-    console.log(`${result.success ? "✅" : "❌"} Analysis ${result.success ? "complete" : "failed"}! Files saved to:\n   ${outputDir}/\n`);
-    console.log(`   📊 Fit Score: ${ctx.fitAnalysis?.overallScore}/100`);
-    console.log(
-      `   ✅ Strong matches: ${ctx.fitAnalysis?.strongMatches.length}  |  ⚠️ Gaps: ${ctx.fitAnalysis?.gaps.length}  |  🎯 Reframe: ${ctx.fitAnalysis?.reframingSuggestions.length}`
+    printRunSummary(result, outputDir, routing);
+  });
+
+// --- resume ---
+
+program
+  .command("resume")
+  .description("Resume a failed, cancelled, over-budget or not-recommended run from its last completed node")
+  .argument("<run-dir>", "Run directory with a checkpoint.json (a path, or a directory name under output/)")
+  .option("--mock", "Use mock LLM (no API calls)", false)
+  .option("--provider <name>", "LLM provider: anthropic, openai (default: LLM_PROVIDER or anthropic)")
+  .option("--model <id>", "Model id (default: LLM_MODEL or the provider's default)")
+  .option("--base-url <url>", "Provider base URL, e.g. a self-hosted OpenAI-compatible server")
+  .option("--max-cost <usd>", "Replace the run's cost budget (default: keep the checkpoint's)")
+  .option("--max-tokens <n>", "Replace the run's token budget (default: keep the checkpoint's)")
+  .option("--routing <file>", "Replace the run's model routing (default: keep the checkpoint's)")
+  .option("--min-score <n>", "Replace the run's minimum fit score (default: keep the checkpoint's)")
+  .option("--force", "Generate outputs whatever the fit score", false)
+  .option("--grounding <mode>", "Replace the run's grounding mode: off, warn or fail (default: keep the checkpoint's)")
+  .option("--plugins <file>", "JSON file listing generator plugin modules (default: JOBFIT_PLUGINS)")
+  .option("--sequential", "Run one pipeline node at a time instead of starting independent nodes together", false)
+  .option("--verbose, -v", "Show detailed logs", false)
+  .action(async (dirArg: string, opts: { mock: boolean; provider?: string; model?: string; baseUrl?: string; maxCost?: string; maxTokens?: string; routing?: string; minScore?: string; force: boolean; grounding?: string; plugins?: string; sequential: boolean; verbose: boolean }) => {
+    if (opts.mock) process.env.MOCK_LLM = "true";
+    const outputDir = existsSync(resolve(dirArg)) ? resolve(dirArg) : join(OUTPUT_ROOT, dirArg);
+
+    let checkpoint: Checkpoint;
+    let budget: RunBudget | null | undefined;
+    let routing: ModelRouting | null | undefined;
+    let minFitScore: number | null | undefined;
+    let grounding: GroundingMode | null;
+    try {
+      checkpoint = loadCheckpoint(outputDir);
+      await loadPlugins(opts.plugins);
+      if (opts.maxCost !== undefined || opts.maxTokens !== undefined) {
+        budget = parseRunBudget({ maxCostUsd: opts.maxCost, maxTokens: opts.maxTokens });
+      }
+      if (opts.routing) routing = loadModelRouting(resolve(opts.routing));
+      if (opts.force) minFitScore = null;
+      else if (opts.minScore !== undefined) minFitScore = parseMinFitScore(opts.minScore);
+      grounding = parseGroundingMode(opts.grounding);
+    } catch (error: any) {
+      console.error(`✗ ${error.message}`);
+      process.exit(1);
+    }
+    if (opts.verbose) logger.configure({ level: "debug", verbose: true });
+
+    console.log(`↩ Resuming ${outputDir}`);
+    console.log(`   Checkpoint saved ${checkpoint.savedAt}, restarting at ${checkpoint.nextState}\n`);
+
+    const jdSource = checkpoint.jdSource ?? "checkpoint";
+    const resumeSource = checkpoint.resumeSource ?? "checkpoint";
+    const llm = createLLMClient(opts);
+    let result: OrchestratorResult;
+    try {
+      // A run stopped at its fit review picks the review back up
+      result = await withInterrupt((signal, interrupt) =>
+        resumeOrchestrator(
+          checkpoint,
+          llm,
+          {
+            events: printProgress(),
+            budget,
+            routing,
+            minFitScore,
+            grounding,
+            signal,
+            onCheckpoint: checkpointToRunDir({ path: outputDir }, { jdSource, resumeSource }),
+            reviewFit: createEditorReviewer({ path: outputDir }, interrupt),
+            execution: opts.sequential ? "sequential" : undefined,
+          }
+        )
+      );
+    } catch (error: any) {
+      console.error(`✗ ${error.message}`);
+      process.exit(1);
+    }
+
+    writeRunOutputs(outputDir, result.context, {
+      timestamp: new Date().toISOString(),
+      success: result.success,
+      totalDurationMs: result.totalDurationMs,
+      jdSource,
+      resumeSource,
+      model: result.model,
+      tokenUsage: result.tokenUsage,
+      llmCalls: result.llmCalls,
+    });
+
+    printRunSummary(result, outputDir, result.context.routing);
+  });
+
+// --- regenerate ---
+
+program
+  .command("regenerate")
+  .description("Write new versions of a saved run's outputs from its analysis.json, without re-parsing")
+  .argument("<run-dir>", "Run directory with an analysis.json (a path, or a directory name under output/)")
+  .option("--only <outputs>", "Regenerate only these outputs, comma-separated (e.g. cover-letter,bullets)")
+  .option("--instructions <text>", "Extra instructions for the generators, e.g. \"more concise\"")
+  .option("--grounding <mode>", "Claims not found in the resume: off, warn or fail validation (default: JOBFIT_GROUNDING or warn)")
+  .option("--mock", "Use mock LLM (no API calls)", false)
+  .option("--provider <name>", "LLM provider: anthropic, openai (default: LLM_PROVIDER or anthropic)")
+  .option("--model <id>", "Model id (default: LLM_MODEL or the provider's default)")
+  .option("--base-url <url>", "Provider base URL, e.g. a self-hosted OpenAI-compatible server")
+  .option("--max-cost <usd>", "Stop once the regeneration's estimated cost reaches this many USD")
+  .option("--max-tokens <n>", "Stop once the regeneration has used this many tokens (input + output, prompt-cache reads and writes included)")
+  .option("--routing <file>", "JSON file mapping pipeline states/outputs to a model and max tokens (default: LLM_ROUTING)")
+  .option("--plugins <file>", "JSON file listing generator plugin modules (default: JOBFIT_PLUGINS)")
+  .option("--verbose, -v", "Show detailed logs", false)
+  .action(async (dirArg: string, opts: { only?: string; instructions?: string; grounding?: string; mock: boolean; provider?: string; model?: string; baseUrl?: string; maxCost?: string; maxTokens?: string; routing?: string; plugins?: string; verbose: boolean }) => {
+    if (opts.mock) process.env.MOCK_LLM = "true";
+    const outputDir = existsSync(resolve(dirArg)) ? resolve(dirArg) : join(OUTPUT_ROOT, dirArg);
+
+    let analysis: RunAnalysis;
+    let budget: RunBudget | null;
+    let routing: ModelRouting | null = null;
+    let outputs: string[] | null;
+    let grounding: GroundingMode | null;
+    try {
+      budget = parseRunBudget({ maxCostUsd: opts.maxCost, maxTokens: opts.maxTokens });
+      grounding = parseGroundingMode(opts.grounding ?? process.env.JOBFIT_GROUNDING);
+      // Plugins first — the selection, routing and saved outputs may name their outputs
+      await loadPlugins(opts.plugins);
+      analysis = loadRunAnalysis(outputDir);
+      outputs = parseOutputSelection(opts.only);
+      const routingPath = opts.routing ?? process.env.LLM_ROUTING;
+      if (routingPath) routing = loadModelRouting(resolve(routingPath));
+    } catch (error: any) {
+      console.error(`✗ ${error.message}`);
+      process.exit(1);
+    }
+    if (opts.verbose) logger.configure({ level: "debug", verbose: true });
+
+    console.log(`🔁 Regenerating ${outputDir}`);
+    console.log(`   ${analysis.parsedJD.role} @ ${analysis.parsedJD.company} (fit score ${analysis.fitAnalysis.overallScore}/100)\n`);
+
+    const llm = createLLMClient(opts);
+    const result = await withInterrupt((signal) =>
+      regenerateOutputs(analysis, llm, {
+        events: printProgress(),
+        budget,
+        routing,
+        signal,
+        outputs,
+        instructions: opts.instructions?.trim() || null,
+        grounding,
+      })
     );
-    console.log(`\n   Generated:`);
-    console.log(`   - analysis.json       (Full structured data)`);
-    console.log(`   - fit-report.md       ${ctx.parsedJD && ctx.fitAnalysis ? "✓" : "✗"}`);
-    console.log(`   - cover-letter.md     ${ctx.outputs.coverLetter ? "✓" : "✗"}`);
-    console.log(`   - tailored-bullets.md ${ctx.outputs.tailoredBullets ? "✓" : "✗"}`);
-    console.log(`   - interview-prep.md   ${ctx.outputs.interviewPrep ? "✓" : "✗"}`);
-    console.log(`   - metadata.json       (Run metadata & costs)`);
-    console.log(`   - logs.json           (Structured logs)`);
-    console.log(`\n   📝 Validation: ${ctx.validation?.passed ? "PASSED" : "ISSUES"} (${ctx.validationAttempts} attempt${ctx.validationAttempts > 1 ? "s" : ""})`);
-    if (ctx.validation && !ctx.validation.passed) {
+    const ctx = result.context;
+
+    const entry = writeRegeneratedOutputs(outputDir, ctx, {
+      timestamp: new Date().toISOString(),
+      success: result.success,
+      totalDurationMs: result.totalDurationMs,
+      model: result.model,
+      tokenUsage: result.tokenUsage,
+      llmCalls: result.llmCalls,
+    });
+
+    console.log("\n═══════════════════════════════════════");
+    const status = result.success ? "✅ Regeneration complete" : `❌ Regeneration stopped in ${ctx.currentState}`;
+    console.log(`${status}! Files saved to:\n   ${outputDir}/\n`);
+    for (const generator of selectedGenerators(ctx)) {
+      console.log(`   - ${(entry.files[generator.name] ?? generator.filename).padEnd(22)} ${entry.files[generator.name] ? "✓" : "✗"}`);
+    }
+    console.log(`   - metadata.json          (changelog entry added)`);
+    if (ctx.validation) {
+      console.log(`\n   📝 Validation: ${ctx.validation.passed ? "PASSED" : "ISSUES"} (${ctx.validationAttempts} attempt${ctx.validationAttempts > 1 ? "s" : ""})`);
       for (const issue of ctx.validation.issues) {
         console.log(`      - ${issue}`);
       }
+      printGroundingWarnings(ctx);
     }
-    console.log(`   ⏱  Duration: ${result.totalDurationMs}ms`);
     const totalTokens = result.tokenUsage.totalInputTokens + result.tokenUsage.totalOutputTokens;
     console.log(`   💰 Tokens: ${totalTokens} (~$${result.tokenUsage.estimatedCost.toFixed(4)})`);
     console.log("═══════════════════════════════════════");
@@ -282,7 +693,13 @@ program
 program
   .command("costs")
   .description("Show token usage and cost across all runs")
-  .action(() => {
+  .option("--by <dimension>", "Group by: run, model, stage", "run")
+  .action((opts: { by: string }) => {
+    if (!["run", "model", "stage"].includes(opts.by)) {
+      console.error(`✗ Unknown --by value: ${opts.by}. Use run, model or stage.`);
+      process.exit(1);
+    }
+
     const runs = loadAllRuns(OUTPUT_ROOT);
 
     if (runs.length === 0) {
@@ -294,26 +711,41 @@ program
     console.log("║                   JobFit Agent — Cost Report                    ║");
     console.log("╚══════════════════════════════════════════════════════════════════╝\n");
 
+    const calls = runs.flatMap((run) => loadRunCalls(join(OUTPUT_ROOT, run.dir)));
+
+    if (opts.by !== "run") {
+      printCostBreakdown(calls, opts.by as CostDimension);
+      printCacheSummary(calls);
+      return;
+    }
+
     console.log(
       padEnd("Date", 12) +
       padEnd("Company", 22) +
       padEnd("Input", 10) +
       padEnd("Output", 10) +
       padEnd("Total", 10) +
+      padEnd("Cache R/W", 14) +
       "Cost"
     );
-    console.log("─".repeat(74));
+    console.log("─".repeat(88));
 
     let totalInput = 0;
     let totalOutput = 0;
+    let totalCacheRead = 0;
+    let totalCacheWrite = 0;
     let totalCost = 0;
 
     for (const run of runs) {
       const input = run.inputTokens ?? 0;
       const output = run.outputTokens ?? 0;
+      const cacheRead = run.cacheReadTokens ?? 0;
+      const cacheWrite = run.cacheWriteTokens ?? 0;
       const cost = run.cost ?? 0;
       totalInput += input;
       totalOutput += output;
+      totalCacheRead += cacheRead;
+      totalCacheWrite += cacheWrite;
       totalCost += cost;
 
       console.log(
@@ -322,21 +754,147 @@ program
         padEnd(formatTokens(input), 10) +
         padEnd(formatTokens(output), 10) +
         padEnd(formatTokens(input + output), 10) +
+        padEnd(`${formatTokens(cacheRead)}/${formatTokens(cacheWrite)}`, 14) +
         `$${cost.toFixed(4)}`
       );
     }
 
-    console.log("─".repeat(74));
+    console.log("─".repeat(88));
     console.log(
       padEnd("TOTAL", 34) +
       padEnd(formatTokens(totalInput), 10) +
       padEnd(formatTokens(totalOutput), 10) +
       padEnd(formatTokens(totalInput + totalOutput), 10) +
+      padEnd(`${formatTokens(totalCacheRead)}/${formatTokens(totalCacheWrite)}`, 14) +
       `$${totalCost.toFixed(4)}`
     );
+    printCacheSummary(calls);
     console.log(`\n${runs.length} run${runs.length > 1 ? "s" : ""}`);
   });
 
+function printCostBreakdown(calls: LLMCallRecord[], by: CostDimension): void {
+  if (calls.length === 0) {
+    console.log("No LLM call ledgers (llm-calls.jsonl) found in output/");
+    return;
+  }
+
+  const rows = breakdownCosts(calls, by);
+  console.log(
+    padEnd(by === "model" ? "Model" : "Stage", 34) +
+    padEnd("Calls", 8) +
+    padEnd("Input", 10) +
+    padEnd("Output", 10) +
+    padEnd("Cache R/W", 14) +
+    "Cost"
+  );
+  console.log("─".repeat(84));
+
+  for (const row of rows) {
+    console.log(
+      padEnd(truncate(row.key, 32), 34) +
+      padEnd(`${row.calls}`, 8) +
+      padEnd(formatTokens(row.inputTokens), 10) +
+      padEnd(formatTokens(row.outputTokens), 10) +
+      padEnd(`${formatTokens(row.cacheReadTokens)}/${formatTokens(row.cacheWriteTokens)}`, 14) +
+      `$${row.cost.toFixed(4)}`
+    );
+  }
+
+  console.log("─".repeat(84));
+  const totalCost = rows.reduce((sum, row) => sum + row.cost, 0);
+  console.log(padEnd("TOTAL", 34) + padEnd(`${calls.length}`, 8) + padEnd("", 34) + `$${totalCost.toFixed(4)}`);
+}
+
+/** One-line prompt-cache summary: tokens read/written and the net saving */
+function printCacheSummary(calls: LLMCallRecord[]): void {
+  const rows = breakdownCosts(calls, "model");
+  const read = rows.reduce((sum, row) => sum + row.cacheReadTokens, 0);
+  const written = rows.reduce((sum, row) => sum + row.cacheWriteTokens, 0);
+  if (read === 0 && written === 0) return;
+
+  const saved = rows.reduce((sum, row) => sum + row.cacheSavings, 0);
+  console.log(`\n💾 Prompt cache: ${formatTokens(read)} read, ${formatTokens(written)} written — saved ~$${saved.toFixed(4)}`);
+}
+
+/** Claims the resume doesn't support — in "fail" mode they're listed with the validation issues instead */
+function printGroundingWarnings(ctx: PipelineContext): void {
+  const issues = ctx.validation?.grounding ?? [];
+  if (ctx.grounding !== "warn" || issues.length === 0) return;
+  console.log(`   🔍 Not in the resume: ${issues.length} claim${issues.length > 1 ? "s" : ""}`);
+  for (const issue of issues) {
+    console.log(`      - ${formatGroundingIssue(issue, getGenerator(issue.output)?.label ?? issue.output)}`);
+  }
+}
+
+/**
+ * Spend of every node visit that called the LLM, with a row per stage for
+ * nodes with several (the generators). Repeated visits — generation rounds —
+ * are numbered.
+ */
+function printNodeUsage(history: StateHistoryEntry[]): void {
+  const spent = history.filter((entry) => entry.usage);
+  if (spent.length === 0) return;
+
+  const totalCost = spent.reduce((sum, entry) => sum + entry.usage!.costUsd, 0);
+  const row = (label: string, usage: StageUsage) => {
+    const share = totalCost > 0 ? `${Math.round((usage.costUsd / totalCost) * 100)}%` : "";
+    const cached = usage.cacheHits > 0 ? `  (${usage.cacheHits} cached)` : "";
+    console.log(
+      "      " +
+      padEnd(truncate(label, 28), 30) +
+      padEnd(`${usage.calls} call${usage.calls === 1 ? "" : "s"}`, 10) +
+      padEnd(formatTokens(usage.inputTokens + usage.outputTokens), 10) +
+      padEnd(`$${usage.costUsd.toFixed(4)}`, 10) +
+      share +
+      cached
+    );
+  };
+
+  console.log("   💸 Spend by node:");
+  const visits = new Map<AgentState, number>();
+  for (const entry of history) {
+    visits.set(entry.state, (visits.get(entry.state) ?? 0) + 1);
+    if (!entry.usage) continue;
+    const repeated = history.filter((e) => e.state === entry.state).length > 1;
+    row(repeated ? `${entry.state} #${visits.get(entry.state)}` : entry.state, entry.usage);
+    const stages = Object.entries(entry.usage.byStage);
+    if (stages.length > 1 || (stages.length === 1 && stages[0][0] !== entry.state)) {
+      for (const [stage, usage] of stages) row(`  ${stage}`, usage);
+    }
+  }
+}
+
+// --- graph ---
+
+program
+  .command("graph")
+  .description("Render the pipeline graph, or a run's path over it, as Mermaid or DOT")
+  .option("--format <format>", "Output format: mermaid, dot", "mermaid")
+  .option("--run <dir>", "Annotate the path a run took (a path, or a directory name under output/)")
+  .action((opts: { format: string; run?: string }) => {
+    if (!GRAPH_FORMATS.includes(opts.format as GraphFormat)) {
+      console.error(`✗ Unknown --format value: ${opts.format}. Use mermaid or dot.`);
+      process.exit(1);
+    }
+
+    let history: StateHistoryEntry[] | undefined;
+    if (opts.run) {
+      const runDir = existsSync(resolve(opts.run)) ? resolve(opts.run) : join(OUTPUT_ROOT, opts.run);
+      const metaPath = join(runDir, "metadata.json");
+      if (!existsSync(metaPath)) {
+        console.error(`✗ No metadata.json found in ${runDir}`);
+        process.exit(1);
+      }
+      history = JSON.parse(readFileSync(metaPath, "utf-8")).stateHistory;
+      if (!Array.isArray(history)) {
+        console.error(`✗ ${metaPath} has no stateHistory`);
+        process.exit(1);
+      }
+    }
+
+    process.stdout.write(renderGraph(createAgentGraph(), opts.format as GraphFormat, history));
+  });
+
 // --- Helpers ---
 
 function padEnd(str: string, len: number): string {
@@ -5,12 +5,45 @@
  * For web UI, use `src/server.ts` instead.
  */
 
-export { runOrchestrator } from "./agent/orchestrator.js";
+export { runOrchestrator, resumeOrchestrator, regenerateOutputs } from "./agent/orchestrator.js";
 export type { OrchestratorResult } from "./agent/orchestrator.js";
-export { AgentState } from "./agent/state.js";
-export type { PipelineContext, GeneratedOutputs, ValidationResult } from "./agent/state.js";
-export { LLMClient } from "./llm/client.js";
-export type { LLMCallResult, TokenUsageSummary } from "./llm/client.js";
+export { AgentState, usageByStage } from "./agent/state.js";
+export type { PipelineContext, GeneratedOutputs, ValidationResult, RunBudget, BudgetExceeded, Cancellation, StateHistoryEntry, NodeAttempt, NodeUsage, StageUsage, Regeneration, NotRecommended } from "./agent/state.js";
+export { parseRunBudget } from "./agent/budget.js";
+export { parseModelRouting, loadModelRouting, resolveRoute } from "./agent/routing.js";
+export type { ModelRoute, ModelRouting, RouteKey } from "./agent/routing.js";
+export { saveCheckpoint, loadCheckpoint, createCheckpoint, CheckpointError, CHECKPOINT_VERSION } from "./agent/checkpoint.js";
+export type { Checkpoint } from "./agent/checkpoint.js";
+export { LLMClient, LLMTimeoutError } from "./llm/client.js";
+export type { LLMCallResult, LLMCallOptions, LLMCallRecord, LLMClientConfig, TokenUsageSummary, LLMCallObserver, LLMCallStart, LLMCallEnd, LLMRetry } from "./llm/client.js";
+export { estimateCost, estimateCacheSavings, getModelPricing, registerModelPricing } from "./llm/pricing.js";
+export type { ModelPricing } from "./llm/pricing.js";
+export { createProvider, resolveProviderName, parseRetryAfter, ProviderError } from "./llm/provider.js";
+export type { LLMProvider, ProviderName, ProviderRequest, ProviderResponse, ProviderUsage } from "./llm/provider.js";
+export { AnthropicProvider } from "./llm/providers/anthropic.js";
+export { OpenAICompatibleProvider } from "./llm/providers/openai-compatible.js";
 export type { ParsedJD, ParsedResume, FitAnalysis } from "./llm/schemas.js";
-export { createAgentGraph, runGraph } from "./agent/graph.js";
-export type { AgentGraph, NodeHandler } from "./agent/graph.js";
+export { createAgentGraph, runGraph, assertTransition, isTransientLLMError, GraphTransitionError } from "./agent/graph.js";
+export type { AgentGraph, NodeHandler, GraphRunOptions, OutputDelta, GraphEdge, EdgeGuard } from "./agent/graph.js";
+export { NodeTimeoutError } from "./agent/node-policy.js";
+export type { NodePolicy, NodeBackoff, ErrorClass } from "./agent/node-policy.js";
+export { concurrentNodes, resolveExecutionMode, EXECUTION_MODES } from "./agent/dag.js";
+export type { ExecutionMode, NodeDependencies, ContextField } from "./agent/dag.js";
+export { parseFitReview, applyFitReview, FitReviewError } from "./agent/review.js";
+export type { FitReviewer, FitReview } from "./agent/review.js";
+export { parseMinFitScore, checkFitScore } from "./agent/fit-gate.js";
+export { parseOutputSelection, selectedGenerators } from "./agent/output-selection.js";
+export { checkGrounding, checkOutputGrounding, parseGroundingMode, formatGroundingIssue, GROUNDING_MODES } from "./agent/grounding.js";
+export type { GroundingMode, GroundingIssue, GroundingClaimKind, GroundingSources } from "./agent/grounding.js";
+export { PipelineEvents, logPipelineEvents } from "./agent/events.js";
+export type { PipelineEventMap, PipelineEventName, PipelineEventListener, ArtifactKind } from "./agent/events.js";
+export { renderGraph, GRAPH_FORMATS } from "./agent/graph-export.js";
+export type { GraphFormat } from "./agent/graph-export.js";
+export { defineGenerator, runGenerator, buildGeneratorPrompt } from "./tools/generators/plugin.js";
+export type { GeneratorPlugin, GeneratorInputs, GeneratorFeedback, ValidationRule } from "./tools/generators/plugin.js";
+export { registerGenerator, unregisterGenerator, getGenerators, getGenerator, loadGeneratorPlugins } from "./tools/generators/registry.js";
+export { generateNotRecommendedSummary } from "./tools/generators/not-recommended.js";
+export { loadRunAnalysis, RunAnalysisError } from "./utils/run-loader.js";
+export type { RunAnalysis } from "./utils/run-loader.js";
+export { writeRegeneratedOutputs, nextVersionFilename, latestVersionFilename } from "./utils/output-writer.js";
+export type { RunChangelogEntry } from "./utils/output-writer.js";
@@ -0,0 +1,129 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { createHash } from "crypto";
+import type { z } from "zod";
+import type { ProviderRequest, ProviderResponse } from "./provider.js";
+import { zodToJSONSchema } from "./json-schema.js";
+
+/**
+ * Record/replay cassettes for LLMClient.
+ *
+ * In record mode every provider call is written to a JSON file, keyed by a
+ * hash of the prompt, system prompt, model and output schema. In replay mode
+ * the same calls are served from that file with no provider at all, so a
+ * recorded run can be checked in and replayed deterministically in tests.
+ */
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteConfig {
+  path: string;
+  mode: CassetteMode;
+}
+
+export interface CassetteEntry {
+  request: {
+    model: string;
+    system: string;
+    prompt: string;
+    schema: unknown;
+  };
+  response: ProviderResponse;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: number;
+  entries: Record<string, CassetteEntry>;
+}
+
+const CASSETTE_VERSION = 1;
+
+export class CassetteMissError extends Error {
+  key: string;
+
+  constructor(key: string, cassettePath: string, prompt: string) {
+    super(
+      `No recording for request ${key} in cassette ${cassettePath}. ` +
+        `Re-record the cassette (prompt starts: "${prompt.slice(0, 80).replace(/\s+/g, " ")}")`
+    );
+    this.name = "CassetteMissError";
+    this.key = key;
+  }
+}
+
+/** JSON Schema for the expected output, or null for free-text completions. */
+export function describeSchema(schema?: z.ZodType): unknown {
+  return schema ? zodToJSONSchema(schema) : null;
+}
+
+export function cassetteKey(request: ProviderRequest, schema: unknown): string {
+  const prompt = [
+    ...(request.context ? [`context: ${request.context}`] : []),
+    ...request.messages.map((m) => `${m.role}: ${m.content}`),
+  ].join("\n\n");
+  return createHash("sha256")
+    .update(JSON.stringify([prompt, request.system, request.model, schema]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export class Cassette {
+  readonly path: string;
+  readonly mode: CassetteMode;
+  private entries: Record<string, CassetteEntry>;
+
+  constructor(config: CassetteConfig) {
+    this.path = config.path;
+    this.mode = config.mode;
+    this.entries = {};
+
+    if (existsSync(this.path)) {
+      const file = JSON.parse(readFileSync(this.path, "utf-8")) as CassetteFile;
+      if (file.version !== CASSETTE_VERSION) {
+        throw new Error(
+          `Unsupported cassette version ${file.version} in ${this.path} (expected ${CASSETTE_VERSION})`
+        );
+      }
+      this.entries = file.entries;
+    } else if (this.mode === "replay") {
+      throw new Error(`Cassette not found: ${this.path}`);
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  replay(request: ProviderRequest, schema: unknown): ProviderResponse {
+    const key = cassetteKey(request, schema);
+    const entry = this.entries[key];
+    if (!entry) {
+      const prompt = request.messages[request.messages.length - 1]?.content ?? "";
+      throw new CassetteMissError(key, this.path, prompt);
+    }
+    return entry.response;
+  }
+
+  record(request: ProviderRequest, schema: unknown, response: ProviderResponse): void {
+    const key = cassetteKey(request, schema);
+    this.entries[key] = {
+      request: {
+        model: request.model,
+        system: request.system,
+        prompt: [request.context, ...request.messages.map((m) => m.content)].filter(Boolean).join("\n\n"),
+        schema,
+      },
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  private save(): void {
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    const file: CassetteFile = { version: CASSETTE_VERSION, entries: this.entries };
+    writeFileSync(this.path, JSON.stringify(file, null, 2));
+  }
+}
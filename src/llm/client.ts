@@ -1,8 +1,29 @@
-import Anthropic from "@anthropic-ai/sdk";
 import { z } from "zod";
 import dotenv from "dotenv";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
+import {
+  createProvider,
+  defaultModelFor,
+  parseRetryAfter,
+  resolveProviderName,
+  type LLMProvider,
+  type ProviderName,
+  type ProviderRequest,
+  type ProviderResponse,
+  type ProviderUsage,
+} from "./provider.js";
+import {
+  Cassette,
+  CassetteMissError,
+  describeSchema,
+  type CassetteConfig,
+  type CassetteMode,
+} from "./cassette.js";
+import { buildJSONRepairPrompt, buildSchemaRepairPrompt } from "./prompts.js";
+import { buildOutputTool, type ToolDefinition } from "./json-schema.js";
+import { createJSONTextStream } from "./stream-text.js";
+import { estimateCost } from "./pricing.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -12,159 +33,608 @@ dotenv.config({ path: join(__dirname, "../../.env"), override: true });
 
 export interface LLMCallResult<T> {
   data: T;
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-  };
+  /** Summed over every attempt; cache fields are present when the provider reports them */
+  usage: ProviderUsage;
   model: string;
   durationMs: number;
+  /** Extra attempts after the first, for any reason (API error or bad output) */
+  retries: number;
+  /** Retries that sent the previous output back with parse/validation errors to fix */
+  repairs: number;
+  /** Estimated USD cost of every attempt, priced for the model that served it */
+  costUsd: number;
+}
+
+/** Per-call options for structured() and complete() */
+export interface LLMCallOptions {
+  /**
+   * Stream readable text as it arrives. For structured() this is the string
+   * content of the JSON being generated, not the raw JSON. `attempt` changes
+   * on each retry — text from an earlier attempt should be discarded.
+   */
+  onDelta?: (text: string, attempt: number) => void;
+  /** Pipeline stage or output name the call belongs to, recorded in the call ledger */
+  stage?: string;
+  /**
+   * Context shared by several calls (e.g. parsed JD + resume + fit analysis),
+   * sent ahead of the prompt as a cacheable prefix.
+   */
+  context?: string;
+  /** Model for this call instead of the client's default (per-node routing) */
+  model?: string;
+  /** Max output tokens for this call instead of the client's default */
+  maxTokens?: number;
+  /** Cancels the call: aborts the in-flight request and any pending retry sleep */
+  signal?: AbortSignal;
+  /** Per-attempt timeout instead of the client's default; a timed-out attempt is retried */
+  timeoutMs?: number;
+  /** Notified around every provider attempt and before every retry (not in mock mode) */
+  observer?: LLMCallObserver;
+  /** complete() only: text to answer with in mock mode instead of a placeholder */
+  mockText?: string | (() => string);
+}
+
+/** One provider attempt about to be sent */
+export interface LLMCallStart {
+  stage: string;
+  model: string;
+  /** 0 for the first attempt, like the call ledger */
+  attempt: number;
+}
+
+/** One provider attempt that settled — `record` is its ledger entry when the provider answered */
+export interface LLMCallEnd extends LLMCallStart {
+  durationMs: number;
+  record?: LLMCallRecord;
+  /** Why the attempt failed: an API error, or output that didn't parse or validate */
+  error?: string;
+}
+
+export interface LLMRetry {
+  stage: string;
+  /** The attempt about to be sent */
+  attempt: number;
+  /** Backoff before it — 0 for a repair, which is sent right away */
+  delayMs: number;
+  error: string;
+}
+
+export interface LLMCallObserver {
+  callStarted?: (call: LLMCallStart) => void;
+  callFinished?: (call: LLMCallEnd) => void;
+  retryScheduled?: (retry: LLMRetry) => void;
 }
 
 export interface LLMClientConfig {
+  /** Provider instance or name. Defaults to LLM_PROVIDER, then "anthropic". */
+  provider?: LLMProvider | ProviderName;
+  /** Base URL override, e.g. a self-hosted OpenAI-compatible server */
+  baseUrl?: string;
+  apiKey?: string;
   model?: string;
   maxRetries?: number;
   baseDelayMs?: number;
   maxTokens?: number;
+  /** Record provider calls to, or replay them from, a cassette file. Defaults to LLM_CASSETTE. */
+  cassette?: CassetteConfig;
+  /** Use forced tool calls for structured output when the provider supports them (default: true) */
+  toolUse?: boolean;
+  /** Per-attempt request timeout in ms. Defaults to LLM_TIMEOUT_MS, then 120000. 0 disables it. */
+  timeoutMs?: number;
+}
+
+/** An attempt exceeded its timeout. Retried like any other transient API error. */
+export class LLMTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`LLM request timed out after ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+  }
 }
 
 // --- Token Tracking ---
 
+/** One provider call (a single attempt), as written to llm-calls.jsonl */
+export interface LLMCallRecord {
+  timestamp: string;
+  stage: string;
+  model: string;
+  /** 0 for the first attempt, then 1, 2, ... for retries and repairs */
+  attempt: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
 export interface TokenUsageSummary {
   totalInputTokens: number;
   totalOutputTokens: number;
+  /** Prompt-cache tokens, billed at their own rates and not included in totalInputTokens */
+  totalCacheReadTokens: number;
+  totalCacheWriteTokens: number;
   totalCalls: number;
   estimatedCost: number;
 }
 
-// --- Sleep with jitter ---
+// --- Repair context ---
 
-function sleepWithJitter(baseMs: number, attempt: number): Promise<void> {
-  const delay = baseMs * Math.pow(2, attempt) + Math.random() * 1000;
-  return new Promise((resolve) => setTimeout(resolve, delay));
+/** Previous bad output plus feedback, sent back to the model on the next attempt */
+interface RepairContext {
+  previousOutput: string;
+  feedback: string;
+}
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map(
+    (issue) => `${issue.path.map(String).join(".") || "(root)"}: ${issue.message}`
+  );
+}
+
+/** Add one attempt's usage to a running total, keeping cache fields only once reported */
+function addUsage(total: ProviderUsage, usage: ProviderUsage): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  if (usage.cacheReadTokens !== undefined) {
+    total.cacheReadTokens = (total.cacheReadTokens ?? 0) + usage.cacheReadTokens;
+  }
+  if (usage.cacheWriteTokens !== undefined) {
+    total.cacheWriteTokens = (total.cacheWriteTokens ?? 0) + usage.cacheWriteTokens;
+  }
+}
+
+// --- Free-text JSON fallback ---
+
+/** Parse JSON from a text response (handles markdown code fences) */
+function parseJSONText(text: string): unknown {
+  let jsonStr = text.trim();
+  if (jsonStr.startsWith("```")) {
+    jsonStr = jsonStr
+      .replace(/^```(?:json)?\n?/, "")
+      .replace(/\n?```$/, "");
+  }
+  return JSON.parse(jsonStr);
+}
+
+// --- Backoff ---
+
+/** Longest server-requested wait we honor; anything above is capped so a run can't stall */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Server-requested wait from a rate-limit error: ProviderError.retryAfterMs,
+ * or the retry-after header on an Anthropic SDK APIError.
+ */
+function retryAfterMs(error: any): number | undefined {
+  if (typeof error?.retryAfterMs === "number") return error.retryAfterMs;
+  const header = typeof error?.headers?.get === "function"
+    ? error.headers.get("retry-after")
+    : error?.headers?.["retry-after"];
+  return parseRetryAfter(header);
+}
+
+/** Delay before retry `attempt`: the server's retry-after when given, else exponential backoff with jitter */
+function backoffDelay(baseMs: number, attempt: number, error: unknown): number {
+  const requested = retryAfterMs(error);
+  if (requested !== undefined) return Math.min(requested, MAX_RETRY_AFTER_MS);
+  return baseMs * Math.pow(2, attempt) + Math.random() * 1000;
+}
+
+/** Rejects with the signal's reason as soon as it aborts */
+export function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Signal for one attempt: aborts when the caller's signal does or when
+ * `timeoutMs` elapses. Call `clear()` once the attempt settles.
+ */
+function attemptSignal(
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): { signal: AbortSignal | undefined; timedOut: () => boolean; clear: () => void } {
+  if (timeoutMs <= 0) return { signal, timedOut: () => false, clear: () => {} };
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort(signal!.reason);
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new LLMTimeoutError(timeoutMs));
+  }, timeoutMs);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+// --- Cassette config from env ---
+
+function cassetteConfigFromEnv(): CassetteConfig | undefined {
+  const path = process.env.LLM_CASSETTE;
+  if (!path) return undefined;
+
+  const mode = (process.env.LLM_CASSETTE_MODE ?? "replay") as CassetteMode;
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`Invalid LLM_CASSETTE_MODE: ${mode}. Use "record" or "replay".`);
+  }
+  return { path, mode };
+}
+
+function timeoutFromEnv(): number {
+  const value = process.env.LLM_TIMEOUT_MS;
+  if (value === undefined || value === "") return 120_000;
+
+  const timeoutMs = Number(value);
+  if (!Number.isFinite(timeoutMs) || timeoutMs < 0) {
+    throw new Error(`Invalid LLM_TIMEOUT_MS: ${value}. Use a number of milliseconds, or 0 to disable the timeout.`);
+  }
+  return timeoutMs;
 }
 
 // --- LLM Client ---
 
 export class LLMClient {
-  private client: Anthropic | null;
+  private provider: LLMProvider | null;
   private model: string;
   private maxRetries: number;
   private baseDelayMs: number;
   private maxTokens: number;
   private mockMode: boolean;
-  private usageLog: { inputTokens: number; outputTokens: number }[] = [];
+  private cassette: Cassette | null;
+  private toolUse: boolean;
+  private timeoutMs: number;
+  private ledger: LLMCallRecord[] = [];
 
   constructor(config: LLMClientConfig = {}) {
-    this.mockMode = process.env.MOCK_LLM === "true";
-    this.model = config.model ?? "claude-sonnet-4-5-20250929";
     this.maxRetries = config.maxRetries ?? 3;
     this.baseDelayMs = config.baseDelayMs ?? 1000;
     this.maxTokens = config.maxTokens ?? 4096;
+    this.toolUse = config.toolUse ?? true;
+    this.timeoutMs = config.timeoutMs ?? timeoutFromEnv();
+
+    const cassetteConfig = config.cassette ?? cassetteConfigFromEnv();
+    this.cassette = cassetteConfig ? new Cassette(cassetteConfig) : null;
+    // A replay cassette takes precedence over MOCK_LLM — both are offline modes
+    this.mockMode = process.env.MOCK_LLM === "true" && this.cassette?.mode !== "replay";
+
+    if (this.cassette?.mode === "replay") {
+      console.log(`  ⚙ Replaying LLM calls from ${this.cassette.path} (${this.cassette.size} recordings)`);
+      this.provider = null;
+      this.model =
+        config.model ??
+        process.env.LLM_MODEL ??
+        (typeof config.provider === "object"
+          ? config.provider.defaultModel
+          : defaultModelFor(resolveProviderName(config.provider ?? process.env.LLM_PROVIDER)));
+      return;
+    }
 
     if (this.mockMode) {
       console.log("  ⚙ Running in MOCK mode (no API calls)");
-      this.client = null;
+      this.provider = null;
+      this.model = config.model ?? process.env.LLM_MODEL ?? "claude-sonnet-4-5-20250929";
       return;
     }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "ANTHROPIC_API_KEY is not set. Add it to your .env file or set MOCK_LLM=true."
-      );
+    this.provider =
+      typeof config.provider === "object"
+        ? config.provider
+        : createProvider(resolveProviderName(config.provider ?? process.env.LLM_PROVIDER), {
+            apiKey: config.apiKey,
+            baseUrl: config.baseUrl,
+          });
+    this.model = config.model ?? process.env.LLM_MODEL ?? this.provider.defaultModel;
+
+    if (this.cassette) {
+      console.log(`  ⚙ Recording LLM calls to ${this.cassette.path}`);
     }
+  }
 
-    this.client = new Anthropic({ apiKey });
+  getModel(): string {
+    return this.model;
+  }
+
+  getProviderName(): ProviderName | "mock" | "replay" {
+    if (this.cassette?.mode === "replay") return "replay";
+    return this.provider?.name ?? "mock";
+  }
+
+  /** True when calls are answered by mock data instead of a provider */
+  isMock(): boolean {
+    return this.mockMode;
+  }
+
+  /** True while recording — callers with their own caches should bypass them so every call lands in the cassette */
+  isRecording(): boolean {
+    return this.cassette?.mode === "record";
+  }
+
+  /** Append one provider call to the ledger and return it */
+  private recordCall(
+    stage: string | undefined,
+    model: string,
+    attempt: number,
+    usage: ProviderResponse["usage"],
+    durationMs: number
+  ): LLMCallRecord {
+    const record: LLMCallRecord = {
+      timestamp: new Date().toISOString(),
+      stage: stage ?? "other",
+      model,
+      attempt,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheReadTokens: usage.cacheReadTokens ?? 0,
+      cacheWriteTokens: usage.cacheWriteTokens ?? 0,
+      costUsd: estimateCost(model, usage),
+      durationMs,
+    };
+    this.ledger.push(record);
+    return record;
+  }
+
+  /**
+   * Send one request through the cassette (replay/record) or the provider.
+   * With `onChunk`, streams when the provider can; otherwise the whole
+   * response text is delivered as a single chunk. An attempt that outlives
+   * `timeoutMs` is aborted and rejects with LLMTimeoutError.
+   */
+  private async send(
+    request: ProviderRequest,
+    schema: z.ZodType | undefined,
+    onChunk: ((chunk: string) => void) | undefined,
+    timeoutMs: number
+  ): Promise<ProviderResponse> {
+    if (this.cassette?.mode === "replay") {
+      const recorded = this.cassette.replay(request, describeSchema(schema));
+      onChunk?.(recorded.text);
+      return recorded;
+    }
+
+    const attempt = attemptSignal(request.signal, timeoutMs);
+    const timedRequest = attempt.signal ? { ...request, signal: attempt.signal } : request;
+    let response: ProviderResponse;
+    try {
+      if (onChunk && this.provider!.stream) {
+        response = await this.provider!.stream(timedRequest, onChunk);
+      } else {
+        response = await this.provider!.send(timedRequest);
+        onChunk?.(response.text);
+      }
+    } catch (error) {
+      if (attempt.timedOut()) throw new LLMTimeoutError(timeoutMs);
+      throw error;
+    } finally {
+      attempt.clear();
+    }
+
+    if (this.cassette?.mode === "record") {
+      this.cassette.record(request, describeSchema(schema), response);
+    }
+    return response;
+  }
+
+  /**
+   * Retry policy shared by structured() and complete(): rethrows errors a
+   * retry can't fix (cancellation, cassette misses, bad credentials) and
+   * logs everything else as a failed attempt.
+   */
+  private rethrowIfFatal(error: any, attempt: number, options: LLMCallOptions): void {
+    // Cancelled — stop without retrying or logging a failure
+    if (options.signal?.aborted) {
+      throw error;
+    }
+
+    // A cassette miss won't fix itself on retry
+    if (error instanceof CassetteMissError) {
+      throw error;
+    }
+
+    // Don't retry on auth errors
+    if (error?.status === 401) {
+      throw new Error(this.provider ? `Invalid API key. Check your ${this.provider.apiKeyEnv}.` : "Invalid API key.");
+    }
+
+    console.error(
+      `  ✗ Attempt ${attempt + 1} failed: ${error.message?.slice(0, 100)}`
+    );
+  }
+
+  /** Wait out the backoff before retry `attempt`, honoring a rate limit's retry-after */
+  private async waitBeforeRetry(attempt: number, lastError: any, options: LLMCallOptions): Promise<void> {
+    const delay = backoffDelay(this.baseDelayMs, attempt, lastError);
+    options.observer?.retryScheduled?.({ stage: options.stage ?? "other", attempt, delayMs: delay, error: lastError?.message ?? "" });
+    if (retryAfterMs(lastError) !== undefined) {
+      console.log(`  ⏳ Rate limited — waiting ${Math.round(delay / 1000)}s as requested by the server`);
+    }
+    await sleep(delay, options.signal);
+  }
+
+  /**
+   * Forced output tool for a schema, or undefined to use the free-text JSON path.
+   * Replay always asks for the tool; recordings made without one still parse as text.
+   */
+  private outputToolFor(schema: z.ZodType): ToolDefinition | undefined {
+    if (!this.toolUse) return undefined;
+    if (this.cassette?.mode !== "replay" && !this.provider?.supportsTools) return undefined;
+    return buildOutputTool(schema);
+  }
+
+  private buildRequest(
+    prompt: string,
+    system: string,
+    repair?: RepairContext | null,
+    tool?: ToolDefinition,
+    options: LLMCallOptions = {}
+  ): ProviderRequest {
+    return {
+      model: options.model ?? this.model,
+      maxTokens: options.maxTokens ?? this.maxTokens,
+      system,
+      ...(tool ? { tool } : {}),
+      ...(options.context ? { context: options.context } : {}),
+      ...(options.signal ? { signal: options.signal } : {}),
+      messages: repair
+        ? [
+            { role: "user", content: prompt },
+            { role: "assistant", content: repair.previousOutput },
+            { role: "user", content: repair.feedback },
+          ]
+        : [{ role: "user", content: prompt }],
+    };
   }
 
   /**
    * Send a prompt and parse the response into a validated Zod schema.
-   * Retries on both API errors and validation failures.
+   * The schema is sent as a forced tool definition when the provider supports
+   * it; otherwise the response text is parsed as JSON.
+   * Retries on both API errors and validation failures. Malformed JSON and
+   * schema errors are retried as a repair: the model sees its previous output
+   * and the specific issues, and is asked to fix only those fields.
    */
   async structured<T extends z.ZodType>(
     prompt: string,
     schema: T,
     systemPrompt?: string,
-    mockData?: z.infer<T>
+    mockData?: z.infer<T> | (() => z.infer<T>),
+    options: LLMCallOptions = {}
   ): Promise<LLMCallResult<z.infer<T>>> {
-    // Mock mode — return provided mock data validated against the schema
-    if (this.mockMode && mockData) {
-      const validated = schema.parse(mockData);
+    const model = options.model ?? this.model;
+
+    // Mock mode — return provided mock data validated against the schema.
+    // A function is only called in mock mode, so heuristic mocks cost nothing otherwise.
+    if (this.mockMode) {
+      if (!mockData) {
+        throw new Error(`MOCK_LLM=true but the ${options.stage ?? "structured"} call has no mock data to return.`);
+      }
+      options.signal?.throwIfAborted();
+      const validated = schema.parse(typeof mockData === "function" ? (mockData as () => z.infer<T>)() : mockData);
+      if (options.onDelta) {
+        createJSONTextStream((text) => options.onDelta!(text, 0))(JSON.stringify(validated));
+      }
       return {
         data: validated,
         usage: { inputTokens: 0, outputTokens: 0 },
-        model: this.model + " (mock)",
+        model: model + " (mock)",
         durationMs: 5,
+        retries: 0,
+        repairs: 0,
+        costUsd: 0,
       };
     }
 
+    const tool = this.outputToolFor(schema);
     let lastError: Error | null = null;
+    let repair: RepairContext | null = null;
+    let repairs = 0;
+    // Usage across every attempt, so the caller is charged for failed ones too
+    const usage: ProviderUsage = { inputTokens: 0, outputTokens: 0 };
+    let costUsd = 0;
 
     for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      options.signal?.throwIfAborted();
       if (attempt > 0) {
-        console.log(`  ↻ Retry attempt ${attempt}/${this.maxRetries}...`);
-        await sleepWithJitter(this.baseDelayMs, attempt);
+        if (repair) {
+          repairs++;
+          console.log(`  ↻ Repair attempt ${attempt}/${this.maxRetries}...`);
+          options.observer?.retryScheduled?.({ stage: options.stage ?? "other", attempt, delayMs: 0, error: lastError?.message ?? "" });
+        } else {
+          console.log(`  ↻ Retry attempt ${attempt}/${this.maxRetries}...`);
+          await this.waitBeforeRetry(attempt, lastError, options);
+        }
       }
 
       const startTime = Date.now();
+      let rawText: string | null = null;
+      let record: LLMCallRecord | undefined;
+      const currentAttempt = attempt;
+      const call: LLMCallStart = { stage: options.stage ?? "other", model, attempt };
+      options.observer?.callStarted?.(call);
+      const onChunk = options.onDelta
+        ? createJSONTextStream((text) => options.onDelta!(text, currentAttempt))
+        : undefined;
 
       try {
-        const response = await this.client!.messages.create({
-          model: this.model,
-          max_tokens: this.maxTokens,
-          system: systemPrompt ?? "You are a helpful assistant that always responds with valid JSON matching the requested schema. Do not include any text outside the JSON object.",
-          messages: [{ role: "user", content: prompt }],
-        });
+        const response = await this.send(
+          this.buildRequest(
+            prompt,
+            systemPrompt ?? "You are a helpful assistant that always responds with valid JSON matching the requested schema. Do not include any text outside the JSON object.",
+            repair,
+            tool,
+            options
+          ),
+          schema,
+          onChunk,
+          options.timeoutMs ?? this.timeoutMs
+        );
 
         const durationMs = Date.now() - startTime;
-        const usage = {
-          inputTokens: response.usage.input_tokens,
-          outputTokens: response.usage.output_tokens,
-        };
-        this.usageLog.push(usage);
-
-        // Extract text content
-        const textBlock = response.content.find((b) => b.type === "text");
-        if (!textBlock || textBlock.type !== "text") {
-          throw new Error("No text content in LLM response");
-        }
-
-        // Parse JSON from response (handle markdown code blocks)
-        let jsonStr = textBlock.text.trim();
-        if (jsonStr.startsWith("```")) {
-          jsonStr = jsonStr
-            .replace(/^```(?:json)?\n?/, "")
-            .replace(/\n?```$/, "");
-        }
-
-        const parsed = JSON.parse(jsonStr);
+        record = this.recordCall(options.stage, model, attempt, response.usage, durationMs);
+        costUsd += record.costUsd;
+        addUsage(usage, response.usage);
+        rawText = response.text;
+
+        const parsed = response.toolInput !== undefined
+          ? response.toolInput
+          : parseJSONText(response.text);
         const validated = schema.parse(parsed);
+        options.observer?.callFinished?.({ ...call, durationMs, record });
 
         return {
           data: validated,
           usage,
-          model: this.model,
+          model,
           durationMs,
+          retries: attempt,
+          repairs,
+          costUsd,
         };
       } catch (error: any) {
         lastError = error;
-
-        // Don't retry on auth errors
-        if (error?.status === 401) {
-          throw new Error("Invalid API key. Check your ANTHROPIC_API_KEY.");
-        }
+        options.observer?.callFinished?.({
+          ...call,
+          durationMs: record?.durationMs ?? Date.now() - startTime,
+          ...(record ? { record } : {}),
+          error: error instanceof z.ZodError ? formatZodIssues(error).join(", ") : error.message,
+        });
 
         // Don't retry on validation errors past second attempt
         if (error instanceof z.ZodError && attempt >= 2) {
-          const issues = (error as any).issues ?? [];
           throw new Error(
-            `Schema validation failed after retries: ${issues.map((e: any) => `${e.path?.join(".") ?? ""}: ${e.message}`).join(", ")}`
+            `Schema validation failed after retries: ${formatZodIssues(error).join(", ")}`
           );
         }
 
-        console.error(
-          `  ✗ Attempt ${attempt + 1} failed: ${error.message?.slice(0, 100)}`
-        );
+        // Bad output gets repaired; anything else (API errors) is re-sent as-is
+        if (rawText !== null && error instanceof z.ZodError) {
+          repair = { previousOutput: rawText, feedback: buildSchemaRepairPrompt(formatZodIssues(error)) };
+        } else if (rawText !== null && error instanceof SyntaxError) {
+          repair = { previousOutput: rawText, feedback: buildJSONRepairPrompt(error.message) };
+        } else {
+          repair = null;
+        }
+
+        this.rethrowIfFatal(error, attempt, options);
       }
     }
 
@@ -172,59 +642,115 @@ export class LLMClient {
   }
 
   /**
-   * Simple text completion without structured output.
+   * Free-text completion. Shares structured()'s retry, backoff, timeout,
+   * mock/replay and call-ledger behavior; there is no output to repair, so
+   * every retry re-sends the original prompt.
    */
   async complete(
     prompt: string,
-    systemPrompt?: string
+    systemPrompt?: string,
+    options: LLMCallOptions = {}
   ): Promise<LLMCallResult<string>> {
-    const startTime = Date.now();
-
-    const response = await this.client!.messages.create({
-      model: this.model,
-      max_tokens: this.maxTokens,
-      system: systemPrompt ?? "You are a helpful assistant.",
-      messages: [{ role: "user", content: prompt }],
-    });
-
-    const durationMs = Date.now() - startTime;
-    const usage = {
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
-    };
-    this.usageLog.push(usage);
+    const model = options.model ?? this.model;
+
+    // Mock mode — return the provided text (or a placeholder) without an API call
+    if (this.mockMode) {
+      options.signal?.throwIfAborted();
+      const { mockText } = options;
+      const text = (typeof mockText === "function" ? mockText() : mockText) ?? "Mock completion (MOCK_LLM=true).";
+      options.onDelta?.(text, 0);
+      return {
+        data: text,
+        usage: { inputTokens: 0, outputTokens: 0 },
+        model: model + " (mock)",
+        durationMs: 5,
+        retries: 0,
+        repairs: 0,
+        costUsd: 0,
+      };
+    }
 
-    const textBlock = response.content.find((b) => b.type === "text");
-    if (!textBlock || textBlock.type !== "text") {
-      throw new Error("No text content in LLM response");
+    const request = this.buildRequest(prompt, systemPrompt ?? "You are a helpful assistant.", null, undefined, options);
+    let lastError: Error | null = null;
+    // Usage across every attempt, so the caller is charged for failed ones too
+    const usage: ProviderUsage = { inputTokens: 0, outputTokens: 0 };
+    let costUsd = 0;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      options.signal?.throwIfAborted();
+      if (attempt > 0) {
+        console.log(`  ↻ Retry attempt ${attempt}/${this.maxRetries}...`);
+        await this.waitBeforeRetry(attempt, lastError, options);
+      }
+
+      const startTime = Date.now();
+      const currentAttempt = attempt;
+      const call: LLMCallStart = { stage: options.stage ?? "other", model, attempt };
+      options.observer?.callStarted?.(call);
+      try {
+        const response = await this.send(
+          request,
+          undefined,
+          options.onDelta ? (text) => options.onDelta!(text, currentAttempt) : undefined,
+          options.timeoutMs ?? this.timeoutMs
+        );
+
+        const durationMs = Date.now() - startTime;
+        const record = this.recordCall(options.stage, model, attempt, response.usage, durationMs);
+        costUsd += record.costUsd;
+        addUsage(usage, response.usage);
+        options.observer?.callFinished?.({ ...call, durationMs, record });
+
+        return {
+          data: response.text,
+          usage,
+          model,
+          durationMs,
+          retries: attempt,
+          repairs: 0,
+          costUsd,
+        };
+      } catch (error: any) {
+        lastError = error;
+        options.observer?.callFinished?.({ ...call, durationMs: Date.now() - startTime, error: error.message });
+        this.rethrowIfFatal(error, attempt, options);
+      }
     }
 
-    return {
-      data: textBlock.text,
-      usage,
-      model: this.model,
-      durationMs,
-    };
+    throw lastError ?? new Error("All retry attempts exhausted");
+  }
+
+  /**
+   * Seed the ledger with calls from an earlier session (a resumed checkpoint),
+   * so usage totals and llm-calls.jsonl cover the whole run.
+   */
+  restoreCallLedger(calls: LLMCallRecord[]): void {
+    this.ledger = [...calls, ...this.ledger];
+  }
+
+  /** Every provider call made by this client, in order */
+  getCallLedger(): LLMCallRecord[] {
+    return [...this.ledger];
   }
 
   getUsageSummary(): TokenUsageSummary {
-    const summary = this.usageLog.reduce(
+    return this.ledger.reduce(
       (acc, entry) => ({
         totalInputTokens: acc.totalInputTokens + entry.inputTokens,
         totalOutputTokens: acc.totalOutputTokens + entry.outputTokens,
+        totalCacheReadTokens: acc.totalCacheReadTokens + entry.cacheReadTokens,
+        totalCacheWriteTokens: acc.totalCacheWriteTokens + entry.cacheWriteTokens,
         totalCalls: acc.totalCalls + 1,
-        estimatedCost: 0,
+        estimatedCost: acc.estimatedCost + entry.costUsd,
       }),
-      { totalInputTokens: 0, totalOutputTokens: 0, totalCalls: 0, estimatedCost: 0 }
+      {
+        totalInputTokens: 0,
+        totalOutputTokens: 0,
+        totalCacheReadTokens: 0,
+        totalCacheWriteTokens: 0,
+        totalCalls: 0,
+        estimatedCost: 0,
+      }
     );
-
-    // Approximate pricing for Claude Sonnet (per million tokens)
-    const inputCostPerM = 3.0;
-    const outputCostPerM = 15.0;
-    summary.estimatedCost =
-      (summary.totalInputTokens / 1_000_000) * inputCostPerM +
-      (summary.totalOutputTokens / 1_000_000) * outputCostPerM;
-
-    return summary;
   }
 }
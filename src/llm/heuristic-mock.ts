@@ -0,0 +1,687 @@
+import type {
+  ParsedJD,
+  ParsedResume,
+  FitAnalysis,
+  Skill,
+  Experience,
+  Education,
+  Match,
+  Gap,
+  Reframe,
+} from "./schemas.js";
+import { TECH_CATEGORIES, findSkills, mentionsSkill, type CatalogSkill } from "./skill-catalog.js";
+
+/**
+ * Heuristic mock LLM — deterministic, input-aware stand-ins for every
+ * structured call, used when MOCK_LLM=true.
+ *
+ * Nothing here is clever: skills come from a fixed keyword catalog, sections
+ * from heading lines, and the fit score from lexical overlap. The point is
+ * that different inputs produce different (and plausible) outputs with no
+ * API calls, so demos, UI work and validator tests exercise real variation.
+ */
+
+// --- Text helpers ---
+
+const BULLET = /^\s*(?:[-*•–]|\d+[.)])\s+/;
+
+function lines(text: string): string[] {
+  return text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+}
+
+function isBullet(line: string): boolean {
+  return BULLET.test(line);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET, "").trim();
+}
+
+function isHeading(line: string): boolean {
+  if (isBullet(line) || line.length > 40) return false;
+  if (!/^[A-Za-z][A-Za-z '’/&-]*:?$/.test(line)) return false;
+  return line.endsWith(":") || (line === line.toUpperCase() && /[A-Z]{3}/.test(line));
+}
+
+/** Group lines under the heading they follow; lines before any heading go under "" */
+function splitSections(text: string): { heading: string; lines: string[] }[] {
+  const sections: { heading: string; lines: string[] }[] = [{ heading: "", lines: [] }];
+  for (const line of lines(text)) {
+    if (isHeading(line)) {
+      sections.push({ heading: line.replace(/:$/, "").trim(), lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+}
+
+function lowerFirst(text: string): string {
+  // Keep acronyms and proper nouns ("AWS", "Kafka") as written
+  return /^[A-Z][a-z]/.test(text) && !/^[A-Z][a-z]+[A-Z]/.test(text)
+    ? text[0].toLowerCase() + text.slice(1)
+    : text;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? "";
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+/** End a sentence with `text` without doubling a trailing period ("Acme Inc.") */
+function endSentence(text: string): string {
+  return text.endsWith(".") ? text : `${text}.`;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
+
+// --- Job description ---
+
+type JDSection = "about" | "responsibilities" | "required" | "preferred" | "tech" | "compensation" | "other";
+
+function classifyJDHeading(heading: string): JDSection {
+  if (/prefer|nice to have|bonus|plus|desired/i.test(heading)) return "preferred";
+  if (/about/i.test(heading)) return "about";
+  if (/requir|qualification|must have|what you('|’)ll bring|looking for|you have|minimum/i.test(heading)) return "required";
+  if (/responsib|what you('|’)ll do|duties|day to day|you will|the role/i.test(heading)) return "responsibilities";
+  if (/tech stack|technolog|tools|stack/i.test(heading)) return "tech";
+  if (/compensation|salary|pay|benefits/i.test(heading)) return "compensation";
+  return "other";
+}
+
+const ROLE_WORDS =
+  /\b(engineer|developer|manager|designer|scientist|analyst|architect|administrator|consultant|specialist|director|lead|sre|programmer|researcher)\b/i;
+
+const COMPANY_SUFFIX =
+  /\b([A-Z][\w&.'-]*(?:\s+[A-Z][\w&.'-]*)*\s+(?:Inc\.?|LLC|Ltd\.?|Corp\.?|Corporation|GmbH|Technologies|Labs|Systems))(?=\W|$)/;
+const CAPITALIZED_NAME = "([A-Z][\\w&.-]*(?:\\s+[A-Z][\\w&.-]*){0,3})";
+
+function detectCompany(text: string): string {
+  const labelled = text.match(/^(?:company|employer|organization)\s*:\s*(.+)$/im);
+  if (labelled) return labelled[1].trim();
+
+  const head = lines(text).slice(0, 10);
+  for (const line of head) {
+    const match = line.match(COMPANY_SUFFIX);
+    if (match) return match[1].trim();
+  }
+  for (const line of head) {
+    const match = line.match(new RegExp(`\\bat ${CAPITALIZED_NAME}`));
+    if (match) return match[1].trim();
+  }
+
+  const about = text.match(new RegExp(`^About ${CAPITALIZED_NAME}\\s*:?$`, "m"));
+  if (about && !/^(Us|You|The Role|The Team|This Role)$/i.test(about[1])) return about[1].trim();
+
+  const intro = text.match(new RegExp(`^${CAPITALIZED_NAME} is (?:a|an|the)\\b`, "m"));
+  if (intro) return intro[1].trim();
+
+  return "Unknown Company";
+}
+
+/** Job title and, when the title line names one, the team ("Staff Engineer — Platform") */
+function detectRoleAndTeam(text: string): { role: string; team?: string } {
+  const labelled = text.match(/^(?:title|role|position|job title)\s*:\s*(.+)$/im);
+  const titleLine = labelled?.[1] ?? lines(text).slice(0, 10).find((line) => line.length <= 80 && ROLE_WORDS.test(line) && !/^(we|you|about)\b/i.test(line));
+
+  let role = titleLine ?? lines(text)[0]?.slice(0, 60) ?? "Software Engineer";
+  let team: string | undefined;
+  const segments = role.split(/\s+[—–|-]\s+|\s+at\s+/).map((s) => s.trim()).filter(Boolean);
+  if (segments.length > 1) {
+    const roleIndex = Math.max(0, segments.findIndex((s) => ROLE_WORDS.test(s)));
+    role = segments[roleIndex];
+    const next = segments[roleIndex + 1];
+    if (next && !/,|\b(remote|hybrid|onsite)\b/i.test(next) && !COMPANY_SUFFIX.test(next)) team = next;
+  }
+
+  if (!team) {
+    const joinTeam = text.match(/join (?:our|the) ([A-Z][A-Za-z&/ -]{2,40}?) team/);
+    if (joinTeam) team = joinTeam[1].trim();
+  }
+  return { role, ...(team ? { team } : {}) };
+}
+
+function detectLevel(role: string): string {
+  if (/principal/i.test(role)) return "Principal";
+  if (/staff/i.test(role)) return "Staff";
+  if (/senior|\bsr\.?\b/i.test(role)) return "Senior";
+  if (/director|head of|\bvp\b/i.test(role)) return "Director";
+  if (/\blead\b/i.test(role)) return "Lead";
+  if (/junior|\bjr\.?\b|entry|graduate/i.test(role)) return "Junior";
+  if (/intern/i.test(role)) return "Intern";
+  return "Mid";
+}
+
+const CULTURE_SIGNALS: [RegExp, string][] = [
+  [/\bremote\b/i, "Remote-friendly"],
+  [/\bhybrid\b/i, "Hybrid work"],
+  [/fast-(?:growing|paced)/i, "Fast-paced environment"],
+  [/\bownership\b/i, "Ownership mentality"],
+  [/engineering excellence/i, "Engineering excellence"],
+  [/collaborat/i, "Collaborative"],
+  [/divers|inclusi|equal opportunity/i, "Diversity and inclusion"],
+  [/\bmentor/i, "Mentorship"],
+  [/work[- ]life balance/i, "Work-life balance"],
+  [/\bstartup\b/i, "Startup environment"],
+];
+
+function detectRedFlags(text: string): string[] {
+  const flags: string[] = [];
+  if (/on-call/i.test(text)) flags.push("On-call rotation");
+  const years = Math.max(0, ...[...text.matchAll(/(\d{1,2})\+?\s+years/gi)].map((m) => Number(m[1])));
+  if (years >= 8) flags.push(`${years}+ years of experience is a high bar`);
+  if (/rock ?star|ninja|guru/i.test(text)) flags.push("Buzzword titles (rockstar/ninja) in the posting");
+  if (/wear many hats/i.test(text)) flags.push("\"Wear many hats\" suggests an unclear scope");
+  if (/unlimited pto/i.test(text)) flags.push("Unlimited PTO can mean little PTO in practice");
+  return flags;
+}
+
+function toSkill(entry: CatalogSkill, priority: Skill["priority"]): Skill {
+  return { name: entry.name, category: entry.category, priority };
+}
+
+export function mockParseJD(jdText: string): ParsedJD {
+  const sections = splitSections(jdText);
+  const sectionText = (kind: JDSection) =>
+    sections
+      .filter((section) => classifyJDHeading(section.heading) === kind)
+      .flatMap((section) => section.lines)
+      .join("\n");
+
+  const requiredText = sectionText("required");
+  const preferredText = sectionText("preferred");
+  const requiredEntries = findSkills(requiredText || jdText.replace(preferredText, ""));
+  const requiredNames = new Set(requiredEntries.map((entry) => entry.name));
+  const preferredEntries = findSkills(preferredText).filter((entry) => !requiredNames.has(entry.name));
+
+  const responsibilityLines = sectionText("responsibilities").split("\n").filter(isBullet);
+  const responsibilities = (responsibilityLines.length > 0
+    ? responsibilityLines
+    : lines(jdText).filter(isBullet)
+  )
+    .map(stripBullet)
+    .slice(0, 8);
+
+  const { role, team } = detectRoleAndTeam(jdText);
+  const salary = jdText.match(/\$\s?\d[\d,.]*\s?[kK]?\s*(?:-|–|—|to)\s*\$?\s?\d[\d,.]*\s?[kK]?[^\n]*/);
+
+  return {
+    company: detectCompany(jdText),
+    role,
+    level: detectLevel(role),
+    ...(team ? { team } : {}),
+    requiredSkills: requiredEntries.map((entry) => toSkill(entry, "required")),
+    preferredSkills: preferredEntries.map((entry) => toSkill(entry, "preferred")),
+    responsibilities,
+    techStack: findSkills(jdText).filter((entry) => TECH_CATEGORIES.has(entry.category)).map((entry) => entry.name),
+    culture: CULTURE_SIGNALS.filter(([pattern]) => pattern.test(jdText)).map(([, label]) => label),
+    redFlags: detectRedFlags(jdText),
+    ...(salary ? { salaryRange: salary[0].trim() } : {}),
+  };
+}
+
+// --- Resume ---
+
+type ResumeSection = "summary" | "experience" | "education" | "skills" | "certifications" | "other";
+
+function classifyResumeHeading(heading: string): ResumeSection {
+  if (/summary|profile|objective|about/i.test(heading)) return "summary";
+  if (/experience|employment|work history|career/i.test(heading)) return "experience";
+  if (/education|academic/i.test(heading)) return "education";
+  if (/certific|licen/i.test(heading)) return "certifications";
+  if (/skills|technologies|technical|competenc/i.test(heading)) return "skills";
+  return "other";
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** Fractional year for "Jan 2022", "2022" or "Present" */
+function parseResumeDate(value: string): number | null {
+  if (/present|current|now/i.test(value)) {
+    const now = new Date();
+    return now.getFullYear() + now.getMonth() / 12;
+  }
+  const match = value.match(/(?:([A-Za-z]{3})[a-z]*\.?\s+)?((?:19|20)\d{2})/);
+  if (!match) return null;
+  const month = match[1] ? Math.max(0, MONTHS.indexOf(match[1].toLowerCase())) : 0;
+  return Number(match[2]) + month / 12;
+}
+
+function parseDuration(header: string): { duration: string; years: number } {
+  const explicit = header.match(/\((\d+(?:\.\d+)?)\+?\s*(years?|yrs?|months?)\)/i);
+  if (explicit) {
+    const value = Number(explicit[1]);
+    const years = /^m/i.test(explicit[2]) ? value / 12 : value;
+    return { duration: `${explicit[1]} ${explicit[2]}`, years };
+  }
+
+  const range = header.match(/((?:[A-Za-z]{3,9}\.?\s+)?(?:19|20)\d{2})\s*(?:-|–|—|to)\s*((?:[A-Za-z]{3,9}\.?\s+)?(?:19|20)\d{2}|present|current|now)/i);
+  if (range) {
+    const start = parseResumeDate(range[1]);
+    const end = parseResumeDate(range[2]);
+    if (start !== null && end !== null && end >= start) {
+      const years = Math.round((end - start) * 10) / 10;
+      return { duration: `${years} years`, years };
+    }
+  }
+  return { duration: "Unknown", years: 0 };
+}
+
+function parseExperienceHeader(header: string): Pick<Experience, "company" | "role"> {
+  const segments = (header.includes("|") ? header.split("|") : header.split(/\s+at\s+|\s+—\s+|,\s+/))
+    .map((segment) => segment.trim())
+    .filter((segment) => segment && !/(?:19|20)\d{2}|present/i.test(segment));
+
+  const roleIndex = segments.findIndex((segment) => ROLE_WORDS.test(segment));
+  const role = segments[roleIndex >= 0 ? roleIndex : 0] ?? header;
+  const company = segments.find((_, index) => index !== (roleIndex >= 0 ? roleIndex : 0)) ?? "Unknown";
+  return { role, company };
+}
+
+function parseExperiences(sectionLines: string[]): { experiences: Experience[]; totalYears: number } {
+  const experiences: Experience[] = [];
+  let totalYears = 0;
+
+  for (const line of sectionLines) {
+    if (!isBullet(line)) {
+      const { duration, years } = parseDuration(line);
+      totalYears += years;
+      experiences.push({ ...parseExperienceHeader(line), duration, highlights: [], techUsed: [] });
+      continue;
+    }
+
+    const current = experiences[experiences.length - 1];
+    if (!current) continue;
+    const text = stripBullet(line);
+    const techLine = text.match(/^(?:technologies|tech|stack|tools)\s*:\s*(.+)$/i);
+    if (techLine) {
+      current.techUsed = techLine[1]
+        .replace(/\([^)]*\)/g, "")
+        .split(",")
+        .map((tech) => tech.trim())
+        .filter(Boolean);
+    } else {
+      current.highlights.push(text);
+    }
+  }
+
+  for (const experience of experiences) {
+    if (experience.techUsed.length === 0) {
+      experience.techUsed = findSkills(experience.highlights.join("\n"))
+        .filter((entry) => TECH_CATEGORIES.has(entry.category))
+        .map((entry) => entry.name);
+    }
+  }
+  return { experiences, totalYears };
+}
+
+function parseEducation(sectionLines: string[]): Education[] {
+  const DEGREE = /bachelor|master|ph\.?d|doctor|associate|diploma|\b(?:b|m)\.?(?:s|a|sc|eng)\.?\b|\bmba\b/i;
+  const INSTITUTION = /universit|college|institute|school|academy/i;
+
+  return sectionLines.flatMap((line) => {
+    const segments = stripBullet(line).split(/\s*[|,]\s*/).filter(Boolean);
+    const degreeSegment = segments.find((segment) => DEGREE.test(segment));
+    const institution = segments.find((segment) => INSTITUTION.test(segment));
+    if (!degreeSegment && !institution) return [];
+
+    const fieldMatch = degreeSegment?.match(/^(.*?)\s+in\s+(.+)$/i);
+    const year = line.match(/\b(?:19|20)\d{2}\b/)?.[0];
+    return [{
+      institution: institution ?? "Unknown",
+      degree: fieldMatch?.[1] ?? degreeSegment ?? "Unknown",
+      field: fieldMatch?.[2] ?? "Unknown",
+      ...(year ? { year } : {}),
+    }];
+  });
+}
+
+export function mockParseResume(resumeText: string): ParsedResume {
+  const sections = splitSections(resumeText);
+  const sectionLines = (kind: ResumeSection) =>
+    sections
+      .filter((section) => classifyResumeHeading(section.heading) === kind)
+      .flatMap((section) => section.lines);
+
+  const { experiences, totalYears } = parseExperiences(sectionLines("experience"));
+  const summaryText = sectionLines("summary").join(" ");
+  const statedYears = summaryText.match(/(\d+(?:\.\d+)?)\+?\s+years/i);
+  const yearsOfExperience = statedYears ? Number(statedYears[1]) : Math.round(totalYears * 10) / 10;
+
+  const skillsText = sectionLines("skills").join("\n");
+  const skills = unique([...findSkills(skillsText), ...findSkills(resumeText)]).map((entry) =>
+    toSkill(entry, "required")
+  );
+
+  const latest = experiences[0];
+  return {
+    summary:
+      summaryText ||
+      `${latest?.role ?? "Professional"} with ${yearsOfExperience} years of experience` +
+        (skills.length > 0 ? ` across ${joinList(skills.slice(0, 3).map((s) => s.name))}.` : "."),
+    skills,
+    experiences,
+    education: parseEducation(sectionLines("education")),
+    certifications: sectionLines("certifications").map(stripBullet),
+    yearsOfExperience,
+  };
+}
+
+// --- Fit analysis ---
+
+/** Where a skill shows up on the resume: in a highlight (with evidence), elsewhere, or nowhere */
+function findEvidence(resume: ParsedResume, name: string): { strength: "strong" | "moderate" | null; evidence: string } {
+  for (const experience of resume.experiences) {
+    const highlight = experience.highlights.find((h) => mentionsSkill(h, name));
+    if (highlight) return { strength: "strong", evidence: `${experience.company}: ${highlight}` };
+  }
+  const usedAt = resume.experiences.find((e) => e.techUsed.some((tech) => mentionsSkill(tech, name)));
+  if (usedAt) return { strength: "moderate", evidence: `Used at ${usedAt.company}` };
+  if (resume.skills.some((s) => mentionsSkill(s.name, name))) {
+    return { strength: "moderate", evidence: "Listed in resume skills" };
+  }
+  const certification = resume.certifications.find((c) => mentionsSkill(c, name));
+  if (certification) return { strength: "moderate", evidence: `Certification: ${certification}` };
+  if (mentionsSkill(resume.summary, name)) return { strength: "moderate", evidence: "Mentioned in resume summary" };
+  return { strength: null, evidence: "" };
+}
+
+function gapSeverity(jdSkill: Skill): Gap["severity"] {
+  if (jdSkill.priority !== "required") return "minor";
+  return ["language", "platform", "domain"].includes(jdSkill.category) ? "critical" : "moderate";
+}
+
+function gapSuggestion(jdSkill: Skill, severity: Gap["severity"]): string {
+  switch (severity) {
+    case "critical":
+      return `Build a small project with ${jdSkill.name} before interviewing and be upfront about ramp-up time`;
+    case "moderate":
+      return `Highlight adjacent experience and show how you'd get productive with ${jdSkill.name} quickly`;
+    case "minor":
+      return `Nice to have — mention any exposure to ${jdSkill.name}, but don't lead with it`;
+  }
+}
+
+export function mockAnalyzeFit(jd: ParsedJD, resume: ParsedResume): FitAnalysis {
+  const strongMatches: Match[] = [];
+  const partialMatches: Match[] = [];
+  const gaps: Gap[] = [];
+  const gapSkills: Skill[] = [];
+  let earned = 0;
+  let possible = 0;
+
+  for (const jdSkill of [...jd.requiredSkills, ...jd.preferredSkills]) {
+    const weight = jdSkill.priority === "required" ? 2 : 1;
+    possible += weight;
+
+    const { strength, evidence } = findEvidence(resume, jdSkill.name);
+    if (strength === "strong") {
+      earned += weight;
+      strongMatches.push({ skill: jdSkill.name, evidence, strength });
+    } else if (strength === "moderate") {
+      earned += weight * 0.6;
+      partialMatches.push({ skill: jdSkill.name, evidence, strength });
+    } else {
+      const severity = gapSeverity(jdSkill);
+      gaps.push({ skill: jdSkill.name, severity, suggestion: gapSuggestion(jdSkill, severity) });
+      gapSkills.push(jdSkill);
+    }
+  }
+
+  const overallScore = possible === 0 ? 50 : Math.round((earned / possible) * 100);
+
+  // Reframe a same-category resume skill toward each of the most important gaps
+  const reframingSuggestions: Reframe[] = [];
+  for (const gapSkill of gapSkills) {
+    if (reframingSuggestions.length >= 3) break;
+    const adjacent = resume.skills.find(
+      (s) => s.category === gapSkill.category && s.name.toLowerCase() !== gapSkill.name.toLowerCase()
+    );
+    if (!adjacent) continue;
+    reframingSuggestions.push({
+      existingExperience: `${adjacent.name} experience`,
+      reframedAs: `Transferable ${gapSkill.category} experience that shortens the ramp-up on ${gapSkill.name}`,
+      targetRequirement: gapSkill.name,
+    });
+  }
+
+  const juniorRole = ["Intern", "Junior", "Mid"].includes(jd.level);
+  const preferredNames = new Set(jd.preferredSkills.map((s) => s.name));
+
+  return {
+    overallScore,
+    strongMatches,
+    partialMatches,
+    gaps,
+    overqualified:
+      juniorRole && resume.yearsOfExperience >= 8
+        ? [`${resume.yearsOfExperience} years of experience for a ${jd.level}-level role`]
+        : [],
+    reframingSuggestions,
+    dealBreakers:
+      overallScore < 50
+        ? gaps.filter((gap) => gap.severity === "critical").map((gap) => `No evidence of ${gap.skill}, a required skill`)
+        : [],
+    competitiveAdvantages: [
+      ...resume.certifications.slice(0, 2).map((c) => `Certification: ${c}`),
+      ...strongMatches.filter((m) => preferredNames.has(m.skill)).map((m) => `Brings preferred skill ${m.skill}`),
+      ...(resume.yearsOfExperience > 0 ? [`${resume.yearsOfExperience} years of professional experience`] : []),
+    ],
+  };
+}
+
+// --- Generators ---
+
+/** Highlights ranked by how many JD skills and tech keywords they mention */
+function rankHighlights(jd: ParsedJD, resume: ParsedResume): { experience: Experience; highlight: string; terms: string[] }[] {
+  const terms = unique([...jd.requiredSkills.map((s) => s.name), ...jd.techStack, ...jd.preferredSkills.map((s) => s.name)]);
+  return resume.experiences
+    .flatMap((experience) =>
+      experience.highlights.map((highlight) => ({
+        experience,
+        highlight,
+        terms: terms.filter((term) => mentionsSkill(highlight, term)),
+      }))
+    )
+    .map((item, order) => ({ ...item, order }))
+    .sort((a, b) => b.terms.length - a.terms.length || a.order - b.order)
+    .map(({ order: _order, ...item }) => item);
+}
+
+export function mockCoverLetter(jd: ParsedJD, resume: ParsedResume, fit: FitAnalysis): { coverLetter: string } {
+  const latest = resume.experiences[0];
+  const topRequired = jd.requiredSkills.slice(0, 3).map((s) => s.name);
+  const strengths = fit.strongMatches.slice(0, 3).map((m) => m.skill);
+  const highlights = rankHighlights(jd, resume);
+
+  const paragraphs: string[] = [
+    `I'm writing to apply for the ${jd.role} role at ${jd.company}${jd.team ? ` on the ${jd.team} team` : ""}. ` +
+      `With ${resume.yearsOfExperience} years of experience${latest ? `, most recently as ${latest.role} at ${latest.company}` : ""}, ` +
+      (strengths.length > 0
+        ? `I bring hands-on depth in ${joinList(strengths)} that maps directly to what your team needs.`
+        : `I bring a track record of shipping reliable software and learning new stacks quickly.`),
+  ];
+
+  if (topRequired.length > 0) {
+    paragraphs.push(`Your emphasis on ${joinList(topRequired)} is what drew me to this role.`);
+  }
+
+  // Add the most relevant accomplishments until the letter has some substance
+  const accomplishments: string[] = [];
+  for (const { experience, highlight } of highlights.slice(0, 4)) {
+    if (countWords([...paragraphs, ...accomplishments].join(" ")) >= 220) break;
+    accomplishments.push(`At ${experience.company}, I ${lowerFirst(highlight.replace(/\.$/, ""))}.`);
+  }
+  if (accomplishments.length > 0) paragraphs.push(accomplishments.join(" "));
+
+  const reframe = fit.reframingSuggestions[0];
+  if (reframe) {
+    paragraphs.push(
+      `I also bring ${lowerFirst(reframe.existingExperience)}, which I see as ${lowerFirst(reframe.reframedAs)}.`
+    );
+  }
+  if (jd.culture.length > 0) {
+    paragraphs.push(
+      `I'm drawn to ${jd.company}'s culture of ${joinList(jd.culture.slice(0, 2).map(lowerFirst))}, and I do my best work in teams that value it.`
+    );
+  }
+  const criticalGaps = fit.gaps.filter((g) => g.severity === "critical").slice(0, 2).map((g) => g.skill);
+  if (criticalGaps.length > 0) {
+    paragraphs.push(`I'm actively building my ${joinList(criticalGaps)} skills and expect to ramp up quickly.`);
+  }
+  paragraphs.push(
+    `I'd welcome the chance to discuss how my background${strengths.length > 0 ? ` in ${joinList(strengths)}` : ""} can contribute to ${endSentence(jd.company)}`
+  );
+
+  return { coverLetter: ["Dear Hiring Manager,", ...paragraphs, "Best regards"].join("\n\n") };
+}
+
+export function mockResumeBullets(
+  jd: ParsedJD,
+  resume: ParsedResume,
+  fit: FitAnalysis
+): { bullets: { bullet: string; targetRequirement: string; originalExperience: string }[] } {
+  const bullets = rankHighlights(jd, resume)
+    .slice(0, 6)
+    .map(({ experience, highlight, terms }) => {
+      // Name JD tech the role used when the highlight itself doesn't
+      const stackUsed = jd.techStack.filter((tech) => experience.techUsed.some((used) => mentionsSkill(used, tech)));
+      const bullet =
+        terms.length === 0 && stackUsed.length > 0
+          ? `${highlight.replace(/\.$/, "")} using ${joinList(stackUsed.slice(0, 2))}`
+          : highlight;
+      const responsibility = jd.responsibilities.find((r) => terms.some((term) => mentionsSkill(r, term)));
+      return {
+        bullet,
+        targetRequirement: responsibility ?? (terms[0] ? `${terms[0]} experience` : jd.responsibilities[0] ?? jd.role),
+        originalExperience: `${experience.company} - ${experience.role}`,
+      };
+    });
+
+  // Thin resumes: fall back to one bullet per matched skill
+  for (const match of [...fit.strongMatches, ...fit.partialMatches]) {
+    if (bullets.length >= 4) break;
+    bullets.push({
+      bullet: `Applied ${match.skill} in production work (${match.evidence})`,
+      targetRequirement: `${match.skill} experience`,
+      originalExperience: match.evidence,
+    });
+  }
+  return { bullets };
+}
+
+const TECHNICAL_QUESTION: Record<Skill["category"], (name: string, company: string) => string> = {
+  language: (name) => `What trade-offs do you consider when writing production services in ${name}?`,
+  framework: (name) => `How have you used ${name} in production, and what would you do differently next time?`,
+  tool: (name) => `How have you used ${name} in production, and what would you do differently next time?`,
+  platform: (name) => `How would you run a critical service on ${name}, and what failure modes would you plan for?`,
+  methodology: (name) => `How do you apply ${name} on a team day to day?`,
+  domain: (name, company) => `Walk us through how you would approach ${name} for a system like ${company}'s.`,
+  "soft-skill": (name) => `How do you demonstrate ${name} on a cross-functional team?`,
+  other: (name) => `Tell us about your experience with ${name}.`,
+};
+
+const BEHAVIORAL_QUESTIONS: { question: string; why: string; pattern: RegExp }[] = [
+  {
+    question: "Tell me about a time you led a significant technical change.",
+    why: "Tests ownership and the ability to drive work beyond your own tasks",
+    pattern: /\b(led|migrat|design|architect)/i,
+  },
+  {
+    question: "Describe a production incident or high-pressure situation and how you handled it.",
+    why: "Shows how you behave when systems and deadlines are under stress",
+    pattern: /incident|on-call|outage|mttr|reliab|uptime/i,
+  },
+  {
+    question: "How have you helped other engineers grow?",
+    why: "Probes mentorship and team multiplier behaviour",
+    pattern: /mentor|coach|train|review/i,
+  },
+  {
+    question: "Tell me about a project where you had to balance speed and quality.",
+    why: "Reveals judgement about trade-offs and technical debt",
+    pattern: /test|quality|coverage|deliver|automat/i,
+  },
+];
+
+export function mockInterviewPrep(
+  jd: ParsedJD,
+  resume: ParsedResume,
+  fit: FitAnalysis
+): {
+  technicalQuestions: { question: string; why: string; talkingPoints: string[] }[];
+  behavioralQuestions: { question: string; why: string; suggestedStory: string }[];
+  questionsToAsk: { question: string; purpose: string }[];
+} {
+  const technicalQuestions = [...jd.requiredSkills, ...jd.preferredSkills].slice(0, 4).map((jdSkill) => {
+    const strong = fit.strongMatches.find((m) => m.skill === jdSkill.name);
+    const partial = fit.partialMatches.find((m) => m.skill === jdSkill.name);
+    const responsibility = jd.responsibilities.find((r) => mentionsSkill(r, jdSkill.name));
+    const adjacent = fit.reframingSuggestions.find((r) => r.targetRequirement === jdSkill.name);
+    return {
+      question: TECHNICAL_QUESTION[jdSkill.category](jdSkill.name, jd.company),
+      why: `${jdSkill.name} is listed as a ${jdSkill.priority} skill for this role`,
+      talkingPoints: [
+        strong
+          ? `Lead with ${strong.evidence}`
+          : partial
+            ? `Build on what you have: ${partial.evidence}`
+            : `Be upfront about limited ${jdSkill.name} exposure${adjacent ? ` and connect it to your ${adjacent.existingExperience}` : ""}`,
+        ...(responsibility ? [`Tie it to the responsibility: ${responsibility}`] : []),
+        `Relate your answer to ${jd.company}'s ${jd.team ?? "team"} and its scale`,
+      ],
+    };
+  });
+
+  const highlights = resume.experiences.flatMap((experience) =>
+    experience.highlights.map((highlight) => `${experience.company}: ${highlight}`)
+  );
+  const used = new Set<string>();
+  const behavioralQuestions = BEHAVIORAL_QUESTIONS.map(({ question, why, pattern }) => {
+    const story = highlights.find((h) => pattern.test(h) && !used.has(h)) ?? highlights.find((h) => !used.has(h));
+    if (story) used.add(story);
+    return { question, why, suggestedStory: story ?? "Prepare a concrete story from your most recent role" };
+  });
+
+  const scope = jd.team ? `${jd.team} team` : "team";
+  const questionsToAsk = [
+    {
+      question: `What are the biggest challenges facing the ${scope} over the next year?`,
+      purpose: "Shows where you would have the most impact",
+    },
+    {
+      question: `What does success look like for a ${jd.role} at ${jd.company} in the first 90 days?`,
+      purpose: "Sets expectations and shows you are thinking about impact",
+    },
+    jd.culture[0]
+      ? {
+          question: `How does "${jd.culture[0]}" show up in day-to-day work at ${jd.company}?`,
+          purpose: "Tests whether the stated culture matches reality",
+        }
+      : {
+          question: `How would you describe the engineering culture at ${jd.company}?`,
+          purpose: "Reveals how the team actually works",
+        },
+    jd.redFlags[0]
+      ? {
+          question: `Could you say more about the ${lowerFirst(jd.redFlags[0])} — what does it look like in practice?`,
+          purpose: "Surfaces a potential concern from the posting before you commit",
+        }
+      : {
+          question: "How is the team's time split between new work and maintenance?",
+          purpose: "Reveals how much of the role is feature work versus upkeep",
+        },
+    {
+      question: "How are technical decisions made, and who is involved?",
+      purpose: "Shows how much influence this role really has",
+    },
+  ];
+
+  return { technicalQuestions, behavioralQuestions, questionsToAsk };
+}
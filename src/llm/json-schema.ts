@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+/**
+ * Zod → JSON Schema conversion for native structured output.
+ *
+ * Every schema passed to `LLMClient.structured()` — the parsed JD/resume and
+ * fit analysis in schemas.ts as well as the generator schemas — is turned into
+ * a forced tool definition, so the model returns typed tool input instead of
+ * free text that has to be fence-stripped and JSON-parsed.
+ */
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export const OUTPUT_TOOL_NAME = "record_output";
+
+export function zodToJSONSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+export function buildOutputTool(schema: z.ZodType): ToolDefinition {
+  return {
+    name: OUTPUT_TOOL_NAME,
+    description: schema.description ?? "Record the structured output for this request.",
+    inputSchema: zodToJSONSchema(schema),
+  };
+}
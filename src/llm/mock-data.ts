@@ -1,5 +1,11 @@
 import type { ParsedJD, ParsedResume, FitAnalysis } from "./schemas.js";
 
+/**
+ * Static parsed fixtures for the sample JD and resume, used by tests that need
+ * stable pipeline data. Mock mode itself derives its output from the actual
+ * inputs — see heuristic-mock.ts.
+ */
+
 export const mockParsedJD: ParsedJD = {
   company: "Acme Cloud Inc.",
   role: "Staff Software Engineer",
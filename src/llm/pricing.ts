@@ -0,0 +1,94 @@
+/**
+ * Model pricing registry — USD per million tokens, keyed by model id.
+ *
+ * Lookups match the exact id first, then the longest registered prefix, so
+ * dated ids like "claude-sonnet-4-5-20250929" resolve to "claude-sonnet-4-5".
+ * Unknown models fall back to DEFAULT_PRICING (Sonnet rates) so estimates
+ * err on the high side rather than reporting $0.
+ */
+
+// --- Types ---
+
+export interface ModelPricing {
+  inputPerM: number;
+  outputPerM: number;
+  /** Input tokens served from the prompt cache */
+  cacheReadPerM: number;
+  /** Input tokens written to the prompt cache */
+  cacheWritePerM: number;
+}
+
+export interface CostableUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+// --- Registry ---
+
+export const DEFAULT_PRICING: ModelPricing = {
+  inputPerM: 3.0,
+  outputPerM: 15.0,
+  cacheReadPerM: 0.3,
+  cacheWritePerM: 3.75,
+};
+
+const MODEL_PRICING = new Map<string, ModelPricing>([
+  // Anthropic — cache writes are 1.25x input, cache reads 0.1x input
+  ["claude-opus-4-5", { inputPerM: 5.0, outputPerM: 25.0, cacheReadPerM: 0.5, cacheWritePerM: 6.25 }],
+  ["claude-opus-4-1", { inputPerM: 15.0, outputPerM: 75.0, cacheReadPerM: 1.5, cacheWritePerM: 18.75 }],
+  ["claude-opus-4", { inputPerM: 15.0, outputPerM: 75.0, cacheReadPerM: 1.5, cacheWritePerM: 18.75 }],
+  ["claude-sonnet-4-5", { inputPerM: 3.0, outputPerM: 15.0, cacheReadPerM: 0.3, cacheWritePerM: 3.75 }],
+  ["claude-sonnet-4", { inputPerM: 3.0, outputPerM: 15.0, cacheReadPerM: 0.3, cacheWritePerM: 3.75 }],
+  ["claude-3-7-sonnet", { inputPerM: 3.0, outputPerM: 15.0, cacheReadPerM: 0.3, cacheWritePerM: 3.75 }],
+  ["claude-haiku-4-5", { inputPerM: 1.0, outputPerM: 5.0, cacheReadPerM: 0.1, cacheWritePerM: 1.25 }],
+  ["claude-3-5-haiku", { inputPerM: 0.8, outputPerM: 4.0, cacheReadPerM: 0.08, cacheWritePerM: 1.0 }],
+  // OpenAI — caching is automatic: no write surcharge, cached reads at a discount
+  ["gpt-4o", { inputPerM: 2.5, outputPerM: 10.0, cacheReadPerM: 1.25, cacheWritePerM: 2.5 }],
+  ["gpt-4o-mini", { inputPerM: 0.15, outputPerM: 0.6, cacheReadPerM: 0.075, cacheWritePerM: 0.15 }],
+  ["gpt-4.1", { inputPerM: 2.0, outputPerM: 8.0, cacheReadPerM: 0.5, cacheWritePerM: 2.0 }],
+  ["gpt-4.1-mini", { inputPerM: 0.4, outputPerM: 1.6, cacheReadPerM: 0.1, cacheWritePerM: 0.4 }],
+  ["gpt-4.1-nano", { inputPerM: 0.1, outputPerM: 0.4, cacheReadPerM: 0.025, cacheWritePerM: 0.1 }],
+]);
+
+/** Add or override pricing for a model id (or id prefix), e.g. a self-hosted model at $0 */
+export function registerModelPricing(model: string, pricing: ModelPricing): void {
+  MODEL_PRICING.set(model, pricing);
+}
+
+export function getModelPricing(model: string): ModelPricing {
+  const exact = MODEL_PRICING.get(model);
+  if (exact) return exact;
+
+  let match: string | null = null;
+  for (const key of MODEL_PRICING.keys()) {
+    if (model.startsWith(key) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match ? MODEL_PRICING.get(match)! : DEFAULT_PRICING;
+}
+
+/** Estimated USD cost of one call's (or a sum of calls') token usage */
+export function estimateCost(model: string, usage: CostableUsage): number {
+  const pricing = getModelPricing(model);
+  return (
+    (usage.inputTokens / 1_000_000) * pricing.inputPerM +
+    (usage.outputTokens / 1_000_000) * pricing.outputPerM +
+    ((usage.cacheReadTokens ?? 0) / 1_000_000) * pricing.cacheReadPerM +
+    ((usage.cacheWriteTokens ?? 0) / 1_000_000) * pricing.cacheWritePerM
+  );
+}
+
+/**
+ * Net USD saved by prompt caching versus sending the same tokens uncached:
+ * discounted cache reads minus the surcharge paid on cache writes.
+ */
+export function estimateCacheSavings(model: string, usage: Pick<CostableUsage, "cacheReadTokens" | "cacheWriteTokens">): number {
+  const pricing = getModelPricing(model);
+  return (
+    ((usage.cacheReadTokens ?? 0) / 1_000_000) * (pricing.inputPerM - pricing.cacheReadPerM) -
+    ((usage.cacheWriteTokens ?? 0) / 1_000_000) * (pricing.cacheWritePerM - pricing.inputPerM)
+  );
+}
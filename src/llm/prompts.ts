@@ -2,6 +2,8 @@
 // Each function returns the full user prompt for the LLM.
 // The system prompt is set in the LLM client to enforce JSON output.
 
+import type { ParsedJD, ParsedResume, FitAnalysis } from "./schemas.js";
+
 export function buildJDParsingPrompt(jdText: string): string {
   return `Analyze the following job description and extract structured data.
 
@@ -73,3 +75,84 @@ SCORING GUIDELINES:
 
 Be specific with evidence. Reference actual items from the resume, not generic statements.`;
 }
+
+// --- Generation Context ---
+// Shared by every generator and sent as a cacheable prefix, so it must be
+// byte-identical across calls: no timestamps or per-generator wording here.
+
+export function buildGenerationContext(
+  parsedJD: ParsedJD,
+  parsedResume: ParsedResume,
+  fitAnalysis: FitAnalysis
+): string {
+  return `The job, the candidate and the fit analysis for this application are below. Use them for the task that follows.
+
+JOB DESCRIPTION (parsed):
+${JSON.stringify(parsedJD, null, 2)}
+
+CANDIDATE RESUME (parsed):
+${JSON.stringify(parsedResume, null, 2)}
+
+FIT ANALYSIS:
+${JSON.stringify(fitAnalysis, null, 2)}`;
+}
+
+// --- Repair Prompts ---
+// Sent as a follow-up turn after the model's own malformed output, so it can
+// correct the specific problems instead of regenerating from scratch.
+
+export function buildSchemaRepairPrompt(issues: string[]): string {
+  return `Your previous response did not match the required schema.
+
+Fix ONLY the fields listed below. Keep every other field exactly as it was.
+
+ISSUES (path: problem):
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Return the full corrected JSON object only — no explanations, no markdown.`;
+}
+
+export function buildJSONRepairPrompt(parseError: string): string {
+  return `Your previous response was not valid JSON (${parseError}).
+
+Return the same content as a single valid JSON object only — no explanations, no markdown, no trailing text.`;
+}
+
+// --- Revision Prompt ---
+// Appended to a generator's instructions when its output failed validation,
+// so the regeneration fixes the reported issues instead of starting over, or
+// when the candidate's instructions ask to change a saved output.
+// Kept out of the generation context so the cached prefix stays identical.
+
+export function buildRevisionPrompt(previousOutput: string, issues: string[]): string {
+  // A saved output the candidate wants changed: the instructions that follow say how
+  if (issues.length === 0) {
+    return `REVISION — revise your previous version of this output as the candidate asks below.
+
+PREVIOUS VERSION:
+${previousOutput}
+
+Keep what already works — wording, structure and specific accomplishments — and change only what the instructions require. Return the complete revised output in the same JSON format.`;
+  }
+
+  return `REVISION — your previous version of this output failed our quality checks.
+
+PREVIOUS VERSION:
+${previousOutput}
+
+ISSUES TO FIX:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Revise the previous version so that every issue above is fixed. Keep what already works — wording, structure and specific accomplishments — and change only what the issues require. Return the complete revised output in the same JSON format.`;
+}
+
+// --- User Instructions ---
+// Appended to every generator's instructions when the user asks for a change
+// (jobfit regenerate --instructions), after any revision request.
+
+export function buildInstructionsPrompt(instructions: string): string {
+  return `ADDITIONAL INSTRUCTIONS FROM THE CANDIDATE:
+${instructions}
+
+Follow these instructions as long as they don't conflict with the JSON format or with staying truthful to the resume.`;
+}
@@ -0,0 +1,138 @@
+import { AnthropicProvider } from "./providers/anthropic.js";
+import { OpenAICompatibleProvider } from "./providers/openai-compatible.js";
+import type { ToolDefinition } from "./json-schema.js";
+
+/**
+ * Provider abstraction — the transport layer underneath LLMClient.
+ *
+ * A provider only knows how to send one chat request and return the raw text
+ * plus token usage. Retries, JSON parsing, Zod validation and usage tracking
+ * stay in LLMClient so they behave identically for every backend.
+ */
+
+// --- Types ---
+
+export type ProviderName = "anthropic" | "openai";
+
+export const PROVIDER_NAMES: ProviderName[] = ["anthropic", "openai"];
+
+export interface ProviderMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ProviderRequest {
+  model: string;
+  maxTokens: number;
+  system: string;
+  messages: ProviderMessage[];
+  /** Tool the model is forced to call; its input is the structured output */
+  tool?: ToolDefinition;
+  /**
+   * Shared context placed ahead of the first user message as a cacheable
+   * prefix — marked with cache_control on Anthropic, prepended as plain text
+   * elsewhere so automatic prefix caching can pick it up.
+   */
+  context?: string;
+  /** Aborts the in-flight HTTP request; not part of the payload or cassette key */
+  signal?: AbortSignal;
+}
+
+export interface ProviderUsage {
+  /** Uncached input tokens — excludes cache reads and writes */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the prompt cache */
+  cacheReadTokens?: number;
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens?: number;
+}
+
+export interface ProviderResponse {
+  /** Response text, or the serialized tool input when a tool was called */
+  text: string;
+  toolInput?: unknown;
+  usage: ProviderUsage;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  /** Model used when LLMClient is not given one explicitly */
+  readonly defaultModel: string;
+  /** Env var holding the credentials, surfaced in auth error messages */
+  readonly apiKeyEnv: string;
+  /** Whether `request.tool` is honored. Without it LLMClient falls back to free-text JSON. */
+  readonly supportsTools?: boolean;
+  send(request: ProviderRequest): Promise<ProviderResponse>;
+  /** Like send(), but calls `onText` with each raw text/tool-input chunk as it arrives */
+  stream?(request: ProviderRequest, onText: (chunk: string) => void): Promise<ProviderResponse>;
+}
+
+export interface ProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  /** Set false for servers without tool/function calling (OpenAI-compatible only) */
+  tools?: boolean;
+}
+
+// --- Errors ---
+
+/**
+ * Error thrown by providers for non-2xx responses. `status` mirrors the
+ * Anthropic SDK's APIError so LLMClient can treat both the same way.
+ * `retryAfterMs` carries a rate-limit response's retry-after header.
+ */
+export class ProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Parse a retry-after header — delay in seconds or an HTTP date — into milliseconds */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// --- Factory ---
+
+/** Default model per provider, used when neither config nor LLM_MODEL names one */
+export function defaultModelFor(name: ProviderName): string {
+  switch (name) {
+    case "anthropic":
+      return "claude-sonnet-4-5-20250929";
+    case "openai":
+      return process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+  }
+}
+
+export function resolveProviderName(value?: string): ProviderName {
+  const name = (value ?? "anthropic").trim().toLowerCase();
+  if (!PROVIDER_NAMES.includes(name as ProviderName)) {
+    throw new Error(
+      `Unknown LLM provider: ${value}. Supported: ${PROVIDER_NAMES.join(", ")}`
+    );
+  }
+  return name as ProviderName;
+}
+
+export function createProvider(
+  name: ProviderName,
+  options: ProviderOptions = {}
+): LLMProvider {
+  switch (name) {
+    case "anthropic":
+      return new AnthropicProvider(options);
+    case "openai":
+      return new OpenAICompatibleProvider(options);
+  }
+}
@@ -0,0 +1,108 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  defaultModelFor,
+  type LLMProvider,
+  type ProviderOptions,
+  type ProviderRequest,
+  type ProviderResponse,
+} from "../provider.js";
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  readonly defaultModel = defaultModelFor("anthropic");
+  readonly apiKeyEnv = "ANTHROPIC_API_KEY";
+  readonly supportsTools = true;
+  private client: Anthropic;
+
+  constructor(options: ProviderOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "ANTHROPIC_API_KEY is not set. Add it to your .env file or set MOCK_LLM=true."
+      );
+    }
+
+    this.client = new Anthropic({
+      apiKey,
+      // LLMClient owns retries and backoff; SDK retries would multiply them
+      maxRetries: 0,
+      ...(options.baseUrl ? { baseURL: options.baseUrl } : {}),
+    });
+  }
+
+  async send(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await this.client.messages.create(this.buildParams(request), { signal: request.signal });
+    return this.toResponse(response);
+  }
+
+  async stream(request: ProviderRequest, onText: (chunk: string) => void): Promise<ProviderResponse> {
+    const stream = this.client.messages.stream(this.buildParams(request), { signal: request.signal });
+    stream.on("text", (delta) => onText(delta));
+    stream.on("inputJson", (partialJson) => onText(partialJson));
+    return this.toResponse(await stream.finalMessage());
+  }
+
+  private buildParams(request: ProviderRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: request.context ? withCachedContext(request.messages, request.context) : request.messages,
+      ...(request.tool
+        ? {
+            tools: [
+              {
+                name: request.tool.name,
+                description: request.tool.description,
+                input_schema: request.tool.inputSchema as Anthropic.Tool.InputSchema,
+              },
+            ],
+            tool_choice: { type: "tool" as const, name: request.tool.name },
+          }
+        : {}),
+    };
+  }
+
+  private toResponse(response: Anthropic.Message): ProviderResponse {
+    const usage = {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+      cacheReadTokens: response.usage.cache_read_input_tokens ?? 0,
+      cacheWriteTokens: response.usage.cache_creation_input_tokens ?? 0,
+    };
+
+    const toolBlock = response.content.find((b) => b.type === "tool_use");
+    if (toolBlock && toolBlock.type === "tool_use") {
+      return { text: JSON.stringify(toolBlock.input), toolInput: toolBlock.input, usage };
+    }
+
+    const textBlock = response.content.find((b) => b.type === "text");
+    if (!textBlock || textBlock.type !== "text") {
+      throw new Error("No text content in LLM response");
+    }
+
+    return { text: textBlock.text, usage };
+  }
+}
+
+/**
+ * Split the first user message into a cache_control'd context block followed
+ * by the prompt itself. Everything up to and including the context block is
+ * cached, so calls that share tools, system prompt and context reuse it.
+ */
+function withCachedContext(
+  messages: ProviderRequest["messages"],
+  context: string
+): Anthropic.MessageParam[] {
+  return messages.map((message, index) =>
+    index === 0
+      ? {
+          role: message.role,
+          content: [
+            { type: "text" as const, text: context, cache_control: { type: "ephemeral" as const } },
+            { type: "text" as const, text: message.content },
+          ],
+        }
+      : message
+  );
+}
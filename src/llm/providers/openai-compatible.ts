@@ -0,0 +1,215 @@
+import {
+  ProviderError,
+  defaultModelFor,
+  parseRetryAfter,
+  type LLMProvider,
+  type ProviderOptions,
+  type ProviderRequest,
+  type ProviderResponse,
+} from "../provider.js";
+
+/**
+ * Adapter for any server exposing the OpenAI chat-completions API
+ * (OpenAI itself, vLLM, llama.cpp, Ollama, LM Studio, ...).
+ *
+ * Uses the built-in fetch so no extra SDK is needed. The API key is optional
+ * because most self-hosted servers don't require one. Function calling is on
+ * by default; turn it off (`tools: false` or OPENAI_TOOL_USE=false) for
+ * servers that don't implement it.
+ */
+
+const DEFAULT_BASE_URL = "http://localhost:8000/v1";
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: {
+      content?: string | null;
+      tool_calls?: { function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+  usage?: OpenAIUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { function?: { arguments?: string } }[];
+    };
+  }[];
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  readonly defaultModel: string;
+  readonly apiKeyEnv = "OPENAI_API_KEY";
+  readonly supportsTools: boolean;
+  private baseUrl: string;
+  private apiKey: string | undefined;
+
+  constructor(options: ProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? process.env.OPENAI_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    this.defaultModel = defaultModelFor("openai");
+    this.supportsTools = options.tools ?? process.env.OPENAI_TOOL_USE !== "false";
+  }
+
+  async send(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await this.post(request, false);
+    const json = (await response.json()) as ChatCompletionResponse;
+    const message = json.choices?.[0]?.message;
+
+    return toResponse(
+      message?.content ?? "",
+      message?.tool_calls?.[0]?.function?.arguments ?? "",
+      toUsage(json.usage)
+    );
+  }
+
+  /**
+   * Streams server-sent chunks, forwarding content and tool-argument deltas.
+   * Usage arrives in the final chunk when the server honors `include_usage`.
+   */
+  async stream(request: ProviderRequest, onText: (chunk: string) => void): Promise<ProviderResponse> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error("Streaming response has no body");
+    }
+
+    let content = "";
+    let args = "";
+    let usage = toUsage(null);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        // At the end, flush the decoder and parse whatever follows the last newline:
+        // servers may close after a final `data:` line (often the usage chunk) without one
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = done ? "" : lines.pop() ?? "";
+
+        for (const line of lines) {
+          const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+          if (!data || data === "[DONE]") continue;
+
+          // A malformed or truncated chunk loses text; fail the attempt so the client retries it
+          let chunk: ChatCompletionChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            throw new ProviderError(`Malformed chunk in chat completion stream: ${data.slice(0, 200)}`);
+          }
+          const delta = chunk.choices?.[0]?.delta;
+          const contentDelta = delta?.content ?? "";
+          const argsDelta = delta?.tool_calls?.[0]?.function?.arguments ?? "";
+          content += contentDelta;
+          args += argsDelta;
+          if (contentDelta || argsDelta) onText(contentDelta + argsDelta);
+
+          if (chunk.usage) usage = toUsage(chunk.usage);
+        }
+        if (done) break;
+      }
+    } catch (error) {
+      // Release the connection rather than leave the rest of the body unread
+      await reader.cancel().catch(() => {});
+      throw error;
+    }
+
+    return toResponse(content, args, usage);
+  }
+
+  private async post(request: ProviderRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages: [
+          { role: "system", content: request.system },
+          // Context goes first so the server's automatic prefix caching can reuse it
+          ...request.messages.map((message, index) =>
+            index === 0 && request.context
+              ? { ...message, content: `${request.context}\n\n${message.content}` }
+              : message
+          ),
+        ],
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        ...(request.tool
+          ? {
+              tools: [
+                {
+                  type: "function",
+                  function: {
+                    name: request.tool.name,
+                    description: request.tool.description,
+                    parameters: request.tool.inputSchema,
+                  },
+                },
+              ],
+              tool_choice: { type: "function", function: { name: request.tool.name } },
+            }
+          : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new ProviderError(
+        `Chat completion request failed (${response.status}): ${body.slice(0, 200)}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    return response;
+  }
+}
+
+/** prompt_tokens includes cached tokens; report them separately like Anthropic does */
+function toUsage(usage: OpenAIUsage | null | undefined): ProviderResponse["usage"] {
+  const cached = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    inputTokens: (usage?.prompt_tokens ?? 0) - cached,
+    outputTokens: usage?.completion_tokens ?? 0,
+    cacheReadTokens: cached,
+  };
+}
+
+function toResponse(
+  content: string,
+  args: string,
+  usage: ProviderResponse["usage"]
+): ProviderResponse {
+  // Tool arguments arrive as a JSON string. If they don't parse, hand them
+  // back as text so LLMClient's repair loop sees the malformed output.
+  if (args) {
+    try {
+      return { text: args, toolInput: JSON.parse(args), usage };
+    } catch {
+      return { text: args, usage };
+    }
+  }
+
+  if (!content) {
+    throw new Error("No text content in LLM response");
+  }
+
+  return { text: content, usage };
+}
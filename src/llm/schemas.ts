@@ -57,7 +57,7 @@ export const ParsedJDSchema = z.object({
     .string()
     .optional()
     .describe("Salary range if mentioned"),
-});
+}).describe("Structured data extracted from a job description");
 
 export type ParsedJD = z.infer<typeof ParsedJDSchema>;
 
@@ -99,7 +99,7 @@ export const ParsedResumeSchema = z.object({
   yearsOfExperience: z
     .number()
     .describe("Total years of professional experience"),
-});
+}).describe("Structured data extracted from a resume");
 
 export type ParsedResume = z.infer<typeof ParsedResumeSchema>;
 
@@ -170,6 +170,6 @@ export const FitAnalysisSchema = z.object({
   competitiveAdvantages: z
     .array(z.string())
     .describe("Unique strengths that set the candidate apart"),
-});
+}).describe("Fit analysis between a parsed job description and a parsed resume");
 
 export type FitAnalysis = z.infer<typeof FitAnalysisSchema>;
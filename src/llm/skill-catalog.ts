@@ -0,0 +1,142 @@
+import type { Skill } from "./schemas.js";
+
+/**
+ * Skill catalog — the fixed keyword list the heuristic mock parses skills
+ * with, and the grounding checker finds technology names with. Each entry's
+ * pattern decides what counts as a mention.
+ */
+
+export interface CatalogSkill {
+  name: string;
+  category: Skill["category"];
+  pattern: RegExp;
+}
+
+function skill(name: string, category: Skill["category"], pattern: RegExp): CatalogSkill {
+  return { name, category, pattern };
+}
+
+// Patterns without the `i` flag are deliberately case-sensitive ("Go", "React")
+export const SKILL_CATALOG: CatalogSkill[] = [
+  // Languages
+  skill("TypeScript", "language", /\btypescript\b/i),
+  skill("JavaScript", "language", /\bjavascript\b/i),
+  skill("Python", "language", /\bpython\b/i),
+  skill("Java", "language", /\bjava\b(?!script)/i),
+  skill("Go", "language", /\bGo(?:lang)?\b(?![-'’])/),
+  skill("Rust", "language", /\brust\b/i),
+  skill("C++", "language", /\bc\+\+/i),
+  skill("C#", "language", /\bc#/i),
+  skill("Ruby", "language", /\bruby\b/i),
+  skill("Kotlin", "language", /\bkotlin\b/i),
+  skill("Swift", "language", /\bSwift\b/),
+  skill("Scala", "language", /\bscala\b/i),
+  skill("PHP", "language", /\bphp\b/i),
+  skill("SQL", "language", /\bsql\b/i),
+  // Frameworks
+  skill("Node.js", "framework", /\bnode\.?js\b/i),
+  skill("React", "framework", /\bReact(?:\.js)?\b/),
+  skill("Angular", "framework", /\bangular\b/i),
+  skill("Vue", "framework", /\bvue(?:\.js)?\b/i),
+  skill("Next.js", "framework", /\bnext\.js\b/i),
+  skill("Express", "framework", /\bExpress(?:\.js)?\b/),
+  skill("Django", "framework", /\bdjango\b/i),
+  skill("Flask", "framework", /\bflask\b/i),
+  skill("FastAPI", "framework", /\bfastapi\b/i),
+  skill("Spring", "framework", /\bSpring(?: Boot)?\b/),
+  skill("Ruby on Rails", "framework", /\bRails\b/),
+  skill(".NET", "framework", /\.NET\b/),
+  skill("Apache Spark", "framework", /\b(?:apache )?spark\b/i),
+  skill("gRPC", "framework", /\bgrpc\b/i),
+  skill("GraphQL", "framework", /\bgraphql\b/i),
+  skill("TensorFlow", "framework", /\btensorflow\b/i),
+  skill("PyTorch", "framework", /\bpytorch\b/i),
+  // Platforms
+  skill("AWS", "platform", /\baws\b|amazon web services/i),
+  skill("GCP", "platform", /\bgcp\b|google cloud/i),
+  skill("Azure", "platform", /\bazure\b/i),
+  skill("Kubernetes", "platform", /\bkubernetes\b|\bk8s\b/i),
+  skill("Linux", "platform", /\blinux\b/i),
+  // Tools
+  skill("Docker", "tool", /\bdocker\b/i),
+  skill("Terraform", "tool", /\bterraform\b/i),
+  skill("PostgreSQL", "tool", /\bpostgres(?:ql)?\b/i),
+  skill("MySQL", "tool", /\bmysql\b/i),
+  skill("MongoDB", "tool", /\bmongo(?:db)?\b/i),
+  skill("Redis", "tool", /\bredis\b/i),
+  skill("DynamoDB", "tool", /\bdynamodb\b/i),
+  skill("Elasticsearch", "tool", /\belasticsearch\b/i),
+  skill("Kafka", "tool", /\bkafka\b/i),
+  skill("RabbitMQ", "tool", /\brabbitmq\b/i),
+  skill("Prometheus", "tool", /\bprometheus\b/i),
+  skill("Grafana", "tool", /\bgrafana\b/i),
+  skill("Jaeger", "tool", /\bjaeger\b/i),
+  skill("Datadog", "tool", /\bdatadog\b/i),
+  skill("ArgoCD", "tool", /\bargo ?cd\b/i),
+  skill("GitHub Actions", "tool", /\bgithub actions\b/i),
+  skill("Jenkins", "tool", /\bjenkins\b/i),
+  skill("Ansible", "tool", /\bansible\b/i),
+  skill("Airflow", "tool", /\bairflow\b/i),
+  skill("Snowflake", "tool", /\bsnowflake\b/i),
+  // Methodologies
+  skill("CI/CD", "methodology", /\bci\/cd\b/i),
+  skill("Microservices", "methodology", /\bmicro-?services?\b/i),
+  skill("TDD", "methodology", /\btdd\b|test-driven/i),
+  skill("Agile", "methodology", /\bagile\b|\bscrum\b/i),
+  // Domains
+  skill("Distributed Systems", "domain", /\bdistributed systems?\b/i),
+  skill("System Design", "domain", /\bsystems? design\b/i),
+  skill("Machine Learning", "domain", /\bmachine learning\b|\bML\b/),
+  skill("Observability", "domain", /\bobservability\b/i),
+  skill("Platform Engineering", "domain", /\bplatform engineering\b/i),
+  skill("Event-Driven Architecture", "domain", /\bevent-driven\b/i),
+  skill("Service Mesh", "domain", /\bservice mesh\b/i),
+  skill("Open Source", "other", /\bopen[- ]source\b/i),
+  // Soft skills
+  skill("Communication", "soft-skill", /\bcommunication\b/i),
+  skill("Mentoring", "soft-skill", /\bmentor(?:ing|ship|ed)?\b/i),
+  skill("Leadership", "soft-skill", /\bleadership\b/i),
+];
+
+export const TECH_CATEGORIES = new Set<Skill["category"]>(["language", "framework", "tool", "platform"]);
+
+/** Catalog skills mentioned in `text`, in order of first appearance */
+export function findSkills(text: string): CatalogSkill[] {
+  return SKILL_CATALOG.map((entry) => ({ entry, index: text.search(entry.pattern) }))
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+/** Every mention of a catalog technology (language, framework, tool or platform) in `text`, in order */
+export function findTechnologyMentions(text: string): { skill: CatalogSkill; index: number; text: string }[] {
+  const mentions: { skill: CatalogSkill; index: number; text: string }[] = [];
+  for (const entry of SKILL_CATALOG) {
+    if (!TECH_CATEGORIES.has(entry.category)) continue;
+    for (const match of text.matchAll(new RegExp(entry.pattern.source, entry.pattern.flags + "g"))) {
+      mentions.push({ skill: entry, index: match.index!, text: match[0] });
+    }
+  }
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+const STOPWORDS = new Set(["and", "the", "with", "for", "experience", "skills", "knowledge"]);
+
+/**
+ * Whether `text` mentions a skill. Catalog names use their pattern; anything
+ * else (e.g. a skill named by a real model in a cached parse) matches when at
+ * least half of its significant words appear.
+ */
+export function mentionsSkill(text: string, name: string): boolean {
+  const entry = SKILL_CATALOG.find((s) => s.name.toLowerCase() === name.toLowerCase());
+  if (entry) return entry.pattern.test(text);
+
+  const lower = text.toLowerCase();
+  const tokens = name
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .filter((token) => token.length >= 3 && !STOPWORDS.has(token));
+  if (tokens.length === 0) return lower.includes(name.toLowerCase());
+  const hits = tokens.filter((token) => lower.includes(token)).length;
+  return hits / tokens.length >= 0.5;
+}
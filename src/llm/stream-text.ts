@@ -0,0 +1,95 @@
+/**
+ * Incremental projection of streamed JSON into readable text.
+ *
+ * Structured generators stream JSON (tool input or free text), which isn't
+ * something a user wants to watch arrive. This scanner emits only the string
+ * *values* of the document — the cover letter body, each bullet, each question —
+ * as they grow, one value per line. It is append-only, so each chunk maps to
+ * exactly one text delta and the concatenated deltas equal the final projection.
+ */
+
+type Container = "object" | "array";
+
+export function createJSONTextStream(onText: (text: string) => void): (chunk: string) => void {
+  const stack: Container[] = [];
+  let expectingKey = false;
+  let inString = false;
+  let stringIsKey = false;
+  let escape: string | null = null;
+  let emittedAny = false;
+
+  return (chunk: string) => {
+    let out = "";
+
+    for (const ch of chunk) {
+      if (inString) {
+        if (escape !== null) {
+          escape += ch;
+          if (escape[0] === "u") {
+            if (escape.length < 5) continue;
+            if (!stringIsKey) out += String.fromCharCode(parseInt(escape.slice(1), 16));
+          } else if (!stringIsKey) {
+            out += decodeEscape(escape);
+          }
+          escape = null;
+        } else if (ch === "\\") {
+          escape = "";
+        } else if (ch === '"') {
+          inString = false;
+        } else if (!stringIsKey) {
+          out += ch;
+        }
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          inString = true;
+          stringIsKey = stack[stack.length - 1] === "object" && expectingKey;
+          if (!stringIsKey) {
+            if (emittedAny) out += "\n";
+            emittedAny = true;
+          }
+          break;
+        case "{":
+          stack.push("object");
+          expectingKey = true;
+          break;
+        case "[":
+          stack.push("array");
+          expectingKey = false;
+          break;
+        case "}":
+        case "]":
+          stack.pop();
+          expectingKey = false;
+          break;
+        case ":":
+          expectingKey = false;
+          break;
+        case ",":
+          expectingKey = stack[stack.length - 1] === "object";
+          break;
+      }
+    }
+
+    if (out) onText(out);
+  };
+}
+
+function decodeEscape(escape: string): string {
+  switch (escape) {
+    case "n":
+      return "\n";
+    case "t":
+      return "\t";
+    case "r":
+      return "\r";
+    case "b":
+    case "f":
+      return "";
+    default:
+      // \" \\ \/
+      return escape;
+  }
+}
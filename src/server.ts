@@ -1,22 +1,36 @@
 import http from "http";
 import { readFileSync, existsSync } from "fs";
-import { join, extname } from "path";
+import { join, extname, basename, resolve } from "path";
 import { fileURLToPath } from "url";
+import { randomUUID } from "crypto";
 import { dirname } from "path";
 import { LLMClient } from "./llm/client.js";
-import { runOrchestrator } from "./agent/orchestrator.js";
-import { AgentState, PipelineContext } from "./agent/state.js";
+import { resolveProviderName } from "./llm/provider.js";
+import { runOrchestrator, resumeOrchestrator, regenerateOutputs, type OrchestratorResult } from "./agent/orchestrator.js";
+import { createAgentGraph, type GraphRunOptions, type OutputDelta } from "./agent/graph.js";
+import { loadCheckpoint, saveCheckpoint, CheckpointError, type Checkpoint } from "./agent/checkpoint.js";
+import { AgentState, RunBudget, usageByStage } from "./agent/state.js";
+import { parseRunBudget } from "./agent/budget.js";
+import { loadModelRouting, type ModelRouting } from "./agent/routing.js";
+import { parseMinFitScore } from "./agent/fit-gate.js";
+import { parseOutputSelection, selectedGenerators } from "./agent/output-selection.js";
+import { parseGroundingMode, type GroundingMode } from "./agent/grounding.js";
+import { parseFitReview, FitReviewError, type FitReviewer } from "./agent/review.js";
+import { PipelineEvents } from "./agent/events.js";
 import { scrapeJobPosting } from "./tools/scraper.js";
+import { loadGeneratorPlugins } from "./tools/generators/registry.js";
 import { parseFileBuffer } from "./utils/file-parser.js";
-import { loadAllRuns } from "./utils/run-loader.js";
-import { writeRunOutputs } from "./utils/output-writer.js";
+import { loadAllRuns, loadRunAnalysis, loadRunCalls, breakdownCosts, RunAnalysisError, type RunAnalysis } from "./utils/run-loader.js";
+import { writeRunOutputs, writeRegeneratedOutputs, defaultRunDir } from "./utils/output-writer.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const PORT = parseInt(process.env.PORT ?? "3000", 10);
-const OUTPUT_ROOT = join(__dirname, "../output");
+const OUTPUT_ROOT = process.env.JOBFIT_OUTPUT_DIR ? resolve(process.env.JOBFIT_OUTPUT_DIR) : join(__dirname, "../output");
 const MAX_JSON_BODY_BYTES = 1 * 1024 * 1024;
 const MAX_MULTIPART_BODY_BYTES = 10 * 1024 * 1024;
+// Loaded once at startup (see start()) so a bad routing file fails fast rather than on the first request
+let MODEL_ROUTING: ModelRouting | null = null;
 
 class HttpError extends Error {
   statusCode: number;
@@ -187,23 +201,70 @@ const STATE_LABELS: Record<string, string> = {
   PARSE_JD: "Reading job posting...",
   PARSE_RESUME: "Reading resume...",
   ANALYZE_FIT: "Analyzing fit...",
+  REVIEW_FIT: "Waiting for your review...",
   GENERATE_OUTPUTS: "Writing outputs...",
   VALIDATE: "Running quality check...",
 };
 
 const PIPELINE_STATES = ["PARSE_JD", "PARSE_RESUME", "ANALYZE_FIT", "GENERATE_OUTPUTS", "VALIDATE"];
 
-async function parseAnalyzeInput(req: http.IncomingMessage): Promise<{ jdText: string; resumeText: string; jdSource: string; resumeSource: string }> {
+function parseBudgetInput(input: { maxCostUsd?: unknown; maxTokens?: unknown }): RunBudget | null {
+  try {
+    return parseRunBudget(input);
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+}
+
+/** A request's minimum fit score, JOBFIT_MIN_FIT_SCORE when it sends none; `force` lifts the gate */
+function parseMinFitScoreInput(input: { minFitScore?: unknown; force?: boolean }): number | null {
+  if (input.force) return null;
+  try {
+    return parseMinFitScore(input.minFitScore ?? process.env.JOBFIT_MIN_FIT_SCORE);
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+}
+
+/** A request's grounding mode, JOBFIT_GROUNDING when it sends none */
+function parseGroundingInput(grounding: unknown): GroundingMode | null {
+  try {
+    return parseGroundingMode(grounding || process.env.JOBFIT_GROUNDING);
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+}
+
+function parseOutputsInput(outputs: unknown): string[] | null {
+  try {
+    return parseOutputSelection(outputs);
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+}
+
+async function parseAnalyzeInput(req: http.IncomingMessage): Promise<{ jdText: string; resumeText: string; jdSource: string; resumeSource: string; budget: RunBudget | null; reviewFit: boolean; minFitScore: number | null; outputs: string[] | null; grounding: GroundingMode | null }> {
   let jdText = "";
   let resumeText = "";
   let jdSource = "";
   let resumeSource = "";
+  let budget: RunBudget | null = null;
+  let reviewFit = false;
+  let minFitScore: number | null = null;
+  let outputs: string[] | null = null;
+  let grounding: GroundingMode | null = null;
 
   const contentType = req.headers["content-type"] ?? "";
 
   if (contentType.includes("multipart/form-data")) {
     const body = await readBodyBuffer(req, MAX_MULTIPART_BODY_BYTES);
     const fields = parseMultipart(body, contentType);
+    budget = parseBudgetInput({ maxCostUsd: fields.maxCostUsd, maxTokens: fields.maxTokens });
+    reviewFit = fields.reviewFit === "true";
+    minFitScore = parseMinFitScoreInput({ minFitScore: fields.minFitScore || undefined, force: fields.force === "true" });
+    // Form fields are strings: a comma-separated list
+    outputs = parseOutputsInput(fields.outputs);
+    grounding = parseGroundingInput(fields.grounding);
 
     const jdUrl = typeof fields.jdUrl === "string" ? fields.jdUrl.trim() : "";
     const jdTextRaw = typeof fields.jdText === "string" ? fields.jdText.trim() : "";
@@ -231,6 +292,11 @@ async function parseAnalyzeInput(req: http.IncomingMessage): Promise<{ jdText: s
   } else {
     const rawBody = await readBody(req, MAX_JSON_BODY_BYTES);
     const body = JSON.parse(rawBody);
+    budget = parseBudgetInput({ maxCostUsd: body.maxCostUsd, maxTokens: body.maxTokens });
+    reviewFit = body.reviewFit === true;
+    minFitScore = parseMinFitScoreInput({ minFitScore: body.minFitScore, force: body.force === true });
+    outputs = parseOutputsInput(body.outputs);
+    grounding = parseGroundingInput(body.grounding);
 
     if (body.jdUrl?.trim()) {
       const scrapeResult = await scrapeJobPosting(body.jdUrl);
@@ -245,32 +311,230 @@ async function parseAnalyzeInput(req: http.IncomingMessage): Promise<{ jdText: s
     resumeSource = "pasted-text";
   }
 
-  return { jdText, resumeText, jdSource, resumeSource };
+  return { jdText, resumeText, jdSource, resumeSource, budget, reviewFit, minFitScore, outputs, grounding };
 }
 
-function buildResultPayload(result: Awaited<ReturnType<typeof runOrchestrator>>, outputDir?: string) {
+function buildResultPayload(result: OrchestratorResult, outputDir?: string) {
   const ctx = result.context;
   return {
     parsedJD: ctx.parsedJD,
     parsedResume: ctx.parsedResume,
     fitAnalysis: ctx.fitAnalysis,
-    outputs: {
-      coverLetter: ctx.outputs.coverLetter,
-      tailoredBullets: ctx.outputs.tailoredBullets,
-      interviewPrep: ctx.outputs.interviewPrep,
-    },
+    outputs: { ...ctx.outputs },
+    // Tab labels for every output the run produces, plugin generators included
+    generators: selectedGenerators(ctx).map(({ name, label, filename, icon }) => ({ name, label, filename, icon })),
     validation: ctx.validation,
     metadata: {
-      model: "claude-sonnet-4-5-20250929",
+      model: result.model,
       tokenUsage: result.tokenUsage,
       totalDurationMs: result.totalDurationMs,
       stateHistory: ctx.stateHistory,
+      usageByStage: usageByStage(ctx.stateHistory),
       validationAttempts: ctx.validationAttempts,
+      regenerations: ctx.regenerations,
+      llmRetries: ctx.llmRetries,
+      budget: ctx.budget,
+      budgetExceeded: ctx.budgetExceeded,
+      routing: ctx.routing,
+      cancelled: ctx.cancelled,
+      fitReview: ctx.fitReview,
+      requestedOutputs: ctx.requestedOutputs,
+      minFitScore: ctx.minFitScore,
+      notRecommended: ctx.notRecommended,
+      grounding: ctx.grounding,
     },
     ...(outputDir ? { outputDir } : {}),
   };
 }
 
+// --- Fit reviews ---
+
+/**
+ * Runs paused in REVIEW_FIT, keyed by the review id sent in their `review`
+ * event — resolved by POST /api/runs/review. A resumed run keeps its directory,
+ * so a review panel left open from an earlier attempt can't answer the new review.
+ */
+const PENDING_REVIEWS = new Map<string, (fitAnalysis: unknown) => void>();
+
+function waitForReview(reviewId: string, signal?: AbortSignal): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const submit = (fitAnalysis: unknown) => {
+      PENDING_REVIEWS.delete(reviewId);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(fitAnalysis);
+    };
+    const onAbort = () => {
+      if (PENDING_REVIEWS.get(reviewId) === submit) PENDING_REVIEWS.delete(reviewId);
+      reject(signal!.reason);
+    };
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    PENDING_REVIEWS.set(reviewId, submit);
+  });
+}
+
+// --- Streaming runs ---
+
+type RunStarter = (llm: LLMClient, options: GraphRunOptions) => Promise<OrchestratorResult>;
+
+/** How a streamed run is saved — a regeneration writes versioned files and never checkpoints */
+interface RunPersistence {
+  /** Write the finished run; returns extra fields for the final payload. Defaults to writeRunOutputs */
+  save?: (outputDir: string, result: OrchestratorResult) => Record<string, unknown>;
+  /** Save checkpoint.json after every node, and offer `resumeDir` on failure — on by default */
+  checkpoint?: boolean;
+}
+
+/**
+ * Run the pipeline and stream its progress as SSE from the run's events:
+ * state changes, partial results, generator deltas and the final payload. The
+ * run is checkpointed to its run directory after every node (unless
+ * `persistence` turns it off), and aborted if the client disconnects.
+ * A run paused for a fit review sends a `review` event and waits for
+ * POST /api/runs/review; `options.reviewFit` is the reviewer that does this.
+ */
+async function streamRun(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  start: RunStarter,
+  sources: { jdSource: string; resumeSource: string },
+  runDir: { path: string | null },
+  persistence: RunPersistence = {}
+): Promise<void> {
+  const checkpointing = persistence.checkpoint ?? true;
+  initSSE(req, res);
+
+  // The request body is already consumed, so watch the response: it closes
+  // before being ended only when the client goes away mid-run
+  let clientConnected = true;
+  const abortController = new AbortController();
+  res.on("close", () => {
+    clientConnected = false;
+    if (!res.writableEnded) abortController.abort(new Error("Client disconnected"));
+  });
+
+  const completedStates: string[] = [];
+  const events = new PipelineEvents();
+
+  events.on("nodeStarted", ({ node, ctx }) => {
+    if (!clientConnected) return;
+
+    const stateStr = node as string;
+    const idx = PIPELINE_STATES.indexOf(stateStr);
+    if (idx < 0) return;
+
+    let label = STATE_LABELS[stateStr] ?? stateStr;
+    if (stateStr === "VALIDATE" && ctx.validationAttempts > 1) {
+      label = `Re-checking quality (attempt ${ctx.validationAttempts})...`;
+    }
+    if (stateStr === "GENERATE_OUTPUTS" && ctx.validationAttempts > 0) {
+      label = `Re-writing outputs (attempt ${ctx.validationAttempts + 1})...`;
+    }
+
+    // Every earlier state is now completed (a resumed run starts part-way through),
+    // except one still running alongside this one
+    const running = new Set(
+      ctx.stateHistory.filter((entry) => entry.durationMs === undefined).map((entry) => entry.state as string)
+    );
+    for (const prevState of PIPELINE_STATES.slice(0, idx)) {
+      if (!completedStates.includes(prevState) && !running.has(prevState)) {
+        completedStates.push(prevState);
+      }
+    }
+
+    sendSSE(res, "state", {
+      state: stateStr,
+      step: idx + 1,
+      totalSteps: PIPELINE_STATES.length,
+      label,
+      completedStates: [...completedStates],
+    });
+  });
+
+  // Parsed inputs and the fit analysis as each is produced (or restored from a checkpoint);
+  // outputs all at once when a generation round completes
+  events.on("artifactProduced", ({ kind, data }) => {
+    if (clientConnected && kind !== "output") sendSSE(res, "partial", { type: kind, data });
+  });
+  events.on("nodeCompleted", ({ node, ctx }) => {
+    if (clientConnected && node === AgentState.GENERATE_OUTPUTS) {
+      sendSSE(res, "partial", { type: "outputs", data: ctx.outputs });
+    }
+  });
+
+  const llm = new LLMClient({
+    maxRetries: 2,
+    maxTokens: 4096,
+  });
+
+  // Stream generator text as it arrives, tagged by output type
+  const onDelta = (delta: OutputDelta) => {
+    if (!clientConnected) return;
+    sendSSE(res, "delta", delta);
+  };
+
+  // The run directory is fixed by the first checkpoint, after PARSE_JD names it
+  const onCheckpoint = (checkpoint: Checkpoint) => {
+    runDir.path ??= defaultRunDir(OUTPUT_ROOT, checkpoint.context);
+    saveCheckpoint(runDir.path, { ...checkpoint, ...sources });
+  };
+
+  // The checkpoint before REVIEW_FIT has already fixed the run directory
+  const reviewFit: FitReviewer = (fitAnalysis, _ctx, signal) => {
+    const dir = basename(runDir.path!);
+    const reviewId = randomUUID();
+    if (clientConnected) sendSSE(res, "review", { reviewId, dir, fitAnalysis });
+    return waitForReview(reviewId, signal);
+  };
+
+  const result = await start(llm, {
+    events,
+    onDelta,
+    signal: abortController.signal,
+    ...(checkpointing ? { onCheckpoint } : {}),
+    reviewFit,
+  });
+
+  const outputDir = runDir.path ?? defaultRunDir(OUTPUT_ROOT, result.context);
+  let saved: Record<string, unknown> = {};
+  if (persistence.save) {
+    saved = persistence.save(outputDir, result);
+  } else {
+    writeRunOutputs(outputDir, result.context, {
+      timestamp: new Date().toISOString(),
+      success: result.success,
+      totalDurationMs: result.totalDurationMs,
+      jdSource: sources.jdSource,
+      resumeSource: sources.resumeSource,
+      model: result.model,
+      tokenUsage: result.tokenUsage,
+      llmCalls: result.llmCalls,
+    });
+  }
+
+  if (clientConnected) {
+    if (result.context.currentState === AgentState.BUDGET_EXCEEDED) {
+      // Partial results were already streamed; the payload says where they stop
+      sendSSE(res, "budget_exceeded", {
+        error: `Run budget exceeded (${result.context.budgetExceeded!.limit}) — partial results saved`,
+        ...buildResultPayload(result, outputDir),
+        ...saved,
+      });
+    } else if (!result.success) {
+      sendSSE(res, "error", {
+        error: "Analysis pipeline failed",
+        details: result.context.errors,
+        ...(checkpointing && existsSync(join(outputDir, "checkpoint.json")) ? { resumeDir: basename(outputDir) } : {}),
+      });
+    } else {
+      sendSSE(res, "complete", { ...buildResultPayload(result, outputDir), ...saved });
+      const verdict = result.context.notRecommended ? "🚫 Not recommended" : "✅ Analysis complete";
+      console.log(`${verdict} — score: ${result.context.fitAnalysis?.overallScore}/100`);
+    }
+    res.end();
+  }
+}
+
 // --- Request Handler ---
 
 async function handler(req: http.IncomingMessage, res: http.ServerResponse) {
@@ -296,7 +560,8 @@ async function handler(req: http.IncomingMessage, res: http.ServerResponse) {
   // API: POST /api/analyze/stream (SSE)
   if (method === "POST" && url === "/api/analyze/stream") {
     try {
-      const { jdText, resumeText, jdSource, resumeSource } = await parseAnalyzeInput(req);
+      const { jdText, resumeText, jdSource, resumeSource, budget, reviewFit, minFitScore, outputs, grounding } =
+        await parseAnalyzeInput(req);
 
       if (!jdText?.trim()) {
         sendJSON(req, res, 400, { error: "Job description text is required. Provide jdText or jdUrl." });
@@ -309,95 +574,22 @@ async function handler(req: http.IncomingMessage, res: http.ServerResponse) {
 
       console.log(`\n📥 Analyze request (stream): JD ${jdText.length} chars, Resume ${resumeText.length} chars`);
 
-      initSSE(req, res);
-
-      let clientConnected = true;
-      req.on("close", () => { clientConnected = false; });
-
-      const completedStates: string[] = [];
-
-      const onStateChange = (state: AgentState, ctx: PipelineContext) => {
-        if (!clientConnected) return;
-
-        const stateStr = state as string;
-        const idx = PIPELINE_STATES.indexOf(stateStr);
-
-        if (idx >= 0) {
-          let label = STATE_LABELS[stateStr] ?? stateStr;
-          if (stateStr === "VALIDATE" && ctx.validationAttempts > 1) {
-            label = `Re-checking quality (attempt ${ctx.validationAttempts})...`;
-          }
-          if (stateStr === "GENERATE_OUTPUTS" && ctx.validationAttempts > 0) {
-            label = `Re-writing outputs (attempt ${ctx.validationAttempts + 1})...`;
-          }
-
-          // The previous state is now completed
-          if (idx > 0) {
-            const prevState = PIPELINE_STATES[idx - 1];
-            if (prevState && !completedStates.includes(prevState)) {
-              completedStates.push(prevState);
-            }
-          }
-
-          sendSSE(res, "state", {
-            state: stateStr,
-            step: idx + 1,
-            totalSteps: PIPELINE_STATES.length,
-            label,
-            completedStates: [...completedStates],
-          });
-        }
-
-        // Send partial results as each stage completes
-        if (stateStr === "PARSE_RESUME" && ctx.parsedJD) {
-          sendSSE(res, "partial", { type: "parsedJD", data: ctx.parsedJD });
-        }
-        if (stateStr === "ANALYZE_FIT" && ctx.parsedResume) {
-          sendSSE(res, "partial", { type: "parsedResume", data: ctx.parsedResume });
-        }
-        if (stateStr === "GENERATE_OUTPUTS" && ctx.fitAnalysis) {
-          sendSSE(res, "partial", { type: "fitAnalysis", data: ctx.fitAnalysis });
-        }
-        if (stateStr === "VALIDATE" && ctx.outputs) {
-          sendSSE(res, "partial", { type: "outputs", data: ctx.outputs });
-        }
-      };
-
-      const llm = new LLMClient({
-        model: "claude-sonnet-4-5-20250929",
-        maxRetries: 2,
-        maxTokens: 4096,
-      });
-
-      const result = await runOrchestrator(jdText, resumeText, llm, onStateChange);
-
-      const now = new Date();
-      const dateStr = now.toISOString().split("T")[0];
-      const company = (result.context.parsedJD?.company ?? "unknown").toLowerCase().replace(/[^a-z0-9]+/g, "-");
-      const role = (result.context.parsedJD?.role ?? "unknown").toLowerCase().replace(/[^a-z0-9]+/g, "-");
-      const outputDir = join(OUTPUT_ROOT, `${dateStr}_${company}_${role}`);
-
-      writeRunOutputs(outputDir, result.context, {
-        timestamp: now.toISOString(),
-        success: result.success,
-        totalDurationMs: result.totalDurationMs,
-        jdSource,
-        resumeSource,
-        tokenUsage: result.tokenUsage,
-      });
-
-      if (clientConnected) {
-        if (!result.success) {
-          sendSSE(res, "error", {
-            error: "Analysis pipeline failed",
-            details: result.context.errors,
-          });
-        } else {
-          sendSSE(res, "complete", buildResultPayload(result, outputDir));
-          console.log(`✅ Analysis complete — score: ${result.context.fitAnalysis?.overallScore}/100`);
-        }
-        res.end();
-      }
+      await streamRun(
+        req,
+        res,
+        (llm, options) =>
+          runOrchestrator(jdText, resumeText, llm, {
+            ...options,
+            budget,
+            routing: MODEL_ROUTING,
+            reviewFit: reviewFit ? options.reviewFit : undefined,
+            minFitScore,
+            outputs,
+            grounding,
+          }),
+        { jdSource, resumeSource },
+        { path: null }
+      );
     } catch (err: any) {
       console.error("❌ Analysis failed:", err.message);
       if (!res.headersSent) {
@@ -442,16 +634,32 @@ async function handler(req: http.IncomingMessage, res: http.ServerResponse) {
 
       let totalInput = 0;
       let totalOutput = 0;
+      let totalCacheRead = 0;
+      let totalCacheWrite = 0;
       let totalCost = 0;
       for (const run of runs) {
         totalInput += run.inputTokens ?? 0;
         totalOutput += run.outputTokens ?? 0;
+        totalCacheRead += run.cacheReadTokens ?? 0;
+        totalCacheWrite += run.cacheWriteTokens ?? 0;
         totalCost += run.cost ?? 0;
       }
 
+      const calls = runs.flatMap((run) => loadRunCalls(join(OUTPUT_ROOT, run.dir)));
+      const byModel = breakdownCosts(calls, "model");
+
       sendJSON(req, res, 200, {
         runs,
-        totals: { inputTokens: totalInput, outputTokens: totalOutput, totalCost },
+        totals: {
+          inputTokens: totalInput,
+          outputTokens: totalOutput,
+          cacheReadTokens: totalCacheRead,
+          cacheWriteTokens: totalCacheWrite,
+          cacheSavings: byModel.reduce((sum, row) => sum + row.cacheSavings, 0),
+          totalCost,
+        },
+        byModel,
+        byStage: breakdownCosts(calls, "stage"),
       });
     } catch (err: any) {
       const status = err?.statusCode && Number.isInteger(err.statusCode) ? err.statusCode : 500;
@@ -460,6 +668,156 @@ async function handler(req: http.IncomingMessage, res: http.ServerResponse) {
     return;
   }
 
+  // API: POST /api/runs/resume (SSE) — continue a run from its checkpoint
+  if (method === "POST" && url === "/api/runs/resume") {
+    try {
+      const rawBody = await readBody(req, MAX_JSON_BODY_BYTES);
+      const { dir, maxCostUsd, maxTokens, force } = JSON.parse(rawBody);
+
+      if (typeof dir !== "string" || !dir || basename(dir) !== dir) {
+        sendJSON(req, res, 400, { error: "Provide the run directory name (as listed by /api/runs) in dir." });
+        return;
+      }
+      const runDir = join(OUTPUT_ROOT, dir);
+      let checkpoint: Checkpoint;
+      try {
+        checkpoint = loadCheckpoint(runDir);
+      } catch (err: any) {
+        throw new HttpError(err instanceof CheckpointError ? 400 : 500, err.message);
+      }
+      // force lifts the fit score gate, so a not-recommended run goes on to generation
+      const minFitScore = force === true ? null : undefined;
+      const forced = checkpoint.nextState === AgentState.NOT_RECOMMENDED && minFitScore === null;
+      if (createAgentGraph().terminalStates.has(checkpoint.nextState) && !forced) {
+        throw new HttpError(409, `Nothing to resume: the run already reached ${checkpoint.nextState}`);
+      }
+      // Budget fields replace the checkpoint's budget; omit them to keep it
+      const budget = maxCostUsd !== undefined || maxTokens !== undefined
+        ? parseBudgetInput({ maxCostUsd, maxTokens })
+        : undefined;
+
+      console.log(`\n📥 Resume request (stream): ${dir} at ${checkpoint.nextState}`);
+
+      await streamRun(
+        req,
+        res,
+        (llm, options) => resumeOrchestrator(checkpoint, llm, { ...options, budget, minFitScore }),
+        { jdSource: checkpoint.jdSource ?? "checkpoint", resumeSource: checkpoint.resumeSource ?? "checkpoint" },
+        { path: runDir }
+      );
+    } catch (err: any) {
+      console.error("❌ Resume failed:", err.message);
+      if (!res.headersSent) {
+        const status = err?.statusCode && Number.isInteger(err.statusCode) ? err.statusCode : 500;
+        sendJSON(req, res, status, { error: err.message });
+      } else {
+        sendSSE(res, "error", { error: err.message });
+        res.end();
+      }
+    }
+    return;
+  }
+
+  // API: POST /api/runs/regenerate (SSE) — new versions of a saved run's outputs from its analysis.json
+  if (method === "POST" && url === "/api/runs/regenerate") {
+    try {
+      const rawBody = await readBody(req, MAX_JSON_BODY_BYTES);
+      const { dir, outputs, instructions, grounding, maxCostUsd, maxTokens } = JSON.parse(rawBody);
+
+      if (typeof dir !== "string" || !dir || basename(dir) !== dir) {
+        sendJSON(req, res, 400, { error: "Provide the run directory name (as listed by /api/runs) in dir." });
+        return;
+      }
+      if (instructions !== undefined && instructions !== null && typeof instructions !== "string") {
+        sendJSON(req, res, 400, { error: "instructions must be a string." });
+        return;
+      }
+      const runDir = join(OUTPUT_ROOT, dir);
+      let analysis: RunAnalysis;
+      try {
+        analysis = loadRunAnalysis(runDir);
+      } catch (err: any) {
+        throw new HttpError(err instanceof RunAnalysisError ? 400 : 500, err.message);
+      }
+      const selection = parseOutputsInput(outputs);
+      const budget = parseBudgetInput({ maxCostUsd, maxTokens });
+      const groundingMode = parseGroundingInput(grounding);
+
+      console.log(`\n📥 Regenerate request (stream): ${dir} (${selection?.join(", ") ?? "all outputs"})`);
+
+      await streamRun(
+        req,
+        res,
+        (llm, options) =>
+          regenerateOutputs(analysis, llm, {
+            ...options,
+            budget,
+            routing: MODEL_ROUTING,
+            outputs: selection,
+            instructions: instructions?.trim() || null,
+            grounding: groundingMode,
+          }),
+        { jdSource: "analysis.json", resumeSource: "analysis.json" },
+        { path: runDir },
+        {
+          checkpoint: false,
+          save: (outputDir, result) => ({
+            changelogEntry: writeRegeneratedOutputs(outputDir, result.context, {
+              timestamp: new Date().toISOString(),
+              success: result.success,
+              totalDurationMs: result.totalDurationMs,
+              model: result.model,
+              tokenUsage: result.tokenUsage,
+              llmCalls: result.llmCalls,
+            }),
+          }),
+        }
+      );
+    } catch (err: any) {
+      console.error("❌ Regenerate failed:", err.message);
+      if (!res.headersSent) {
+        const status = err?.statusCode && Number.isInteger(err.statusCode) ? err.statusCode : 500;
+        sendJSON(req, res, status, { error: err.message });
+      } else {
+        sendSSE(res, "error", { error: err.message });
+        res.end();
+      }
+    }
+    return;
+  }
+
+  // API: POST /api/runs/review — approve or edit the fit analysis of a run paused in REVIEW_FIT
+  if (method === "POST" && url === "/api/runs/review") {
+    try {
+      const rawBody = await readBody(req, MAX_JSON_BODY_BYTES);
+      const { reviewId, fitAnalysis } = JSON.parse(rawBody);
+
+      const submit = typeof reviewId === "string" ? PENDING_REVIEWS.get(reviewId) : undefined;
+      if (!submit) {
+        sendJSON(req, res, 404, { error: "No run is waiting for a fit review with that id." });
+        return;
+      }
+      // Omit fitAnalysis to approve it as-is
+      let reviewed: unknown = null;
+      if (fitAnalysis !== undefined && fitAnalysis !== null) {
+        try {
+          reviewed = parseFitReview(fitAnalysis);
+        } catch (err: any) {
+          if (!(err instanceof FitReviewError)) throw err;
+          sendJSON(req, res, 400, { error: err.message, issues: err.issues });
+          return;
+        }
+      }
+
+      submit(reviewed);
+      sendJSON(req, res, 200, { reviewId, status: reviewed ? "submitted" : "approved" });
+    } catch (err: any) {
+      const status = err?.statusCode && Number.isInteger(err.statusCode) ? err.statusCode : 500;
+      sendJSON(req, res, status, { error: err.message });
+    }
+    return;
+  }
+
   // API: POST /api/runs/compare
   if (method === "POST" && url === "/api/runs/compare") {
     try {
@@ -522,11 +880,32 @@ async function handler(req: http.IncomingMessage, res: http.ServerResponse) {
 
 const server = http.createServer(handler);
 
-server.listen(PORT, () => {
+async function start(): Promise<void> {
+  // Plugins first — routing may name their outputs
+  if (process.env.JOBFIT_PLUGINS) {
+    const names = await loadGeneratorPlugins(process.env.JOBFIT_PLUGINS);
+    if (names.length > 0) console.log(`🧩 Plugins: ${names.join(", ")}`);
+  }
+  MODEL_ROUTING = process.env.LLM_ROUTING ? loadModelRouting(process.env.LLM_ROUTING) : null;
+  server.listen(PORT, printBanner);
+}
+
+function printBanner(): void {
+  const replaying = process.env.LLM_CASSETTE && (process.env.LLM_CASSETTE_MODE ?? "replay") === "replay";
+  const mode = replaying
+    ? "REPLAY (cassette)"
+    : process.env.MOCK_LLM === "true"
+      ? "MOCK (no API calls)"
+      : `LIVE (${resolveProviderName(process.env.LLM_PROVIDER)} API)`;
   console.log(`\n╔══════════════════════════════════════╗`);
   console.log(`║       JobFit Agent — Web UI          ║`);
   console.log(`╠══════════════════════════════════════╣`);
   console.log(`║  http://localhost:${PORT}               ║`);
-  console.log(`║  Mode: ${process.env.MOCK_LLM === "true" ? "MOCK (no API calls)     " : "LIVE (Anthropic API)    "}  ║`);
+  console.log(`║  Mode: ${mode.padEnd(24)}  ║`);
   console.log(`╚══════════════════════════════════════╝\n`);
+}
+
+start().catch((error) => {
+  console.error(`✗ ${error.message}`);
+  process.exit(1);
 });
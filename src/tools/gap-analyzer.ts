@@ -1,12 +1,13 @@
-import { LLMClient, LLMCallResult } from "../llm/client.js";
+import { LLMClient, LLMCallResult, LLMCallOptions } from "../llm/client.js";
 import { ParsedJD, ParsedResume, FitAnalysis, FitAnalysisSchema } from "../llm/schemas.js";
 import { buildGapAnalysisPrompt } from "../llm/prompts.js";
-import { mockFitAnalysis } from "../llm/mock-data.js";
+import { mockAnalyzeFit } from "../llm/heuristic-mock.js";
 
 export async function analyzeGap(
   parsedJD: ParsedJD,
   parsedResume: ParsedResume,
-  llm: LLMClient
+  llm: LLMClient,
+  options: LLMCallOptions = {}
 ): Promise<LLMCallResult<FitAnalysis>> {
   console.log("🔍 Analyzing fit...");
 
@@ -19,7 +20,8 @@ export async function analyzeGap(
     prompt,
     FitAnalysisSchema,
     "You are an expert career advisor and technical recruiter. Analyze job fit with precision. Always respond with valid JSON only — no explanations, no markdown.",
-    mockFitAnalysis
+    () => mockAnalyzeFit(parsedJD, parsedResume),
+    options
   );
 
   const { data } = result;
@@ -0,0 +1,48 @@
+/** Text checks shared by generator validation rules */
+
+const COMPANY_STOPWORDS = new Set([
+  "inc",
+  "inc.",
+  "llc",
+  "ltd",
+  "ltd.",
+  "corp",
+  "corp.",
+  "co",
+  "co.",
+  "company",
+  "technologies",
+]);
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).length;
+}
+
+export function matchesCompanyName(content: string, company: string): boolean {
+  const normalizedContent = normalizeText(content);
+  const normalizedCompany = normalizeText(company);
+
+  if (normalizedContent.includes(normalizedCompany)) {
+    return true;
+  }
+
+  const companyTokens = normalizedCompany
+    .split(" ")
+    .filter((token) => token.length >= 3 && !COMPANY_STOPWORDS.has(token));
+
+  if (companyTokens.length === 0) {
+    return false;
+  }
+
+  if (companyTokens.length === 1) {
+    return normalizedContent.includes(companyTokens[0]);
+  }
+
+  return companyTokens[0] !== "" && companyTokens[1] !== ""
+    ? normalizedContent.includes(companyTokens[0]) && normalizedContent.includes(companyTokens[1])
+    : false;
+}
@@ -1,79 +1,69 @@
-import { LLMClient, LLMCallResult } from "../../llm/client.js";
+import { LLMClient, LLMCallResult, LLMCallOptions } from "../../llm/client.js";
 import type { ParsedJD, ParsedResume, FitAnalysis } from "../../llm/schemas.js";
+import { mockCoverLetter } from "../../llm/heuristic-mock.js";
+import { defineGenerator, runGenerator } from "./plugin.js";
+import { countWords, matchesCompanyName } from "./checks.js";
 import { z } from "zod";
 
+const MAX_COVER_LETTER_WORDS = 400;
+const MIN_COVER_LETTER_WORDS = 150;
+
 const CoverLetterSchema = z.object({
   coverLetter: z.string().describe("The full cover letter text, ready to use"),
-});
-
-const MOCK_COVER_LETTER = `Dear Hiring Manager,
-
-I'm writing to express my strong interest in the Staff Software Engineer - Platform Infrastructure role at Acme Cloud Inc. With over 7 years of experience building scalable backend systems and cloud-native applications, I'm excited about the opportunity to shape the technical direction of your platform infrastructure team.
-
-Your emphasis on engineering excellence and ownership resonates deeply with my professional values. At TechScale Inc., I led the migration from a monolithic architecture to microservices, a company-wide initiative that reduced deployment time by 70% and required defining service boundaries, reliability patterns, and deployment strategies across multiple teams. This experience directly aligns with your need for someone to lead the design of scalable, fault-tolerant distributed systems.
-
-I'm particularly drawn to three aspects of this role. First, owning the observability stack — at DataFlow Systems, I built the full monitoring infrastructure with Prometheus, Grafana, and PagerDuty, and even authored an open-source Prometheus exporter that's gained 200+ GitHub stars. Second, the platform engineering focus — I built an internal developer platform at TechScale that standardized CI/CD workflows for the engineering organization. Third, mentoring senior engineers — I've led architecture review sessions and mentored engineers through complex technical challenges.
+}).describe("A tailored cover letter");
 
-I bring hands-on expertise with much of your tech stack: Kubernetes (CKAD certified), Docker, Terraform, AWS, Kafka, PostgreSQL, and Redis. I'm eager to deepen my systems programming skills in Go to complement my existing TypeScript and Python proficiency.
+export const coverLetterGenerator = defineGenerator({
+  name: "coverLetter",
+  label: "Cover letter",
+  filename: "cover-letter.md",
+  icon: "✉️",
+  schema: CoverLetterSchema,
+  systemPrompt: "You are an expert career coach who writes compelling, authentic cover letters. Respond with JSON only.",
+  buildPrompt: ({ parsedJD }) => `Write a professional cover letter for the ${parsedJD.role} role at ${parsedJD.company}, based on the job, candidate and fit analysis above.
 
-I'd welcome the chance to discuss how my experience in distributed systems, platform engineering, and technical leadership can contribute to Acme Cloud's infrastructure team.
-
-Best regards,
-Kumar Nagarajan`;
+REQUIREMENTS:
+1. Under 400 words
+2. Address the company's top 3 required skills specifically
+3. Use the fit analysis's reframing suggestions to position experience favorably
+4. Include specific accomplishments with numbers/metrics from the candidate's experience
+5. Show genuine enthusiasm for the company/team, not generic flattery
+6. Address the job's culture signals
+7. Lead with strong matches and competitive advantages; don't dwell on gaps
+8. End with a confident but not arrogant closing
+
+Return JSON: { "coverLetter": "the full cover letter text" }`,
+  render: (data) => data.coverLetter,
+  mock: ({ parsedJD, parsedResume, fitAnalysis }) => mockCoverLetter(parsedJD, parsedResume, fitAnalysis),
+  describe: (data) => `${countWords(data.coverLetter)} words`,
+  grounded: true,
+  rules: [
+    (text) => {
+      const wordCount = countWords(text);
+      return wordCount > MAX_COVER_LETTER_WORDS
+        ? `Cover letter too long: ${wordCount} words (max ${MAX_COVER_LETTER_WORDS})`
+        : null;
+    },
+    (text) => {
+      const wordCount = countWords(text);
+      return wordCount < MIN_COVER_LETTER_WORDS
+        ? `Cover letter too short: ${wordCount} words (min ${MIN_COVER_LETTER_WORDS})`
+        : null;
+    },
+    (text, { parsedJD }) =>
+      matchesCompanyName(text, parsedJD.company) ? null : "Cover letter doesn't mention the company name",
+    (text, { parsedJD }) =>
+      parsedJD.requiredSkills.some((s) => text.toLowerCase().includes(s.name.toLowerCase()))
+        ? null
+        : "Cover letter doesn't reference any required skills from the JD",
+  ],
+});
 
 export async function generateCoverLetter(
   parsedJD: ParsedJD,
   parsedResume: ParsedResume,
   fitAnalysis: FitAnalysis,
-  llm: LLMClient
+  llm: LLMClient,
+  options: LLMCallOptions = {}
 ): Promise<LLMCallResult<string>> {
-  console.log("✉️  Generating cover letter...");
-
-  const prompt = `Write a professional cover letter for the following job application.
-
-JOB DETAILS:
-- Company: ${parsedJD.company}
-- Role: ${parsedJD.role} (${parsedJD.level} level)
-- Team: ${parsedJD.team ?? "Not specified"}
-- Top requirements: ${parsedJD.requiredSkills.map((s) => s.name).join(", ")}
-
-CANDIDATE BACKGROUND:
-- Years of experience: ${parsedResume.yearsOfExperience}
-- Current/recent role: ${parsedResume.experiences[0]?.role ?? "N/A"} at ${parsedResume.experiences[0]?.company ?? "N/A"}
-- Key skills: ${parsedResume.skills.map((s) => s.name).join(", ")}
-
-FIT ANALYSIS:
-- Overall score: ${fitAnalysis.overallScore}/100
-- Strong matches: ${fitAnalysis.strongMatches.map((m) => m.skill).join(", ")}
-- Key gaps: ${fitAnalysis.gaps.map((g) => g.skill).join(", ")}
-- Competitive advantages: ${fitAnalysis.competitiveAdvantages.join("; ")}
-
-REFRAMING SUGGESTIONS TO USE:
-${fitAnalysis.reframingSuggestions.map((r) => `- "${r.existingExperience}" → frame as: "${r.reframedAs}"`).join("\n")}
-
-REQUIREMENTS:
-1. Under 400 words
-2. Address the company's top 3 requirements specifically
-3. Use reframing suggestions to position experience favorably
-4. Include specific accomplishments with numbers/metrics
-5. Show genuine enthusiasm for the company/team, not generic flattery
-6. Address cultural fit signals: ${parsedJD.culture.join(", ")}
-7. End with a confident but not arrogant closing
-
-Return JSON: { "coverLetter": "the full cover letter text" }`;
-
-  const result = await llm.structured(
-    prompt,
-    CoverLetterSchema,
-    "You are an expert career coach who writes compelling, authentic cover letters. Respond with JSON only.",
-    { coverLetter: MOCK_COVER_LETTER }
-  );
-
-  const wordCount = result.data.coverLetter.split(/\s+/).length;
-  console.log(`  ✓ Cover letter generated (${wordCount} words, ${result.durationMs}ms)`);
-
-  return {
-    ...result,
-    data: result.data.coverLetter,
-  };
+  return runGenerator(coverLetterGenerator, { parsedJD, parsedResume, fitAnalysis, outputs: {} }, llm, options);
 }
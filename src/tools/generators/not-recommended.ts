@@ -0,0 +1,47 @@
+import type { FitAnalysis, ParsedJD } from "../../llm/schemas.js";
+import type { NotRecommended } from "../../agent/state.js";
+
+/** Why not to apply, from the fit analysis alone — no LLM call, so a gated run costs nothing more */
+export function generateNotRecommendedSummary(
+  parsedJD: ParsedJD,
+  fitAnalysis: FitAnalysis,
+  notRecommended: NotRecommended
+): string {
+  const criticalGaps = fitAnalysis.gaps.filter((gap) => gap.severity === "critical");
+
+  const lines: string[] = [];
+
+  lines.push(`# Not Recommended: ${parsedJD.role} @ ${parsedJD.company}`);
+  lines.push("");
+  lines.push(
+    `The fit score of ${notRecommended.score}/100 is below the minimum of ${notRecommended.minScore}, ` +
+      "so no cover letter, resume bullets or interview prep were generated."
+  );
+  lines.push("");
+
+  lines.push("## Deal Breakers");
+  lines.push("");
+  if (fitAnalysis.dealBreakers.length === 0) {
+    lines.push("None identified.");
+  } else {
+    for (const dealBreaker of fitAnalysis.dealBreakers) {
+      lines.push(`- ${dealBreaker}`);
+    }
+  }
+  lines.push("");
+
+  lines.push("## Critical Gaps");
+  lines.push("");
+  if (criticalGaps.length === 0) {
+    lines.push("None identified.");
+  } else {
+    for (const gap of criticalGaps) {
+      lines.push(`- **${gap.skill}:** ${gap.suggestion}`);
+    }
+  }
+  lines.push("");
+
+  lines.push("To generate anyway, run again with `--force` or a lower `--min-score`.");
+
+  return lines.join("\n").trim() + "\n";
+}
@@ -0,0 +1,117 @@
+import type { z } from "zod";
+import type { LLMClient, LLMCallResult, LLMCallOptions } from "../../llm/client.js";
+import type { ParsedJD, ParsedResume, FitAnalysis } from "../../llm/schemas.js";
+import type { GeneratedOutputs } from "../../agent/state.js";
+import { buildGenerationContext, buildInstructionsPrompt, buildRevisionPrompt } from "../../llm/prompts.js";
+
+/**
+ * Generator plugins — everything the pipeline needs to know about one
+ * generated artifact. The built-in cover letter, bullets and interview prep
+ * are declared this way too, so a plugin gets the same treatment: it runs in
+ * GENERATE_OUTPUTS, streams deltas, is validated and regenerated, is routable
+ * by name and is written to the run directory.
+ */
+
+// --- Types ---
+
+export interface GeneratorInputs {
+  parsedJD: ParsedJD;
+  parsedResume: ParsedResume;
+  fitAnalysis: FitAnalysis;
+  /** Outputs generated so far — always includes every generator listed in dependsOn */
+  outputs: Partial<GeneratedOutputs>;
+  /**
+   * Set when regenerating an output that failed validation, or a saved output
+   * the user's instructions ask to change: revise it instead of starting over
+   */
+  feedback?: GeneratorFeedback;
+  /** The user's own instructions for this generation, e.g. "more concise" */
+  instructions?: string;
+}
+
+export interface GeneratorFeedback {
+  /** This generator's text from the previous round, or its latest saved version */
+  previousOutput: string;
+  /** Its issues from validateOutputs — empty when only the instructions ask for changes */
+  issues: string[];
+}
+
+/** One quality check on a generated text — returns the issue, or null when the text passes */
+export type ValidationRule = (
+  text: string,
+  inputs: { parsedJD: ParsedJD; outputs: Partial<GeneratedOutputs> }
+) => string | null;
+
+export interface GeneratorPlugin<T extends z.ZodType = z.ZodType> {
+  /** Output key — in ctx.outputs, SSE events, routing files and the call ledger */
+  name: string;
+  /** Human-readable name, e.g. "Cover letter" — used in logs and validation issues */
+  label: string;
+  /** File written to the run directory, e.g. "cover-letter.md" */
+  filename: string;
+  /** Emoji shown when the generator starts */
+  icon?: string;
+  /** Other names an output selection (`--only`) accepts, besides the name and the filename without extension */
+  aliases?: string[];
+  /** Generators whose output this one reads — it runs after them and is regenerated with them */
+  dependsOn?: string[];
+  /** Output schema, sent as a forced tool call and validated by the LLM client */
+  schema: T;
+  systemPrompt: string;
+  /** Instructions sent after the shared JD / resume / fit-analysis context */
+  buildPrompt: (inputs: GeneratorInputs) => string;
+  /** Turn the validated result into the artifact's text */
+  render: (data: z.infer<T>, inputs: GeneratorInputs) => string;
+  /** Result used in mock mode (MOCK_LLM=true) */
+  mock: (inputs: GeneratorInputs) => z.infer<T>;
+  /** Short summary of a result for the console, e.g. "412 words" */
+  describe?: (data: z.infer<T>) => string;
+  rules?: ValidationRule[];
+  /**
+   * Check the output's numbers, employers and technologies against the resume
+   * (see agent/grounding.ts). `true` checks every line; a function picks the
+   * lines that make claims about the candidate.
+   */
+  grounded?: boolean | ((line: string) => boolean);
+}
+
+/** Identity helper so a plugin's schema types its render, mock and describe callbacks */
+export function defineGenerator<T extends z.ZodType>(plugin: GeneratorPlugin<T>): GeneratorPlugin<T> {
+  return plugin;
+}
+
+// --- Running ---
+
+/**
+ * The generator's instructions, followed by its previous output and issues
+ * when it is being revised, and by the user's instructions when given.
+ */
+export function buildGeneratorPrompt(plugin: GeneratorPlugin, inputs: GeneratorInputs): string {
+  const sections = [plugin.buildPrompt(inputs)];
+  if (inputs.feedback) sections.push(buildRevisionPrompt(inputs.feedback.previousOutput, inputs.feedback.issues));
+  if (inputs.instructions) sections.push(buildInstructionsPrompt(inputs.instructions));
+  return sections.join("\n\n");
+}
+
+export async function runGenerator<T extends z.ZodType>(
+  plugin: GeneratorPlugin<T>,
+  inputs: GeneratorInputs,
+  llm: LLMClient,
+  options: LLMCallOptions = {}
+): Promise<LLMCallResult<string>> {
+  const verb = inputs.feedback ? "Revising" : "Generating";
+  console.log(`${plugin.icon ?? "🧩"} ${verb} ${plugin.label.toLowerCase()}...`);
+
+  const result = await llm.structured(
+    buildGeneratorPrompt(plugin, inputs),
+    plugin.schema,
+    plugin.systemPrompt,
+    () => plugin.mock(inputs),
+    { ...options, context: buildGenerationContext(inputs.parsedJD, inputs.parsedResume, inputs.fitAnalysis) }
+  );
+
+  const summary = plugin.describe ? `${plugin.describe(result.data)}, ` : "";
+  console.log(`  ✓ ${plugin.label} generated (${summary}${result.durationMs}ms)`);
+
+  return { ...result, data: plugin.render(result.data, inputs) };
+}
@@ -0,0 +1,123 @@
+import { readFileSync } from "fs";
+import { basename, dirname, isAbsolute, resolve } from "path";
+import { pathToFileURL } from "url";
+import { coverLetterGenerator } from "./cover-letter.js";
+import { resumeBulletsGenerator } from "./resume-bullets.js";
+import { interviewPrepGenerator } from "./interview-prep.js";
+import type { GeneratorPlugin } from "./plugin.js";
+
+/**
+ * Generator registry — the ordered set of generators GENERATE_OUTPUTS runs.
+ * The built-ins are registered first; plugins are appended in the order they
+ * are registered, which is also a valid dependency order because a plugin may
+ * only depend on generators registered before it.
+ */
+
+const BUILT_IN_GENERATORS: GeneratorPlugin[] = [coverLetterGenerator, resumeBulletsGenerator, interviewPrepGenerator];
+
+/** Files every run directory already has — a plugin can't write over them */
+const RESERVED_FILENAMES = new Set([
+  "analysis.json",
+  "fit-report.md",
+  "metadata.json",
+  "llm-calls.jsonl",
+  "checkpoint.json",
+  "logs.json",
+]);
+
+const GENERATOR_NAME = /^[a-z][A-Za-z0-9]*$/;
+
+const GENERATORS = new Map<string, GeneratorPlugin>(BUILT_IN_GENERATORS.map((g) => [g.name, g]));
+
+// --- Registration ---
+
+export function registerGenerator(plugin: GeneratorPlugin): void {
+  const { name, filename } = plugin;
+  if (!GENERATOR_NAME.test(name ?? "")) {
+    throw new Error(`Invalid generator name: ${name}. Use a camelCase identifier, e.g. recruiterNote`);
+  }
+  if (GENERATORS.has(name)) {
+    throw new Error(`Generator ${name} is already registered`);
+  }
+  if (!filename || basename(filename) !== filename || RESERVED_FILENAMES.has(filename)) {
+    throw new Error(`Generator ${name} has an invalid filename: ${filename}`);
+  }
+  const clash = [...GENERATORS.values()].find((g) => g.filename === filename);
+  if (clash) {
+    throw new Error(`Generator ${name} writes ${filename}, which ${clash.name} already writes`);
+  }
+  for (const dependency of plugin.dependsOn ?? []) {
+    if (!GENERATORS.has(dependency)) {
+      throw new Error(`Generator ${name} depends on ${dependency}, which is not registered before it`);
+    }
+  }
+  if (typeof plugin.buildPrompt !== "function" || typeof plugin.render !== "function" || typeof plugin.mock !== "function") {
+    throw new Error(`Generator ${name} must define buildPrompt, render and mock`);
+  }
+
+  GENERATORS.set(name, plugin);
+}
+
+/** Remove a plugin generator; the built-ins can't be removed */
+export function unregisterGenerator(name: string): void {
+  if (BUILT_IN_GENERATORS.some((g) => g.name === name)) {
+    throw new Error(`Cannot unregister built-in generator ${name}`);
+  }
+  if ([...GENERATORS.values()].some((g) => g.dependsOn?.includes(name))) {
+    throw new Error(`Cannot unregister ${name}: another generator depends on it`);
+  }
+  GENERATORS.delete(name);
+}
+
+/** Registered generators in run order: built-ins first, then plugins as registered */
+export function getGenerators(): GeneratorPlugin[] {
+  return [...GENERATORS.values()];
+}
+
+export function getGenerator(name: string): GeneratorPlugin | undefined {
+  return GENERATORS.get(name);
+}
+
+// --- Loading ---
+
+/**
+ * Register the plugins listed in a JSON config file: `{ "plugins": ["./recruiter-note.js"] }`.
+ * Relative paths resolve against the config file; anything else is imported as a package.
+ * Each module's default export is a generator or an array of them.
+ */
+export async function loadGeneratorPlugins(configPath: string): Promise<string[]> {
+  let specifiers: unknown;
+  try {
+    specifiers = JSON.parse(readFileSync(configPath, "utf-8")).plugins;
+  } catch (error: any) {
+    throw new Error(`Could not read plugin config from ${configPath}: ${error.message}`);
+  }
+  if (!Array.isArray(specifiers) || specifiers.some((s) => typeof s !== "string")) {
+    throw new Error(`Plugin config ${configPath} must have a "plugins" array of module paths`);
+  }
+
+  const registered: string[] = [];
+  for (const specifier of specifiers as string[]) {
+    const isPath = specifier.startsWith(".") || isAbsolute(specifier);
+    const url = isPath ? pathToFileURL(resolve(dirname(configPath), specifier)).href : specifier;
+
+    let module: any;
+    try {
+      module = await import(url);
+    } catch (error: any) {
+      throw new Error(`Could not load generator plugin ${specifier}: ${error.message}`);
+    }
+    const exported = module.default;
+    const plugins: GeneratorPlugin[] = Array.isArray(exported) ? exported : exported ? [exported] : [];
+    if (plugins.length === 0) {
+      throw new Error(`Generator plugin ${specifier} has no default export`);
+    }
+    for (const plugin of plugins) {
+      // Already registered by an earlier load of the same module
+      if (getGenerator(plugin.name) === plugin) continue;
+      registerGenerator(plugin);
+      registered.push(plugin.name);
+    }
+  }
+  return registered;
+}
@@ -1,12 +1,13 @@
-import { LLMClient, LLMCallResult } from "../llm/client.js";
+import { LLMClient, LLMCallResult, LLMCallOptions } from "../llm/client.js";
 import { ParsedJD, ParsedJDSchema } from "../llm/schemas.js";
 import { buildJDParsingPrompt } from "../llm/prompts.js";
-import { mockParsedJD } from "../llm/mock-data.js";
+import { mockParseJD } from "../llm/heuristic-mock.js";
 import { getCached, setCache } from "../utils/cache.js";
 
 export async function parseJobDescription(
   jdText: string,
-  llm: LLMClient
+  llm: LLMClient,
+  options: LLMCallOptions = {}
 ): Promise<LLMCallResult<ParsedJD>> {
   console.log("📋 Parsing job description...");
 
@@ -14,8 +15,10 @@ export async function parseJobDescription(
     throw new Error("Job description text is empty");
   }
 
-  // Check cache first
-  const cached = getCached<LLMCallResult<ParsedJD>>("jd_parse", jdText);
+  // Check cache first (skipped while recording so the call lands in the cassette,
+  // and in mock mode so mock parses never mix with real ones)
+  const useCache = !llm.isRecording() && !llm.isMock();
+  const cached = useCache ? getCached<LLMCallResult<ParsedJD>>("jd_parse", jdText) : null;
   if (cached) return cached;
 
   const prompt = buildJDParsingPrompt(jdText);
@@ -24,7 +27,8 @@ export async function parseJobDescription(
     prompt,
     ParsedJDSchema,
     "You are an expert technical recruiter. Extract structured data from job descriptions. Always respond with valid JSON only — no explanations, no markdown.",
-    mockParsedJD
+    () => mockParseJD(jdText),
+    options
   );
 
   console.log(
@@ -35,6 +39,6 @@ export async function parseJobDescription(
   );
   console.log(`    ${result.usage.inputTokens + result.usage.outputTokens} tokens, ${result.durationMs}ms`);
 
-  setCache("jd_parse", jdText, result);
+  if (useCache) setCache("jd_parse", jdText, result);
   return result;
 }
@@ -1,12 +1,13 @@
-import { LLMClient, LLMCallResult } from "../llm/client.js";
+import { LLMClient, LLMCallResult, LLMCallOptions } from "../llm/client.js";
 import { ParsedResume, ParsedResumeSchema } from "../llm/schemas.js";
 import { buildResumeParsingPrompt } from "../llm/prompts.js";
-import { mockParsedResume } from "../llm/mock-data.js";
+import { mockParseResume } from "../llm/heuristic-mock.js";
 import { getCached, setCache } from "../utils/cache.js";
 
 export async function parseResume(
   resumeText: string,
-  llm: LLMClient
+  llm: LLMClient,
+  options: LLMCallOptions = {}
 ): Promise<LLMCallResult<ParsedResume>> {
   console.log("📄 Parsing resume...");
 
@@ -14,8 +15,10 @@ export async function parseResume(
     throw new Error("Resume text is empty");
   }
 
-  // Check cache first
-  const cached = getCached<LLMCallResult<ParsedResume>>("resume_parse", resumeText);
+  // Check cache first (skipped while recording so the call lands in the cassette,
+  // and in mock mode so mock parses never mix with real ones)
+  const useCache = !llm.isRecording() && !llm.isMock();
+  const cached = useCache ? getCached<LLMCallResult<ParsedResume>>("resume_parse", resumeText) : null;
   if (cached) return cached;
 
   const prompt = buildResumeParsingPrompt(resumeText);
@@ -24,7 +27,8 @@ export async function parseResume(
     prompt,
     ParsedResumeSchema,
     "You are an expert resume analyst. Extract structured data from resumes. Always respond with valid JSON only — no explanations, no markdown.",
-    mockParsedResume
+    () => mockParseResume(resumeText),
+    options
   );
 
   console.log(
@@ -35,6 +39,6 @@ export async function parseResume(
   );
   console.log(`    ${result.usage.inputTokens + result.usage.outputTokens} tokens, ${result.durationMs}ms`);
 
-  setCache("resume_parse", resumeText, result);
+  if (useCache) setCache("resume_parse", resumeText, result);
   return result;
 }
@@ -1,9 +1,13 @@
-import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
 import { join } from "path";
-import type { PipelineContext } from "../agent/state.js";
-import type { TokenUsageSummary } from "../llm/client.js";
+import { randomBytes } from "crypto";
+import { usageByStage, type PipelineContext, type ValidationResult } from "../agent/state.js";
+import type { LLMCallRecord, TokenUsageSummary } from "../llm/client.js";
 import { logger } from "./logger.js";
 import { generateFitReport } from "../tools/generators/fit-report.js";
+import { generateNotRecommendedSummary } from "../tools/generators/not-recommended.js";
+import { selectedGenerators } from "../agent/output-selection.js";
+import { getGenerators } from "../tools/generators/registry.js";
 
 export interface WriteRunOutputsMeta {
   timestamp: string;
@@ -11,7 +15,42 @@ export interface WriteRunOutputsMeta {
   totalDurationMs: number;
   jdSource: string;
   resumeSource: string;
+  model: string;
   tokenUsage: TokenUsageSummary;
+  llmCalls: LLMCallRecord[];
+}
+
+export type WriteRegeneratedOutputsMeta = Pick<
+  WriteRunOutputsMeta,
+  "timestamp" | "success" | "totalDurationMs" | "model" | "tokenUsage" | "llmCalls"
+>;
+
+/** One `jobfit regenerate` of a saved run, as recorded in its metadata.json `changelog` */
+export interface RunChangelogEntry {
+  timestamp: string;
+  success: boolean;
+  /** File each regenerated output was written to, keyed by generator name */
+  files: Record<string, string>;
+  requestedOutputs: string[] | null;
+  instructions: string | null;
+  validation: ValidationResult | null;
+  validationAttempts: number;
+  model: string;
+  tokenUsage: TokenUsageSummary;
+  totalDurationMs: number;
+  errors: string[];
+}
+
+/**
+ * Run directory under `root`, named `<date>_<company>_<role>_<time>-<id>` from the parsed JD.
+ * The UTC time and random id keep two runs for the same job — even concurrent ones — apart.
+ */
+export function defaultRunDir(root: string, ctx: PipelineContext, date = new Date()): string {
+  const [dateStr, timeStr] = date.toISOString().split("T");
+  const company = (ctx.parsedJD?.company ?? "unknown").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  const role = (ctx.parsedJD?.role ?? "unknown").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  const suffix = `${timeStr.slice(0, 8).replace(/:/g, "")}-${randomBytes(3).toString("hex")}`;
+  return join(root, `${dateStr}_${company}_${role}_${suffix}`);
 }
 
 export function writeRunOutputs(
@@ -34,17 +73,30 @@ export function writeRunOutputs(
 
   if (ctx.parsedJD && ctx.fitAnalysis) {
     writeFileSync(join(outputDir, "fit-report.md"), generateFitReport(ctx.parsedJD, ctx.fitAnalysis));
+    if (ctx.notRecommended) {
+      writeFileSync(
+        join(outputDir, "not-recommended.md"),
+        generateNotRecommendedSummary(ctx.parsedJD, ctx.fitAnalysis, ctx.notRecommended)
+      );
+    }
   }
-  if (ctx.outputs.coverLetter) {
-    writeFileSync(join(outputDir, "cover-letter.md"), ctx.outputs.coverLetter);
-  }
-  if (ctx.outputs.tailoredBullets) {
-    writeFileSync(join(outputDir, "tailored-bullets.md"), ctx.outputs.tailoredBullets);
+  // A gated run resumed with --force no longer has a reason not to apply
+  if (!ctx.notRecommended) {
+    rmSync(join(outputDir, "not-recommended.md"), { force: true });
   }
-  if (ctx.outputs.interviewPrep) {
-    writeFileSync(join(outputDir, "interview-prep.md"), ctx.outputs.interviewPrep);
+  // Drop artifacts an earlier run left behind for outputs this run did not produce
+  const selected = new Set(selectedGenerators(ctx).map((generator) => generator.name));
+  for (const generator of getGenerators()) {
+    const text = selected.has(generator.name) ? ctx.outputs[generator.name] : null;
+    if (text) {
+      writeFileSync(join(outputDir, generator.filename), text);
+    } else {
+      rmSync(join(outputDir, generator.filename), { force: true });
+    }
   }
 
+  // A resumed run rewrites metadata.json, but regenerations saved beside it stay listed
+  const changelog = readChangelog(outputDir);
   writeFileSync(
     join(outputDir, "metadata.json"),
     JSON.stringify(
@@ -54,15 +106,124 @@ export function writeRunOutputs(
         totalDurationMs: meta.totalDurationMs,
         jdSource: meta.jdSource,
         resumeSource: meta.resumeSource,
+        model: meta.model,
         tokenUsage: meta.tokenUsage,
         stateHistory: ctx.stateHistory,
+        usageByStage: usageByStage(ctx.stateHistory),
+        llmRetries: ctx.llmRetries,
+        budget: ctx.budget,
+        budgetExceeded: ctx.budgetExceeded,
+        routing: ctx.routing,
+        cancelled: ctx.cancelled,
+        fitReview: ctx.fitReview,
+        requestedOutputs: ctx.requestedOutputs,
+        minFitScore: ctx.minFitScore,
+        notRecommended: ctx.notRecommended,
+        grounding: ctx.grounding,
         validation: ctx.validation,
+        regenerations: ctx.regenerations,
         errors: ctx.errors,
+        ...(changelog.length > 0 && { changelog }),
       },
       null,
       2
     )
   );
 
+  // One JSON object per line, so runs can be aggregated without loading everything
+  writeFileSync(
+    join(outputDir, "llm-calls.jsonl"),
+    meta.llmCalls.map((call) => JSON.stringify(call) + "\n").join("")
+  );
+
   logger.saveTo(join(outputDir, "logs.json"));
 }
+
+/** Next versioned name for a file in the run directory: cover-letter.md → cover-letter.v2.md, .v3, ... — after the highest one saved */
+export function nextVersionFilename(outputDir: string, filename: string): string {
+  return versionFilename(filename, (highestVersion(outputDir, filename) ?? 1) + 1);
+}
+
+/** Newest version of a file in the run directory — the original when never regenerated, null when missing */
+export function latestVersionFilename(outputDir: string, filename: string): string | null {
+  const version = highestVersion(outputDir, filename);
+  if (version === null) return null;
+  return version === 1 ? filename : versionFilename(filename, version);
+}
+
+/** Highest saved version of a file, counting the original as 1 — null when there is none */
+function highestVersion(outputDir: string, filename: string): number | null {
+  if (!existsSync(outputDir)) return null;
+  const { stem, ext } = splitFilename(filename);
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const versioned = new RegExp(`^${escape(stem)}\\.v(\\d+)${escape(ext)}$`);
+
+  let highest: number | null = null;
+  for (const name of readdirSync(outputDir)) {
+    const version = name === filename ? 1 : Number(name.match(versioned)?.[1] ?? NaN);
+    if (version >= 1 && (highest === null || version > highest)) highest = version;
+  }
+  return highest;
+}
+
+function readChangelog(outputDir: string): RunChangelogEntry[] {
+  const metadataPath = join(outputDir, "metadata.json");
+  if (!existsSync(metadataPath)) return [];
+  return JSON.parse(readFileSync(metadataPath, "utf-8")).changelog ?? [];
+}
+
+function versionFilename(filename: string, version: number): string {
+  const { stem, ext } = splitFilename(filename);
+  return `${stem}.v${version}${ext}`;
+}
+
+function splitFilename(filename: string): { stem: string; ext: string } {
+  const dot = filename.lastIndexOf(".");
+  return dot > 0 ? { stem: filename.slice(0, dot), ext: filename.slice(dot) } : { stem: filename, ext: "" };
+}
+
+/**
+ * Save a regeneration next to the run it came from: each new output gets the
+ * next versioned filename, its calls are appended to llm-calls.jsonl, and an
+ * entry is appended to the `changelog` in metadata.json. Nothing is overwritten.
+ */
+export function writeRegeneratedOutputs(
+  outputDir: string,
+  ctx: PipelineContext,
+  meta: WriteRegeneratedOutputsMeta
+): RunChangelogEntry {
+  const files: Record<string, string> = {};
+  for (const generator of selectedGenerators(ctx)) {
+    const text = ctx.outputs[generator.name];
+    if (!text) continue;
+    const filename = nextVersionFilename(outputDir, generator.filename);
+    writeFileSync(join(outputDir, filename), text);
+    files[generator.name] = filename;
+  }
+
+  const entry: RunChangelogEntry = {
+    timestamp: meta.timestamp,
+    success: meta.success,
+    files,
+    requestedOutputs: ctx.requestedOutputs,
+    instructions: ctx.instructions,
+    validation: ctx.validation,
+    validationAttempts: ctx.validationAttempts,
+    model: meta.model,
+    tokenUsage: meta.tokenUsage,
+    totalDurationMs: meta.totalDurationMs,
+    errors: ctx.errors,
+  };
+
+  const metadataPath = join(outputDir, "metadata.json");
+  const metadata = existsSync(metadataPath) ? JSON.parse(readFileSync(metadataPath, "utf-8")) : {};
+  metadata.changelog = [...(metadata.changelog ?? []), entry];
+  writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
+
+  appendFileSync(
+    join(outputDir, "llm-calls.jsonl"),
+    meta.llmCalls.map((call) => JSON.stringify(call) + "\n").join("")
+  );
+
+  return entry;
+}
@@ -1,5 +1,13 @@
 import { existsSync, readFileSync, readdirSync } from "fs";
 import { join } from "path";
+import type { LLMCallRecord } from "../llm/client.js";
+import { estimateCacheSavings } from "../llm/pricing.js";
+import { FitAnalysisSchema, ParsedJDSchema, ParsedResumeSchema } from "../llm/schemas.js";
+import type { FitAnalysis, ParsedJD, ParsedResume } from "../llm/schemas.js";
+import type { GeneratedOutputs } from "../agent/state.js";
+import { loadCheckpoint, CheckpointError } from "../agent/checkpoint.js";
+import { getGenerators } from "../tools/generators/registry.js";
+import { latestVersionFilename } from "./output-writer.js";
 
 export interface RunSummary {
   dir: string;
@@ -11,6 +19,8 @@ export interface RunSummary {
   cost: number | null;
   inputTokens: number | null;
   outputTokens: number | null;
+  cacheReadTokens: number | null;
+  cacheWriteTokens: number | null;
 }
 
 export function loadAllRuns(outputRoot: string): RunSummary[] {
@@ -44,6 +54,8 @@ export function loadAllRuns(outputRoot: string): RunSummary[] {
         cost: meta.tokenUsage?.estimatedCost ?? null,
         inputTokens: meta.tokenUsage?.totalInputTokens ?? null,
         outputTokens: meta.tokenUsage?.totalOutputTokens ?? null,
+        cacheReadTokens: meta.tokenUsage?.totalCacheReadTokens ?? null,
+        cacheWriteTokens: meta.tokenUsage?.totalCacheWriteTokens ?? null,
       });
     } catch {
       // Skip malformed entries
@@ -53,8 +65,144 @@ export function loadAllRuns(outputRoot: string): RunSummary[] {
   return runs;
 }
 
+/** What a saved run's analysis.json holds — everything a generator needs — plus what else the run kept */
+export interface RunAnalysis {
+  parsedJD: ParsedJD;
+  parsedResume: ParsedResume;
+  fitAnalysis: FitAnalysis;
+  /** Raw inputs from checkpoint.json, for grounding — absent when the run kept no checkpoint */
+  jdText?: string;
+  resumeText?: string;
+  /** Latest saved version of each registered generator's output, by generator name */
+  previousOutputs?: Partial<GeneratedOutputs>;
+}
+
+export class RunAnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RunAnalysisError";
+  }
+}
+
+/** Read and validate a run's analysis.json, so its outputs can be regenerated without re-parsing */
+export function loadRunAnalysis(runDir: string): RunAnalysis {
+  const path = join(runDir, "analysis.json");
+  if (!existsSync(path)) {
+    throw new RunAnalysisError(`No analysis.json found in ${runDir}`);
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new RunAnalysisError(`Could not read ${path}: ${error.message}`);
+  }
+
+  // A run that failed early saved null for whatever it didn't reach
+  const invalid = (field: string) =>
+    new RunAnalysisError(`${path} has no valid ${field}: the run must have completed its fit analysis`);
+  const parsedJD = ParsedJDSchema.safeParse(raw?.parsedJD);
+  if (!parsedJD.success) throw invalid("parsedJD");
+  const parsedResume = ParsedResumeSchema.safeParse(raw?.parsedResume);
+  if (!parsedResume.success) throw invalid("parsedResume");
+  const fitAnalysis = FitAnalysisSchema.safeParse(raw?.fitAnalysis);
+  if (!fitAnalysis.success) throw invalid("fitAnalysis");
+
+  return {
+    parsedJD: parsedJD.data,
+    parsedResume: parsedResume.data,
+    fitAnalysis: fitAnalysis.data,
+    ...loadRunInputs(runDir),
+    previousOutputs: loadLatestOutputs(runDir),
+  };
+}
+
+/** The run's raw JD and resume text from its checkpoint; {} when there is none to read */
+function loadRunInputs(runDir: string): { jdText?: string; resumeText?: string } {
+  try {
+    const { context } = loadCheckpoint(runDir);
+    return { jdText: context.jdText, resumeText: context.resumeText };
+  } catch (error) {
+    if (error instanceof CheckpointError) return {};
+    throw error;
+  }
+}
+
+function loadLatestOutputs(runDir: string): Partial<GeneratedOutputs> {
+  const outputs: Partial<GeneratedOutputs> = {};
+  for (const generator of getGenerators()) {
+    const filename = latestVersionFilename(runDir, generator.filename);
+    if (filename) outputs[generator.name] = readFileSync(join(runDir, filename), "utf-8");
+  }
+  return outputs;
+}
+
+/** Read a run's llm-calls.jsonl ledger; runs from before the ledger existed return [] */
+export function loadRunCalls(runDir: string): LLMCallRecord[] {
+  const ledgerPath = join(runDir, "llm-calls.jsonl");
+  if (!existsSync(ledgerPath)) return [];
+
+  const calls: LLMCallRecord[] = [];
+  for (const line of readFileSync(ledgerPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      calls.push(JSON.parse(line));
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return calls;
+}
+
+export type CostDimension = "model" | "stage";
+
+export interface CostBreakdownRow {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number;
+  /** Net saving from prompt caching, priced per call's model */
+  cacheSavings: number;
+}
+
+/** Sum ledger entries by model or pipeline stage, most expensive first */
+export function breakdownCosts(calls: LLMCallRecord[], by: CostDimension): CostBreakdownRow[] {
+  const rows = new Map<string, CostBreakdownRow>();
+
+  for (const call of calls) {
+    const key = call[by];
+    const row = rows.get(key) ?? {
+      key,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      cost: 0,
+      cacheSavings: 0,
+    };
+    // Ledgers written before prompt caching have no cache fields
+    const cacheReadTokens = call.cacheReadTokens ?? 0;
+    const cacheWriteTokens = call.cacheWriteTokens ?? 0;
+    row.calls++;
+    row.inputTokens += call.inputTokens;
+    row.outputTokens += call.outputTokens;
+    row.cacheReadTokens += cacheReadTokens;
+    row.cacheWriteTokens += cacheWriteTokens;
+    row.cost += call.costUsd;
+    row.cacheSavings += estimateCacheSavings(call.model, { cacheReadTokens, cacheWriteTokens });
+    rows.set(key, row);
+  }
+
+  return [...rows.values()].sort((a, b) => b.cost - a.cost);
+}
+
 function extractFromDir(dir: string, field: "company" | "role"): string {
-  const parts = dir.split("_");
+  // Drop the `<time>-<id>` suffix newer run directories end with
+  const parts = dir.replace(/_\d{6}-[0-9a-f]{6}$/, "").split("_");
   if (parts.length < 3) return "Unknown";
   if (field === "company") return parts[1].replace(/-/g, " ");
   return parts.slice(2).join(" ").replace(/-/g, " ");
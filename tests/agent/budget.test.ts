@@ -0,0 +1,234 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, readFileSync, existsSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runGraph } from "../../src/agent/graph.js";
+import type { AgentGraph, NodeHandler } from "../../src/agent/graph.js";
+import { parseRunBudget } from "../../src/agent/budget.js";
+import { AgentState, addTokenUsage, createPipelineContext } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import { writeRunOutputs } from "../../src/utils/output-writer.js";
+import { mockParsedJD, mockFitAnalysis } from "../../src/llm/mock-data.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+/** Each node "spends" 1,000 input + 1,000 output tokens ($0.01); VALIDATE retries once */
+function spendingGraph(executed: AgentState[]): AgentGraph {
+  const spend = (state: AgentState, next: AgentState): NodeHandler => async (ctx) => {
+    executed.push(state);
+    addTokenUsage(ctx, 1_000, 1_000, 0.01);
+    return next;
+  };
+  let validations = 0;
+
+  return {
+    nodes: new Map<AgentState, NodeHandler>([
+      [AgentState.PARSE_JD, spend(AgentState.PARSE_JD, AgentState.PARSE_RESUME)],
+      [AgentState.PARSE_RESUME, spend(AgentState.PARSE_RESUME, AgentState.GENERATE_OUTPUTS)],
+      [AgentState.GENERATE_OUTPUTS, spend(AgentState.GENERATE_OUTPUTS, AgentState.VALIDATE)],
+      [AgentState.VALIDATE, async (ctx) => {
+        executed.push(AgentState.VALIDATE);
+        addTokenUsage(ctx, 1_000, 1_000, 0.01);
+        validations++;
+        return validations < 2 ? AgentState.GENERATE_OUTPUTS : AgentState.DONE;
+      }],
+    ]),
+    edges: [
+      { from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME },
+      { from: AgentState.PARSE_RESUME, to: AgentState.GENERATE_OUTPUTS },
+      { from: AgentState.GENERATE_OUTPUTS, to: AgentState.VALIDATE },
+      { from: AgentState.VALIDATE, to: AgentState.GENERATE_OUTPUTS },
+      { from: AgentState.VALIDATE, to: AgentState.DONE },
+    ],
+    terminalStates: new Set([AgentState.DONE, AgentState.ERROR, AgentState.BUDGET_EXCEEDED]),
+  };
+}
+
+describe("parseRunBudget", () => {
+  it("returns null when no limits are given", () => {
+    expect(parseRunBudget({})).toBeNull();
+    expect(parseRunBudget({ maxCostUsd: "", maxTokens: undefined })).toBeNull();
+  });
+
+  it("accepts numbers and numeric strings", () => {
+    expect(parseRunBudget({ maxCostUsd: "0.25", maxTokens: 5000 })).toEqual({ maxCostUsd: 0.25, maxTokens: 5000 });
+  });
+
+  it("rejects non-positive or non-numeric limits", () => {
+    expect(() => parseRunBudget({ maxCostUsd: "abc" })).toThrow("maxCostUsd must be a positive number");
+    expect(() => parseRunBudget({ maxCostUsd: 0 })).toThrow("maxCostUsd");
+    expect(() => parseRunBudget({ maxTokens: 1.5 })).toThrow("maxTokens must be a positive integer");
+  });
+});
+
+describe("runGraph budget enforcement", () => {
+  it("runs to completion when the budget is not reached", async () => {
+    const executed: AgentState[] = [];
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.budget = { maxTokens: 100_000 };
+
+    await runGraph(spendingGraph(executed), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(ctx.currentState).toBe(AgentState.DONE);
+    expect(ctx.budgetExceeded).toBeNull();
+  });
+
+  it("stops before the next node once maxTokens is reached", async () => {
+    const executed: AgentState[] = [];
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.budget = { maxTokens: 2_000 };
+
+    await runGraph(spendingGraph(executed), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(executed).toEqual([AgentState.PARSE_JD]);
+    expect(ctx.currentState).toBe(AgentState.BUDGET_EXCEEDED);
+    expect(ctx.budgetExceeded).toEqual({
+      limit: "maxTokens",
+      node: AgentState.PARSE_JD,
+      skippedNode: AgentState.PARSE_RESUME,
+      spentUsd: expect.any(Number),
+      spentTokens: 2_000,
+    });
+    expect(ctx.stateHistory.map((entry) => entry.state)).not.toContain(AgentState.PARSE_RESUME);
+  });
+
+  it("stops before a validation retry", async () => {
+    const executed: AgentState[] = [];
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.budget = { maxTokens: 7_000 };
+
+    await runGraph(spendingGraph(executed), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(executed).toEqual([
+      AgentState.PARSE_JD,
+      AgentState.PARSE_RESUME,
+      AgentState.GENERATE_OUTPUTS,
+      AgentState.VALIDATE,
+    ]);
+    expect(ctx.budgetExceeded).toMatchObject({
+      node: AgentState.VALIDATE,
+      skippedNode: AgentState.GENERATE_OUTPUTS,
+    });
+  });
+
+  it("enforces maxCostUsd against the run's estimated cost", async () => {
+    const executed: AgentState[] = [];
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.budget = { maxCostUsd: 0.015 };
+
+    await runGraph(spendingGraph(executed), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(executed).toEqual([AgentState.PARSE_JD, AgentState.PARSE_RESUME]);
+    expect(ctx.budgetExceeded).toMatchObject({ limit: "maxCostUsd", node: AgentState.PARSE_RESUME });
+  });
+
+  it("counts calls billed by a failed attempt before retrying the node", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi.fn(async () => ({ text: "ok", usage: { inputTokens: 1_000, outputTokens: 1_000 } }));
+    const llm = new LLMClient({
+      provider: { name: "openai", defaultModel: "gpt-4o-mini", apiKeyEnv: "K", send },
+      baseDelayMs: 0,
+    });
+    // The call is billed, but the handler throws before recording it on ctx
+    const handler: NodeHandler = async (_ctx, client) => {
+      await client.complete("prompt");
+      throw new Error("unparseable answer");
+    };
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.budget = { maxTokens: 2_000 };
+
+    await runGraph(
+      {
+        nodes: new Map([[AgentState.PARSE_JD, handler]]),
+        edges: [],
+        terminalStates: new Set([AgentState.DONE, AgentState.ERROR, AgentState.BUDGET_EXCEEDED]),
+        policies: { [AgentState.PARSE_JD]: { maxAttempts: 3, backoff: { initialMs: 0 } } },
+      },
+      ctx,
+      llm,
+      AgentState.PARSE_JD
+    );
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(ctx.tokenUsage).toMatchObject({ inputTokens: 0, outputTokens: 0 });
+    expect(ctx.budgetExceeded).toMatchObject({ limit: "maxTokens", skippedNode: AgentState.PARSE_JD, spentTokens: 2_000 });
+  });
+
+  it("counts prompt-cache reads and writes against maxTokens", async () => {
+    process.env.MOCK_LLM = "false";
+    const usage = { inputTokens: 100, outputTokens: 100, cacheReadTokens: 1_500, cacheWriteTokens: 300 };
+    const llm = new LLMClient({
+      provider: { name: "anthropic", defaultModel: "test-model", apiKeyEnv: "K", send: vi.fn(async () => ({ text: "ok", usage })) },
+      baseDelayMs: 0,
+    });
+    const call: NodeHandler = async (ctx, client) => {
+      const result = await client.complete("prompt");
+      addTokenUsage(ctx, result.usage.inputTokens, result.usage.outputTokens, result.costUsd, 1_800);
+      return AgentState.PARSE_RESUME;
+    };
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.budget = { maxTokens: 2_000 };
+
+    await runGraph(
+      {
+        nodes: new Map([[AgentState.PARSE_JD, call], [AgentState.PARSE_RESUME, call]]),
+        edges: [{ from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME }],
+        terminalStates: new Set([AgentState.DONE, AgentState.ERROR, AgentState.BUDGET_EXCEEDED]),
+      },
+      ctx,
+      llm,
+      AgentState.PARSE_JD
+    );
+
+    expect(ctx.budgetExceeded).toMatchObject({ limit: "maxTokens", skippedNode: AgentState.PARSE_RESUME, spentTokens: 2_000 });
+  });
+});
+
+describe("budget-exceeded run outputs", () => {
+  it("persists partial outputs and records the node that hit the limit", () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-budget-"));
+    try {
+      const ctx = createPipelineContext("jd", "resume");
+      ctx.parsedJD = mockParsedJD;
+      ctx.fitAnalysis = mockFitAnalysis;
+      ctx.budget = { maxCostUsd: 0.01 };
+      ctx.budgetExceeded = {
+        limit: "maxCostUsd",
+        node: AgentState.ANALYZE_FIT,
+        skippedNode: AgentState.GENERATE_OUTPUTS,
+        spentUsd: 0.012,
+        spentTokens: 2_400,
+      };
+      ctx.currentState = AgentState.BUDGET_EXCEEDED;
+
+      writeRunOutputs(dir, ctx, {
+        timestamp: new Date().toISOString(),
+        success: false,
+        totalDurationMs: 10,
+        jdSource: "test",
+        resumeSource: "test",
+        model: "claude-sonnet-4-5-20250929",
+        tokenUsage: { totalInputTokens: 1_200, totalOutputTokens: 1_200, totalCalls: 3, estimatedCost: 0.012 },
+        llmCalls: [],
+      });
+
+      expect(existsSync(join(dir, "analysis.json"))).toBe(true);
+      expect(existsSync(join(dir, "fit-report.md"))).toBe(true);
+      expect(existsSync(join(dir, "cover-letter.md"))).toBe(false);
+
+      const meta = JSON.parse(readFileSync(join(dir, "metadata.json"), "utf-8"));
+      expect(meta.success).toBe(false);
+      expect(meta.budget).toEqual({ maxCostUsd: 0.01 });
+      expect(meta.budgetExceeded.node).toBe(AgentState.ANALYZE_FIT);
+      expect(meta.budgetExceeded.skippedNode).toBe(AgentState.GENERATE_OUTPUTS);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
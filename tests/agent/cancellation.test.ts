@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { runGraph } from "../../src/agent/graph.js";
+import type { AgentGraph, NodeHandler } from "../../src/agent/graph.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import { AgentState, createPipelineContext } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import type { LLMProvider, ProviderRequest } from "../../src/llm/provider.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+/** Provider call that only settles when its request signal aborts */
+function hangUntilAborted(request: ProviderRequest): Promise<never> {
+  return new Promise((_, reject) => {
+    request.signal?.addEventListener("abort", () => reject(request.signal!.reason), { once: true });
+  });
+}
+
+function makeProvider(send: ReturnType<typeof vi.fn>): LLMProvider {
+  return { name: "anthropic", defaultModel: "claude-sonnet-4-5", apiKeyEnv: "TEST_API_KEY", send };
+}
+
+describe("runGraph cancellation", () => {
+  it("does not start any node when the signal is already aborted", async () => {
+    const executed: AgentState[] = [];
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([
+        [AgentState.PARSE_JD, async () => { executed.push(AgentState.PARSE_JD); return AgentState.DONE; }],
+      ]),
+      edges: [{ from: AgentState.PARSE_JD, to: AgentState.DONE }],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR, AgentState.CANCELLED]),
+    };
+    const ctx = createPipelineContext("jd", "resume");
+    const controller = new AbortController();
+    controller.abort(new Error("stop"));
+
+    await runGraph(graph, ctx, makeMockLLM(), AgentState.PARSE_JD, { signal: controller.signal });
+
+    expect(executed).toEqual([]);
+    expect(ctx.currentState).toBe(AgentState.CANCELLED);
+    expect(ctx.cancelled).toMatchObject({ node: AgentState.PARSE_JD, reason: "stop" });
+  });
+
+  it("ends in CANCELLED rather than ERROR when a node fails because of the abort", async () => {
+    const controller = new AbortController();
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([
+        [AgentState.PARSE_JD, async () => AgentState.PARSE_RESUME],
+        [AgentState.PARSE_RESUME, async (_ctx, _llm, options) => {
+          controller.abort(new Error("Client disconnected"));
+          options.signal!.throwIfAborted();
+          return AgentState.DONE;
+        }],
+      ]),
+      edges: [
+        { from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME },
+        { from: AgentState.PARSE_RESUME, to: AgentState.DONE },
+      ],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR, AgentState.CANCELLED]),
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(graph, ctx, makeMockLLM(), AgentState.PARSE_JD, { signal: controller.signal });
+
+    expect(ctx.currentState).toBe(AgentState.CANCELLED);
+    expect(ctx.cancelled).toMatchObject({ node: AgentState.PARSE_RESUME, reason: "Client disconnected" });
+    expect(ctx.errors).toEqual([]);
+  });
+});
+
+describe("LLMClient cancellation", () => {
+  it("passes the signal to the provider and stops when the in-flight request is aborted", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi.fn(hangUntilAborted);
+    const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 3, baseDelayMs: 0 });
+    const controller = new AbortController();
+
+    const call = llm.structured("prompt", z.object({ foo: z.string() }), undefined, undefined, {
+      signal: controller.signal,
+    });
+    controller.abort(new Error("cancelled"));
+
+    await expect(call).rejects.toThrow("cancelled");
+    expect(send).toHaveBeenCalledTimes(1);
+    // The request carries a per-attempt signal that follows the caller's
+    expect(send.mock.calls[0][0].signal.aborted).toBe(true);
+  });
+
+  it("aborts a pending retry sleep instead of waiting it out", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi.fn().mockRejectedValue(Object.assign(new Error("overloaded"), { status: 529 }));
+    const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 3, baseDelayMs: 60_000 });
+    const controller = new AbortController();
+
+    const started = Date.now();
+    const call = llm.structured("prompt", z.object({ foo: z.string() }), undefined, undefined, {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(new Error("cancelled")), 20);
+
+    await expect(call).rejects.toThrow("cancelled");
+    expect(Date.now() - started).toBeLessThan(5_000);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runOrchestrator cancellation", () => {
+  it("records partial token usage from attempts completed before the abort", async () => {
+    process.env.MOCK_LLM = "false";
+    const controller = new AbortController();
+    // First attempt returns bad JSON (billed), the repair attempt hangs until cancelled
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce({ text: "{not-json", usage: { inputTokens: 1_000, outputTokens: 200 } })
+      .mockImplementationOnce((request: ProviderRequest) => {
+        setTimeout(() => controller.abort(new Error("Client disconnected")), 0);
+        return hangUntilAborted(request);
+      });
+    const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 2, baseDelayMs: 0 });
+
+    const result = await runOrchestrator(
+      "Cancellation test: Staff Engineer at Nowhere Inc.",
+      "Cancellation test resume",
+      llm,
+      // One call at a time, so the scripted responses all go to PARSE_JD
+      { signal: controller.signal, execution: "sequential" }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.context.currentState).toBe(AgentState.CANCELLED);
+    expect(result.context.cancelled).toMatchObject({
+      node: AgentState.PARSE_JD,
+      reason: "Client disconnected",
+      spentTokens: 1_200,
+    });
+    expect(result.context.cancelled!.spentUsd).toBeGreaterThan(0);
+    expect(result.tokenUsage.totalCalls).toBe(1);
+    expect(result.llmCalls[0]).toMatchObject({ stage: AgentState.PARSE_JD, inputTokens: 1_000 });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
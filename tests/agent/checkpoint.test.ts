@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, writeFileSync, rmSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import {
+  CHECKPOINT_VERSION,
+  CheckpointError,
+  checkpointPath,
+  createCheckpoint,
+  loadCheckpoint,
+  saveCheckpoint,
+  type Checkpoint,
+} from "../../src/agent/checkpoint.js";
+import { PipelineEvents } from "../../src/agent/events.js";
+import { runGraph } from "../../src/agent/graph.js";
+import type { AgentGraph, NodeHandler } from "../../src/agent/graph.js";
+import { runOrchestrator, resumeOrchestrator } from "../../src/agent/orchestrator.js";
+import { AgentState, createPipelineContext } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import { mockParsedJD } from "../../src/llm/mock-data.js";
+import { defaultRunDir } from "../../src/utils/output-writer.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+const tempDirs: string[] = [];
+function tempRunDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), "jobfit-checkpoint-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+describe("checkpoint files", () => {
+  it("round-trips a checkpoint through the run directory", () => {
+    const dir = tempRunDir();
+    const ctx = createPipelineContext("jd", "resume");
+    const checkpoint = { ...createCheckpoint(ctx, AgentState.PARSE_RESUME, []), jdSource: "jd.txt" };
+
+    saveCheckpoint(dir, checkpoint);
+
+    expect(loadCheckpoint(dir)).toEqual(checkpoint);
+    expect(existsSync(`${checkpointPath(dir)}.tmp`)).toBe(false);
+  });
+
+  it("rejects missing, unversioned and other-version checkpoints", () => {
+    const dir = tempRunDir();
+    expect(() => loadCheckpoint(dir)).toThrow(CheckpointError);
+
+    const checkpoint = createCheckpoint(createPipelineContext("jd", "resume"), AgentState.PARSE_RESUME, []);
+    writeFileSync(checkpointPath(dir), JSON.stringify({ ...checkpoint, version: undefined }));
+    expect(() => loadCheckpoint(dir)).toThrow("has no schema version");
+
+    writeFileSync(checkpointPath(dir), JSON.stringify({ ...checkpoint, version: CHECKPOINT_VERSION + 1 }));
+    expect(() => loadCheckpoint(dir)).toThrow(`schema version ${CHECKPOINT_VERSION + 1}`);
+
+    writeFileSync(checkpointPath(dir), JSON.stringify({ ...checkpoint, nextState: "SOMEWHERE" }));
+    expect(() => loadCheckpoint(dir)).toThrow("invalid nextState");
+  });
+});
+
+describe("defaultRunDir", () => {
+  it("gives two runs of the same job in the same second their own directories", () => {
+    const ctx = { ...createPipelineContext("jd", "resume"), parsedJD: { ...mockParsedJD, company: "Acme Corp", role: "Staff SWE" } };
+    const date = new Date("2026-02-18T14:32:05.000Z");
+
+    const first = defaultRunDir("output", ctx, date);
+    const second = defaultRunDir("output", ctx, date);
+
+    expect(first).toMatch(/^output\/2026-02-18_acme-corp_staff-swe_143205-[0-9a-f]{6}$/);
+    expect(second).not.toBe(first);
+  });
+});
+
+describe("runGraph checkpoints", () => {
+  it("snapshots the context after every node that completes, but not after a failure", async () => {
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([
+        [AgentState.PARSE_JD, async (ctx) => { ctx.errors.push("marker"); return AgentState.PARSE_RESUME; }],
+        [AgentState.PARSE_RESUME, async () => AgentState.ANALYZE_FIT],
+        [AgentState.ANALYZE_FIT, async () => { throw new Error("boom"); }],
+      ]),
+      edges: [
+        { from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME },
+        { from: AgentState.PARSE_RESUME, to: AgentState.ANALYZE_FIT },
+      ],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
+    };
+    const checkpoints: Checkpoint[] = [];
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(graph, ctx, makeMockLLM(), AgentState.PARSE_JD, {
+      onCheckpoint: (checkpoint) => checkpoints.push(checkpoint),
+    });
+
+    expect(ctx.currentState).toBe(AgentState.ERROR);
+    expect(checkpoints.map((c) => c.nextState)).toEqual([AgentState.PARSE_RESUME, AgentState.ANALYZE_FIT]);
+    expect(checkpoints[1].context.currentState).toBe(AgentState.PARSE_RESUME);
+    // A snapshot, not the live context
+    expect(checkpoints[0].context.errors).toEqual(["marker"]);
+    expect(ctx.errors).toHaveLength(2);
+  });
+
+  it("keeps running when saving a checkpoint fails", async () => {
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([[AgentState.PARSE_JD, async () => AgentState.DONE]]),
+      edges: [{ from: AgentState.PARSE_JD, to: AgentState.DONE }],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(graph, ctx, makeMockLLM(), AgentState.PARSE_JD, {
+      onCheckpoint: () => { throw new Error("disk full"); },
+    });
+
+    expect(ctx.currentState).toBe(AgentState.DONE);
+  });
+});
+
+describe("resumeOrchestrator", () => {
+  it("resumes a cancelled run at the node it stopped in without redoing earlier nodes", async () => {
+    const dir = tempRunDir();
+    const controller = new AbortController();
+    const events = new PipelineEvents();
+    events.on("nodeStarted", ({ node }) => {
+      if (node === AgentState.GENERATE_OUTPUTS) controller.abort(new Error("stop"));
+    });
+    const first = await runOrchestrator(jdText, resumeText, makeMockLLM(), {
+      events,
+      signal: controller.signal,
+      onCheckpoint: (checkpoint) => saveCheckpoint(dir, checkpoint),
+    });
+    expect(first.context.currentState).toBe(AgentState.CANCELLED);
+
+    const checkpoint = loadCheckpoint(dir);
+    expect(checkpoint.nextState).toBe(AgentState.GENERATE_OUTPUTS);
+
+    const states: AgentState[] = [];
+    const resumedEvents = new PipelineEvents();
+    resumedEvents.on("nodeStarted", ({ node }) => states.push(node));
+    const resumed = await resumeOrchestrator(checkpoint, makeMockLLM(), {
+      events: resumedEvents,
+      onCheckpoint: (next) => saveCheckpoint(dir, next),
+    });
+
+    expect(resumed.success).toBe(true);
+    expect(states[0]).toBe(AgentState.GENERATE_OUTPUTS);
+    expect(states).not.toContain(AgentState.PARSE_JD);
+    expect(resumed.context.parsedJD).toEqual(first.context.parsedJD);
+    expect(resumed.context.cancelled).toBeNull();
+    expect(resumed.context.outputs.coverLetter).toBeTruthy();
+    expect(loadCheckpoint(dir).nextState).toBe(AgentState.DONE);
+  });
+
+  it("carries the earlier LLM calls into the resumed ledger", async () => {
+    const checkpoint = createCheckpoint(createPipelineContext(jdText, resumeText), AgentState.PARSE_JD, [
+      {
+        timestamp: "2026-01-01T00:00:00.000Z",
+        stage: AgentState.PARSE_JD,
+        model: "m",
+        attempt: 0,
+        inputTokens: 100,
+        outputTokens: 10,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0.5,
+        durationMs: 1,
+      },
+    ]);
+
+    const result = await resumeOrchestrator(checkpoint, makeMockLLM());
+
+    expect(result.llmCalls[0].costUsd).toBe(0.5);
+    expect(result.tokenUsage.estimatedCost).toBeCloseTo(0.5);
+  });
+
+  it("refuses to resume a finished run", async () => {
+    const checkpoint = createCheckpoint(createPipelineContext("jd", "resume"), AgentState.DONE, []);
+    await expect(resumeOrchestrator(checkpoint, makeMockLLM())).rejects.toThrow("Nothing to resume");
+  });
+});
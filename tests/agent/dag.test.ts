@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { runGraph, createAgentGraph } from "../../src/agent/graph.js";
+import type { AgentGraph, NodeHandler } from "../../src/agent/graph.js";
+import { concurrentNodes, resolveExecutionMode } from "../../src/agent/dag.js";
+import type { Checkpoint } from "../../src/agent/checkpoint.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import { AgentState, createPipelineContext, type StateHistoryEntry } from "../../src/agent/state.js";
+import { LLMClient, sleep } from "../../src/llm/client.js";
+import { mockParsedJD, mockParsedResume } from "../../src/llm/mock-data.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+/** PARSE_JD → PARSE_RESUME → ANALYZE_FIT → DONE, with the agent graph's dependencies */
+function parsingGraph(handlers: Partial<Record<AgentState, NodeHandler>>): AgentGraph {
+  return {
+    nodes: new Map<AgentState, NodeHandler>([
+      [AgentState.PARSE_JD, handlers.PARSE_JD ?? (async () => AgentState.PARSE_RESUME)],
+      [AgentState.PARSE_RESUME, handlers.PARSE_RESUME ?? (async () => AgentState.ANALYZE_FIT)],
+      [AgentState.ANALYZE_FIT, handlers.ANALYZE_FIT ?? (async () => AgentState.DONE)],
+    ]),
+    edges: [
+      { from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME },
+      { from: AgentState.PARSE_RESUME, to: AgentState.ANALYZE_FIT },
+      { from: AgentState.ANALYZE_FIT, to: AgentState.DONE },
+    ],
+    terminalStates: new Set([AgentState.DONE, AgentState.ERROR, AgentState.BUDGET_EXCEEDED, AgentState.CANCELLED]),
+    dependencies: createAgentGraph().dependencies,
+  };
+}
+
+function span(history: StateHistoryEntry[], state: AgentState): { start: number; end: number } {
+  const entry = history.find((e) => e.state === state)!;
+  return { start: entry.timestamp, end: entry.timestamp + entry.durationMs! };
+}
+
+describe("concurrentNodes", () => {
+  it("groups the two parses and keeps dependent nodes apart", () => {
+    const graph = createAgentGraph();
+
+    expect(concurrentNodes(graph, AgentState.PARSE_JD)).toEqual([AgentState.PARSE_JD, AgentState.PARSE_RESUME]);
+    expect(concurrentNodes(graph, AgentState.PARSE_RESUME)).toEqual([AgentState.PARSE_RESUME]);
+    expect(concurrentNodes(graph, AgentState.ANALYZE_FIT)).toEqual([AgentState.ANALYZE_FIT]);
+    expect(concurrentNodes(graph, AgentState.GENERATE_OUTPUTS)).toEqual([AgentState.GENERATE_OUTPUTS]);
+  });
+
+  it("defaults to DAG mode only for graphs that declare dependencies", () => {
+    const graph = createAgentGraph();
+    expect(resolveExecutionMode(graph)).toBe("dag");
+    expect(resolveExecutionMode(graph, "sequential")).toBe("sequential");
+    expect(resolveExecutionMode({ ...graph, dependencies: undefined })).toBe("sequential");
+  });
+});
+
+describe("runGraph DAG execution", () => {
+  const slowParses: Partial<Record<AgentState, NodeHandler>> = {
+    PARSE_JD: async (ctx) => { await sleep(50); ctx.parsedJD = mockParsedJD; return AgentState.PARSE_RESUME; },
+    PARSE_RESUME: async (ctx) => { await sleep(50); ctx.parsedResume = mockParsedResume; return AgentState.ANALYZE_FIT; },
+  };
+
+  it("runs independent nodes concurrently and records overlapping spans", async () => {
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(parsingGraph(slowParses), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(ctx.currentState).toBe(AgentState.DONE);
+    expect(ctx.stateHistory.map((e) => e.state)).toEqual([
+      AgentState.INTAKE,
+      AgentState.PARSE_JD,
+      AgentState.PARSE_RESUME,
+      AgentState.ANALYZE_FIT,
+      AgentState.DONE,
+    ]);
+    const jd = span(ctx.stateHistory, AgentState.PARSE_JD);
+    const resume = span(ctx.stateHistory, AgentState.PARSE_RESUME);
+    expect(resume.start).toBeLessThan(jd.end);
+    expect(span(ctx.stateHistory, AgentState.ANALYZE_FIT).start).toBeGreaterThanOrEqual(Math.max(jd.end, resume.end));
+  });
+
+  it("keeps the sequential runner as an option", async () => {
+    const ctx = createPipelineContext("jd", "resume");
+    const started = Date.now();
+
+    await runGraph(parsingGraph(slowParses), ctx, makeMockLLM(), AgentState.PARSE_JD, { execution: "sequential" });
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(95);
+    expect(span(ctx.stateHistory, AgentState.PARSE_RESUME).start).toBeGreaterThanOrEqual(
+      span(ctx.stateHistory, AgentState.PARSE_JD).end
+    );
+  });
+
+  it("lets every node of the group settle, then fails with each finished node checkpointed", async () => {
+    let resumeFinished = false;
+    const checkpoints: Checkpoint[] = [];
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(
+      parsingGraph({
+        PARSE_JD: async () => { throw new Error("bad posting"); },
+        PARSE_RESUME: async () => { await sleep(20); resumeFinished = true; return AgentState.ANALYZE_FIT; },
+      }),
+      ctx,
+      makeMockLLM(),
+      AgentState.PARSE_JD,
+      { onCheckpoint: (checkpoint) => checkpoints.push(checkpoint) }
+    );
+
+    expect(resumeFinished).toBe(true);
+    expect(ctx.currentState).toBe(AgentState.ERROR);
+    expect(ctx.errors).toEqual(["PARSE_JD: bad posting"]);
+    expect(checkpoints.map((checkpoint) => checkpoint.nextState)).toEqual([AgentState.PARSE_JD]);
+  });
+
+  it("resumes after the node that finished when its sibling fails", async () => {
+    const checkpoints: Checkpoint[] = [];
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(
+      parsingGraph({
+        PARSE_JD: async (ctx) => { ctx.parsedJD = mockParsedJD; return AgentState.PARSE_RESUME; },
+        PARSE_RESUME: async () => { await sleep(20); throw new Error("unreadable resume"); },
+      }),
+      ctx,
+      makeMockLLM(),
+      AgentState.PARSE_JD,
+      { onCheckpoint: (checkpoint) => checkpoints.push(checkpoint) }
+    );
+
+    expect(ctx.currentState).toBe(AgentState.ERROR);
+    expect(checkpoints).toHaveLength(1);
+    expect(checkpoints[0].nextState).toBe(AgentState.PARSE_RESUME);
+    expect(checkpoints[0].context.parsedJD).toEqual(mockParsedJD);
+  });
+
+  it("retries a node without undoing the work of the node beside it", async () => {
+    let calls = 0;
+    const graph = parsingGraph({
+      PARSE_JD: async (ctx) => {
+        await sleep(10);
+        ctx.parsedJD = mockParsedJD;
+        if (++calls === 1) throw new Error("transient");
+        return AgentState.PARSE_RESUME;
+      },
+      PARSE_RESUME: async (ctx) => { ctx.parsedResume = mockParsedResume; return AgentState.ANALYZE_FIT; },
+    });
+    graph.policies = { [AgentState.PARSE_JD]: { maxAttempts: 2 } };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(graph, ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(ctx.currentState).toBe(AgentState.DONE);
+    expect(ctx.parsedResume).toEqual(mockParsedResume);
+    expect(ctx.stateHistory.find((e) => e.state === AgentState.PARSE_JD)!.attempts).toHaveLength(2);
+  });
+
+  it("records each node's model on its own entry in a full run", async () => {
+    const checkpoints: Checkpoint[] = [];
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), {
+      onCheckpoint: (checkpoint) => checkpoints.push(checkpoint),
+    });
+
+    expect(result.success).toBe(true);
+    const history = result.context.stateHistory;
+    expect(Object.keys(history.find((e) => e.state === AgentState.PARSE_JD)!.models!)).toEqual([AgentState.PARSE_JD]);
+    expect(Object.keys(history.find((e) => e.state === AgentState.PARSE_RESUME)!.models!)).toEqual([AgentState.PARSE_RESUME]);
+    // A checkpoint once the first parse finishes — resuming at the other one — then one per node
+    expect([AgentState.PARSE_JD, AgentState.PARSE_RESUME]).toContain(checkpoints[0].nextState);
+    expect(checkpoints[1].nextState).toBe(AgentState.ANALYZE_FIT);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { runGraph } from "../../src/agent/graph.js";
+import type { AgentGraph, NodeHandler } from "../../src/agent/graph.js";
+import type { Checkpoint } from "../../src/agent/checkpoint.js";
+import { PipelineEvents, type PipelineEventMap } from "../../src/agent/events.js";
+import { runOrchestrator, resumeOrchestrator } from "../../src/agent/orchestrator.js";
+import { AgentState, createPipelineContext } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import type { LLMProvider, ProviderRequest } from "../../src/llm/provider.js";
+import { mockParsedJD, mockParsedResume, mockFitAnalysis } from "../../src/llm/mock-data.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+/** Answers every stage with mock data; the first fit analysis doesn't parse */
+function makeProvider(): LLMProvider {
+  let fitCalls = 0;
+  const answer = (request: ProviderRequest): string => {
+    if (request.system.includes("technical recruiter. Extract")) return JSON.stringify(mockParsedJD);
+    if (request.system.includes("resume analyst")) return JSON.stringify(mockParsedResume);
+    if (request.system.includes("career advisor")) return ++fitCalls === 1 ? "not json" : JSON.stringify(mockFitAnalysis);
+    if (request.system.includes("cover letters")) return JSON.stringify({ coverLetter: "Dear Acme Cloud team" });
+    if (request.system.includes("resume writer")) return JSON.stringify({ bullets: [] });
+    return JSON.stringify({ technicalQuestions: [], behavioralQuestions: [], questionsToAsk: [] });
+  };
+  return {
+    name: "anthropic",
+    defaultModel: "test-model",
+    apiKeyEnv: "TEST_API_KEY",
+    send: vi.fn(async (request: ProviderRequest) => ({
+      text: answer(request),
+      usage: { inputTokens: 10, outputTokens: 5 },
+    })),
+  };
+}
+
+/** Records every event by name, in order */
+function record(events: PipelineEvents): Array<[keyof PipelineEventMap, any]> {
+  const seen: Array<[keyof PipelineEventMap, any]> = [];
+  const names: Array<keyof PipelineEventMap> = [
+    "nodeStarted",
+    "nodeCompleted",
+    "llmCallStarted",
+    "llmCallFinished",
+    "retryScheduled",
+    "validationIssue",
+    "artifactProduced",
+    "runFinished",
+  ];
+  for (const name of names) events.on(name, (event) => seen.push([name, event]));
+  return seen;
+}
+
+describe("PipelineEvents", () => {
+  it("delivers events until a listener unsubscribes", () => {
+    const events = new PipelineEvents();
+    const nodes: AgentState[] = [];
+    const unsubscribe = events.on("nodeStarted", ({ node }) => nodes.push(node));
+    const ctx = createPipelineContext("jd", "resume");
+
+    events.emit("nodeStarted", { node: AgentState.PARSE_JD, ctx });
+    unsubscribe();
+    events.emit("nodeStarted", { node: AgentState.PARSE_RESUME, ctx });
+
+    expect(nodes).toEqual([AgentState.PARSE_JD]);
+  });
+
+  it("keeps running when a listener throws", async () => {
+    const events = new PipelineEvents();
+    events.on("nodeStarted", () => { throw new Error("broken listener"); });
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([[AgentState.PARSE_JD, async () => AgentState.DONE]]),
+      edges: [{ from: AgentState.PARSE_JD, to: AgentState.DONE }],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(graph, ctx, makeMockLLM(), AgentState.PARSE_JD, { events });
+
+    expect(ctx.currentState).toBe(AgentState.DONE);
+    expect(ctx.errors).toEqual([]);
+  });
+});
+
+describe("runGraph events", () => {
+  it("brackets each node with nodeStarted and nodeCompleted and ends with runFinished", async () => {
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([
+        [AgentState.PARSE_JD, async () => AgentState.PARSE_RESUME],
+        [AgentState.PARSE_RESUME, async () => AgentState.DONE],
+      ]),
+      edges: [
+        { from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME },
+        { from: AgentState.PARSE_RESUME, to: AgentState.DONE },
+      ],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
+    };
+    const events = new PipelineEvents();
+    const seen = record(events);
+
+    await runGraph(graph, createPipelineContext("jd", "resume"), makeMockLLM(), AgentState.PARSE_JD, { events });
+
+    expect(seen.map(([name, event]) => `${name}:${event.node ?? event.state}`)).toEqual([
+      "nodeStarted:PARSE_JD",
+      "nodeCompleted:PARSE_JD",
+      "nodeStarted:PARSE_RESUME",
+      "nodeCompleted:PARSE_RESUME",
+      "runFinished:DONE",
+    ]);
+    expect(seen[1][1]).toMatchObject({ nextState: AgentState.PARSE_RESUME, tokens: { input: 0, output: 0 }, costUsd: 0 });
+  });
+
+  it("reports a node retry before the next attempt", async () => {
+    let calls = 0;
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([
+        [AgentState.PARSE_JD, async () => {
+          if (++calls === 1) throw new Error("transient");
+          return AgentState.DONE;
+        }],
+      ]),
+      edges: [{ from: AgentState.PARSE_JD, to: AgentState.DONE }],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
+      policies: { [AgentState.PARSE_JD]: { maxAttempts: 2 } },
+    };
+    const events = new PipelineEvents();
+    const retries: PipelineEventMap["retryScheduled"][] = [];
+    events.on("retryScheduled", (retry) => retries.push(retry));
+
+    await runGraph(graph, createPipelineContext("jd", "resume"), makeMockLLM(), AgentState.PARSE_JD, { events });
+
+    expect(retries).toEqual([
+      { scope: "node", node: AgentState.PARSE_JD, attempt: 2, delayMs: 0, error: "transient" },
+    ]);
+  });
+});
+
+describe("runOrchestrator events", () => {
+  it("reports LLM calls, their retries and the tokens each node spent", async () => {
+    process.env.MOCK_LLM = "false";
+    const events = new PipelineEvents();
+    const seen = record(events);
+    const llm = new LLMClient({ provider: makeProvider(), baseDelayMs: 0 });
+
+    const result = await runOrchestrator(`Events JD ${Date.now()}`, `Events resume ${Date.now()}`, llm, { events });
+
+    expect(result.success).toBe(true);
+    const analyze = seen.filter(([, event]) => event.node === AgentState.ANALYZE_FIT);
+    expect(analyze.map(([name]) => name)).toEqual([
+      "nodeStarted",
+      "llmCallStarted",
+      "llmCallFinished",
+      "retryScheduled",
+      "llmCallStarted",
+      "llmCallFinished",
+      "nodeCompleted",
+    ]);
+    expect(analyze[2][1].error).toBeTruthy();
+    expect(analyze[3][1]).toMatchObject({ scope: "llm", stage: AgentState.ANALYZE_FIT, attempt: 1, delayMs: 0 });
+    // Both attempts were paid for
+    expect(analyze[6][1].tokens).toEqual({ input: 20, output: 10 });
+    const entry = result.context.stateHistory.find((e) => e.state === AgentState.ANALYZE_FIT)!;
+    expect(entry.usage).toMatchObject({ calls: 2, inputTokens: 20, outputTokens: 10 });
+    expect(seen[seen.length - 1]).toEqual(["runFinished", expect.objectContaining({ state: AgentState.DONE })]);
+  });
+
+  it("reports every artifact and validation issue", async () => {
+    const events = new PipelineEvents();
+    const seen = record(events);
+
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), { events });
+
+    const artifacts = seen.filter(([name]) => name === "artifactProduced").map(([, event]) => event.name);
+    expect(artifacts).toEqual(
+      expect.arrayContaining(["parsedJD", "parsedResume", "fitAnalysis", "coverLetter", "tailoredBullets", "interviewPrep"])
+    );
+    const issues = seen.filter(([name]) => name === "validationIssue").map(([, event]) => event.issue);
+    const expected = Object.values(result.context.validation!.byOutput).flatMap((output) => output.issues);
+    expect(issues.slice(-expected.length)).toEqual(expected);
+  });
+
+  it("replays a checkpoint's artifacts as restored when resuming", async () => {
+    const checkpoints: Checkpoint[] = [];
+    await runOrchestrator(jdText, resumeText, makeMockLLM(), {
+      onCheckpoint: (checkpoint) => checkpoints.push(checkpoint),
+    });
+    const afterAnalysis = checkpoints.find((checkpoint) => checkpoint.nextState === AgentState.GENERATE_OUTPUTS)!;
+    const events = new PipelineEvents();
+    const artifacts: PipelineEventMap["artifactProduced"][] = [];
+    events.on("artifactProduced", (artifact) => artifacts.push(artifact));
+
+    await resumeOrchestrator(afterAnalysis, makeMockLLM(), { events });
+
+    expect(artifacts.filter((artifact) => artifact.restored).map((artifact) => artifact.name)).toEqual([
+      "parsedJD",
+      "parsedResume",
+      "fitAnalysis",
+    ]);
+    expect(artifacts.filter((artifact) => !artifact.restored).every((artifact) => artifact.kind === "output")).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { runOrchestrator, resumeOrchestrator } from "../../src/agent/orchestrator.js";
+import type { Checkpoint } from "../../src/agent/checkpoint.js";
+import { checkFitScore, parseMinFitScore } from "../../src/agent/fit-gate.js";
+import { AgentState, createPipelineContext } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import { mockParsedJD, mockFitAnalysis } from "../../src/llm/mock-data.js";
+import { generateNotRecommendedSummary } from "../../src/tools/generators/not-recommended.js";
+import { writeRunOutputs } from "../../src/utils/output-writer.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+describe("parseMinFitScore", () => {
+  it("treats a missing value as no gate and accepts scores from 0 to 100", () => {
+    expect(parseMinFitScore(undefined)).toBeNull();
+    expect(parseMinFitScore("")).toBeNull();
+    expect(parseMinFitScore("60")).toBe(60);
+    expect(parseMinFitScore(0)).toBe(0);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseMinFitScore("high")).toThrow("minFitScore must be a number from 0 to 100");
+    expect(() => parseMinFitScore(101)).toThrow("minFitScore must be a number from 0 to 100");
+    expect(() => parseMinFitScore(-1)).toThrow("minFitScore must be a number from 0 to 100");
+  });
+});
+
+describe("checkFitScore", () => {
+  it("stops only scores below the minimum", () => {
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.fitAnalysis = { ...mockFitAnalysis, overallScore: 59 };
+
+    expect(checkFitScore(ctx)).toBeNull();
+    ctx.minFitScore = 60;
+    expect(checkFitScore(ctx)).toEqual({ score: 59, minScore: 60 });
+    ctx.minFitScore = 59;
+    expect(checkFitScore(ctx)).toBeNull();
+  });
+});
+
+describe("generateNotRecommendedSummary", () => {
+  it("lists the deal breakers and only the critical gaps", () => {
+    const summary = generateNotRecommendedSummary(mockParsedJD, mockFitAnalysis, { score: 40, minScore: 60 });
+
+    expect(summary).toContain(`# Not Recommended: ${mockParsedJD.role} @ ${mockParsedJD.company}`);
+    expect(summary).toContain("The fit score of 40/100 is below the minimum of 60");
+    for (const dealBreaker of mockFitAnalysis.dealBreakers) {
+      expect(summary).toContain(`- ${dealBreaker}`);
+    }
+    for (const gap of mockFitAnalysis.gaps) {
+      expect(summary.includes(`- **${gap.skill}:**`)).toBe(gap.severity === "critical");
+    }
+  });
+});
+
+describe("fit score gate in the pipeline", () => {
+  it("ends a run below the minimum in NOT_RECOMMENDED without generating", async () => {
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), { minFitScore: 100 });
+
+    expect(result.success).toBe(true);
+    expect(result.context.currentState).toBe(AgentState.NOT_RECOMMENDED);
+    expect(result.context.notRecommended).toEqual({ score: result.context.fitAnalysis!.overallScore, minScore: 100 });
+    expect(Object.values(result.context.outputs).every((text) => text === null)).toBe(true);
+    expect(result.context.stateHistory.map((e) => e.state)).not.toContain(AgentState.GENERATE_OUTPUTS);
+  });
+
+  it("generates as usual when the score passes or the gate is lifted", async () => {
+    const passed = await runOrchestrator(jdText, resumeText, makeMockLLM(), { minFitScore: 0 });
+    const forced = await runOrchestrator(jdText, resumeText, makeMockLLM(), { minFitScore: null });
+
+    for (const result of [passed, forced]) {
+      expect(result.context.currentState).toBe(AgentState.DONE);
+      expect(result.context.notRecommended).toBeNull();
+      expect(result.context.outputs.coverLetter).toBeTruthy();
+    }
+  });
+
+  it("gates the reviewed analysis, not the original", async () => {
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), {
+      minFitScore: 50,
+      reviewFit: async (fitAnalysis) => ({ ...fitAnalysis, overallScore: 30 }),
+    });
+
+    expect(result.context.currentState).toBe(AgentState.NOT_RECOMMENDED);
+    expect(result.context.notRecommended).toEqual({ score: 30, minScore: 50 });
+  });
+
+  it("resumes a not-recommended run into generation once the gate is lifted", async () => {
+    const checkpoints: Checkpoint[] = [];
+    await runOrchestrator(jdText, resumeText, makeMockLLM(), {
+      minFitScore: 100,
+      onCheckpoint: (checkpoint) => checkpoints.push(checkpoint),
+    });
+    const checkpoint = checkpoints[checkpoints.length - 1];
+    expect(checkpoint.nextState).toBe(AgentState.NOT_RECOMMENDED);
+
+    await expect(resumeOrchestrator(checkpoint, makeMockLLM())).rejects.toThrow(/Nothing to resume/);
+
+    const resumed = await resumeOrchestrator(checkpoint, makeMockLLM(), { minFitScore: null });
+    expect(resumed.context.currentState).toBe(AgentState.DONE);
+    expect(resumed.context.notRecommended).toBeNull();
+    expect(resumed.context.outputs.coverLetter).toBeTruthy();
+  });
+
+  it("writes the analysis, the fit report and why not to apply", async () => {
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), { minFitScore: 100 });
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-gate-"));
+    try {
+      writeRunOutputs(dir, result.context, {
+        timestamp: new Date().toISOString(),
+        success: result.success,
+        totalDurationMs: result.totalDurationMs,
+        jdSource: "test",
+        resumeSource: "test",
+        model: result.model,
+        tokenUsage: result.tokenUsage,
+        llmCalls: result.llmCalls,
+      });
+
+      expect(existsSync(join(dir, "analysis.json"))).toBe(true);
+      expect(existsSync(join(dir, "fit-report.md"))).toBe(true);
+      expect(readFileSync(join(dir, "not-recommended.md"), "utf-8")).toContain("# Not Recommended:");
+      expect(existsSync(join(dir, "cover-letter.md"))).toBe(false);
+      const metadata = JSON.parse(readFileSync(join(dir, "metadata.json"), "utf-8"));
+      expect(metadata.notRecommended.minScore).toBe(100);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
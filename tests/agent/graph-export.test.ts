@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { createAgentGraph } from "../../src/agent/graph.js";
+import { renderGraph } from "../../src/agent/graph-export.js";
+import { AgentState, type StateHistoryEntry } from "../../src/agent/state.js";
+
+/** A run that regenerated once after validation, then finished */
+const history: StateHistoryEntry[] = [
+  { state: AgentState.INTAKE, timestamp: 0, durationMs: 5 },
+  { state: AgentState.PARSE_JD, timestamp: 5, durationMs: 1_200, models: { PARSE_JD: "claude-haiku-4-5" } },
+  { state: AgentState.PARSE_RESUME, timestamp: 1_205, durationMs: 900 },
+  { state: AgentState.ANALYZE_FIT, timestamp: 2_105, durationMs: 2_000 },
+  { state: AgentState.GENERATE_OUTPUTS, timestamp: 4_105, durationMs: 3_000 },
+  { state: AgentState.VALIDATE, timestamp: 7_105, durationMs: 10, guard: "failed, attempts left" },
+  { state: AgentState.GENERATE_OUTPUTS, timestamp: 7_115, durationMs: 1_500 },
+  { state: AgentState.VALIDATE, timestamp: 8_615, durationMs: 10, guard: "passed" },
+  { state: AgentState.DONE, timestamp: 8_625 },
+];
+
+describe("renderGraph", () => {
+  it("renders declared edges and guard names as Mermaid", () => {
+    const mermaid = renderGraph(createAgentGraph(), "mermaid");
+
+    expect(mermaid.startsWith("flowchart TD\n")).toBe(true);
+    expect(mermaid).toContain('  INTAKE(["INTAKE"])');
+    expect(mermaid).toContain('  PARSE_JD["PARSE_JD"]');
+    expect(mermaid).toContain("  PARSE_JD --> PARSE_RESUME");
+    expect(mermaid).toContain('  VALIDATE -->|"failed, attempts left"| GENERATE_OUTPUTS');
+    expect(mermaid).toContain('  VALIDATE -->|"passed"| DONE');
+    expect(mermaid).toContain('  ERROR(["ERROR"])');
+  });
+
+  it("renders the same graph as DOT", () => {
+    const dot = renderGraph(createAgentGraph(), "dot");
+
+    expect(dot.startsWith("digraph jobfit {\n")).toBe(true);
+    expect(dot).toContain('  DONE [label="DONE", shape=oval, peripheries=2];');
+    expect(dot).toContain("  PARSE_JD -> PARSE_RESUME;");
+    expect(dot).toContain('  VALIDATE -> DONE [label="failed, attempts exhausted"];');
+    expect(dot.trimEnd().endsWith("}")).toBe(true);
+  });
+
+  it("annotates a run's path with steps, visits, durations and models", () => {
+    const mermaid = renderGraph(createAgentGraph(), "mermaid", history);
+
+    expect(mermaid).toContain('  PARSE_JD["PARSE_JD<br/>1.2s<br/>claude-haiku-4-5"]');
+    expect(mermaid).toContain('  GENERATE_OUTPUTS["GENERATE_OUTPUTS<br/>×2 · 4.5s"]');
+    expect(mermaid).toContain('  GENERATE_OUTPUTS ==>|"#5, #7"| VALIDATE');
+    expect(mermaid).toContain('  VALIDATE ==>|"#6 · failed, attempts left"| GENERATE_OUTPUTS');
+    // Two VALIDATE → DONE edges: the recorded guard says which one was taken
+    expect(mermaid).toContain('  VALIDATE ==>|"#8 · passed"| DONE');
+    expect(mermaid).toContain('  VALIDATE -.->|"failed, attempts exhausted"| DONE');
+    expect(mermaid).toContain("  class REVIEW_FIT,ERROR,BUDGET_EXCEEDED,CANCELLED,NOT_RECOMMENDED unvisited");
+  });
+
+  it("draws the runner's exit to a terminal state when a run fails", () => {
+    const failed: StateHistoryEntry[] = [
+      ...history.slice(0, 4),
+      { state: AgentState.ERROR, timestamp: 4_105 },
+    ];
+    const dot = renderGraph(createAgentGraph(), "dot", failed);
+
+    expect(dot).toContain('  ANALYZE_FIT -> ERROR [label="#4", penwidth=2, color=red];');
+    expect(dot).toContain('  ANALYZE_FIT -> GENERATE_OUTPUTS [label="no review, score ok", style=dashed, color=gray];');
+    expect(dot).toContain('  VALIDATE [label="VALIDATE", style=dashed, color=gray, fontcolor=gray];');
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi } from "vitest";
 import { runGraph, createAgentGraph } from "../../src/agent/graph.js";
 import type { AgentGraph, NodeHandler } from "../../src/agent/graph.js";
-import { AgentState, createPipelineContext } from "../../src/agent/state.js";
+import { AgentState, createPipelineContext, type PipelineContext } from "../../src/agent/state.js";
+import { PipelineEvents } from "../../src/agent/events.js";
 import { LLMClient } from "../../src/llm/client.js";
 
 // Suppress console output during tests
@@ -24,6 +25,10 @@ describe("runGraph", () => {
 
     const graph: AgentGraph = {
       nodes: new Map(handlers),
+      edges: [
+        { from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME },
+        { from: AgentState.PARSE_RESUME, to: AgentState.DONE },
+      ],
       terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
     };
 
@@ -50,6 +55,11 @@ describe("runGraph", () => {
           return attempts < 2 ? AgentState.GENERATE_OUTPUTS : AgentState.DONE;
         }],
       ]),
+      edges: [
+        { from: AgentState.GENERATE_OUTPUTS, to: AgentState.VALIDATE },
+        { from: AgentState.VALIDATE, to: AgentState.GENERATE_OUTPUTS },
+        { from: AgentState.VALIDATE, to: AgentState.DONE },
+      ],
       terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
     };
 
@@ -67,6 +77,7 @@ describe("runGraph", () => {
       nodes: new Map<AgentState, NodeHandler>([
         [AgentState.PARSE_JD, async () => { throw new Error("LLM failed"); }],
       ]),
+      edges: [],
       terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
     };
 
@@ -82,6 +93,7 @@ describe("runGraph", () => {
   it("throws when no handler is registered for a state", async () => {
     const graph: AgentGraph = {
       nodes: new Map(),
+      edges: [],
       terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
     };
 
@@ -98,6 +110,7 @@ describe("runGraph", () => {
       nodes: new Map<AgentState, NodeHandler>([
         [AgentState.PARSE_JD, async () => AgentState.DONE],
       ]),
+      edges: [{ from: AgentState.PARSE_JD, to: AgentState.DONE }],
       terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
     };
 
@@ -113,7 +126,7 @@ describe("runGraph", () => {
     expect(ctx.stateHistory[1].timestamp).toBeGreaterThan(0);
   });
 
-  it("fires onStateChange callback for each state", async () => {
+  it("reports each state it enters on the event bus", async () => {
     const states: AgentState[] = [];
 
     const graph: AgentGraph = {
@@ -121,37 +134,105 @@ describe("runGraph", () => {
         [AgentState.PARSE_JD, async () => AgentState.PARSE_RESUME],
         [AgentState.PARSE_RESUME, async () => AgentState.DONE],
       ]),
+      edges: [
+        { from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME },
+        { from: AgentState.PARSE_RESUME, to: AgentState.DONE },
+      ],
       terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
     };
 
     const ctx = createPipelineContext("jd", "resume");
     const llm = makeMockLLM();
 
-    await runGraph(graph, ctx, llm, AgentState.PARSE_JD, (state) => {
-      states.push(state);
-    });
+    const events = new PipelineEvents();
+    events.on("nodeStarted", ({ node }) => states.push(node));
+    events.on("runFinished", ({ state }) => states.push(state));
+
+    await runGraph(graph, ctx, llm, AgentState.PARSE_JD, { events });
 
     expect(states).toEqual([AgentState.PARSE_JD, AgentState.PARSE_RESUME, AgentState.DONE]);
   });
 });
 
+describe("runGraph transitions", () => {
+  it("fails the run when a handler returns an undeclared transition", async () => {
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([
+        [AgentState.PARSE_JD, async () => AgentState.DONE],
+      ]),
+      edges: [{ from: AgentState.PARSE_JD, to: AgentState.PARSE_RESUME }],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(graph, ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(ctx.currentState).toBe(AgentState.ERROR);
+    expect(ctx.errors).toEqual(["PARSE_JD: Undeclared transition PARSE_JD → DONE"]);
+  });
+
+  it("only follows a guarded edge when its guard holds, and records the guard taken", async () => {
+    const retry = { name: "retry", test: (ctx: PipelineContext) => ctx.validationAttempts < 2 };
+    const graph: AgentGraph = {
+      nodes: new Map<AgentState, NodeHandler>([
+        [AgentState.GENERATE_OUTPUTS, async (ctx) => { ctx.validationAttempts++; return AgentState.VALIDATE; }],
+        // Always asks to regenerate — the guard stops it on the second pass
+        [AgentState.VALIDATE, async () => AgentState.GENERATE_OUTPUTS],
+      ]),
+      edges: [
+        { from: AgentState.GENERATE_OUTPUTS, to: AgentState.VALIDATE },
+        { from: AgentState.VALIDATE, to: AgentState.GENERATE_OUTPUTS, guard: retry },
+      ],
+      terminalStates: new Set([AgentState.DONE, AgentState.ERROR]),
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(graph, ctx, makeMockLLM(), AgentState.GENERATE_OUTPUTS);
+
+    expect(ctx.validationAttempts).toBe(2);
+    expect(ctx.errors).toEqual([
+      'VALIDATE: Transition VALIDATE → GENERATE_OUTPUTS not allowed: guard "retry" does not hold',
+    ]);
+    expect(ctx.stateHistory.map((e) => e.guard)).toEqual([undefined, undefined, "retry", undefined, undefined, undefined]);
+  });
+});
+
 describe("createAgentGraph", () => {
-  it("registers all 5 expected node handlers", () => {
+  it("declares an edge for every handler and only points at known states", () => {
+    const graph = createAgentGraph();
+    const known = new Set([...graph.nodes.keys(), ...graph.terminalStates, AgentState.INTAKE]);
+
+    for (const state of graph.nodes.keys()) {
+      expect(graph.edges.some((edge) => edge.from === state)).toBe(true);
+    }
+    for (const edge of graph.edges) {
+      expect(known.has(edge.from) && known.has(edge.to)).toBe(true);
+    }
+    expect(
+      graph.edges.filter((edge) => edge.from === AgentState.VALIDATE).map((edge) => edge.guard?.name)
+    ).toEqual(["passed", "failed, attempts left", "failed, attempts exhausted"]);
+  });
+
+  it("registers all 6 expected node handlers", () => {
     const graph = createAgentGraph();
 
     expect(graph.nodes.has(AgentState.PARSE_JD)).toBe(true);
     expect(graph.nodes.has(AgentState.PARSE_RESUME)).toBe(true);
     expect(graph.nodes.has(AgentState.ANALYZE_FIT)).toBe(true);
+    expect(graph.nodes.has(AgentState.REVIEW_FIT)).toBe(true);
     expect(graph.nodes.has(AgentState.GENERATE_OUTPUTS)).toBe(true);
     expect(graph.nodes.has(AgentState.VALIDATE)).toBe(true);
-    expect(graph.nodes.size).toBe(5);
+    expect(graph.nodes.size).toBe(6);
   });
 
-  it("defines DONE and ERROR as terminal states", () => {
+  it("defines DONE, ERROR, BUDGET_EXCEEDED, CANCELLED and NOT_RECOMMENDED as terminal states", () => {
     const graph = createAgentGraph();
 
     expect(graph.terminalStates.has(AgentState.DONE)).toBe(true);
     expect(graph.terminalStates.has(AgentState.ERROR)).toBe(true);
-    expect(graph.terminalStates.size).toBe(2);
+    expect(graph.terminalStates.has(AgentState.BUDGET_EXCEEDED)).toBe(true);
+    expect(graph.terminalStates.has(AgentState.CANCELLED)).toBe(true);
+    expect(graph.terminalStates.has(AgentState.NOT_RECOMMENDED)).toBe(true);
+    expect(graph.terminalStates.size).toBe(5);
   });
 });
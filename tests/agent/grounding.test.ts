@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { checkGrounding, checkOutputGrounding, parseGroundingMode } from "../../src/agent/grounding.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import { validateOutputs } from "../../src/agent/validator.js";
+import { LLMClient } from "../../src/llm/client.js";
+import { mockParsedJD, mockParsedResume } from "../../src/llm/mock-data.js";
+import { coverLetterGenerator } from "../../src/tools/generators/cover-letter.js";
+import { resumeBulletsGenerator } from "../../src/tools/generators/resume-bullets.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+// Raw texts are left empty so only the parses count, as in a run regenerated without a checkpoint
+const sources = { resumeText: "", parsedResume: mockParsedResume, jdText: "", parsedJD: mockParsedJD };
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+describe("parseGroundingMode", () => {
+  it("accepts off, warn and fail, and treats a missing value as the default", () => {
+    expect(parseGroundingMode(undefined)).toBeNull();
+    expect(parseGroundingMode("")).toBeNull();
+    expect(parseGroundingMode("fail")).toBe("fail");
+    expect(() => parseGroundingMode("strict")).toThrow("grounding must be one of: off, warn, fail");
+  });
+});
+
+describe("checkOutputGrounding", () => {
+  it("flags invented metrics, employers and technologies with their location", () => {
+    const text = [
+      "Dear Hiring Manager,",
+      "",
+      "At TechScale I cut API latency by 40%. At Globex I cut costs by 35% using Scala.",
+    ].join("\n");
+
+    const issues = checkOutputGrounding("coverLetter", text, sources);
+
+    expect(issues.map(({ kind, claim, line, column }) => ({ kind, claim, line, column }))).toEqual([
+      { kind: "employer", claim: "Globex", line: 3, column: 43 },
+      { kind: "metric", claim: "35%", line: 3, column: 65 },
+      { kind: "technology", claim: "Scala", line: 3, column: 75 },
+    ]);
+    expect(issues[0].excerpt).toBe("At Globex I cut costs by 35% using Scala.");
+  });
+
+  it("matches claims written differently from the resume", () => {
+    const text = "I handled 50,000 events per second with k8s and Kafka at TechScale Inc's platform team.";
+
+    expect(checkOutputGrounding("coverLetter", text, sources)).toEqual([]);
+  });
+
+  it("lets sentences about the employer repeat the job description", () => {
+    const claims = checkOutputGrounding(
+      "coverLetter",
+      "Your team of 6 engineers runs Rust in production. I have written Rust for 6 years.",
+      sources
+    );
+
+    expect(claims.map((issue) => [issue.claim, issue.excerpt])).toEqual([
+      ["Rust", "I have written Rust for 6 years."],
+      ["6", "I have written Rust for 6 years."],
+    ]);
+  });
+
+  it("skips list numbering and lines the filter leaves out", () => {
+    expect(checkOutputGrounding("coverLetter", "1. Mentored 3 junior engineers", sources)).toEqual([]);
+    const bulletLines = (line: string) => line.startsWith("- ");
+    expect(checkOutputGrounding("tailoredBullets", "_Targets: Rust experience_", sources, bulletLines)).toEqual([]);
+  });
+});
+
+describe("grounding in validation", () => {
+  const outputs = {
+    coverLetter: "At Initech, I grew revenue by 300%.",
+    tailoredBullets: [
+      "- **Scaled Redis to 12M keys**",
+      "  _Targets: Rust experience | Based on: TechScale Inc. - Senior Software Engineer_",
+    ].join("\n"),
+    interviewPrep: "Expect questions about Rust and 10 years of Go.",
+  };
+
+  it("only checks grounded outputs, and the bullets only on their bullet lines", () => {
+    const issues = checkGrounding(outputs, sources, [coverLetterGenerator, resumeBulletsGenerator]);
+
+    expect(issues.map((issue) => [issue.output, issue.claim])).toEqual([
+      ["coverLetter", "Initech"],
+      ["coverLetter", "300%"],
+      ["tailoredBullets", "12M"],
+    ]);
+  });
+
+  it("records unsupported claims in warn mode and fails validation in fail mode", () => {
+    const generators = [resumeBulletsGenerator];
+    const warned = validateOutputs(outputs, mockParsedJD, generators, { mode: "warn", sources });
+    const failed = validateOutputs(outputs, mockParsedJD, generators, { mode: "fail", sources });
+    const off = validateOutputs(outputs, mockParsedJD, generators, { mode: "off", sources });
+
+    expect(warned.grounding).toHaveLength(1);
+    expect(warned.byOutput.tailoredBullets.issues.some((issue) => issue.includes("12M"))).toBe(false);
+    expect(failed.byOutput.tailoredBullets.issues).toContain(
+      'Resume bullets line 1: metric "12M" is not in the resume ("- **Scaled Redis to 12M keys**")'
+    );
+    expect(failed.passed).toBe(false);
+    expect(off.grounding).toEqual([]);
+  });
+});
+
+describe("grounding in the pipeline", () => {
+  it("sends unsupported claims back as revision feedback in fail mode", async () => {
+    const warned = await runOrchestrator(jdText, resumeText, makeMockLLM());
+    const failed = await runOrchestrator(jdText, resumeText, makeMockLLM(), { grounding: "fail" });
+
+    // The mock letter admits to the Go gap, which the resume can't back up
+    expect(warned.context.grounding).toBe("warn");
+    expect(warned.context.validation!.passed).toBe(true);
+    expect(warned.context.validation!.grounding.map((issue) => issue.claim)).toContain("Go");
+
+    expect(failed.context.validation!.passed).toBe(false);
+    expect(failed.context.validationAttempts).toBeGreaterThan(1);
+    expect(failed.context.regenerations[0].issues.some((issue) => issue.includes('technology "Go"'))).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from "vitest";
+import { runGraph, createAgentGraph, isTransientLLMError } from "../../src/agent/graph.js";
+import type { AgentGraph, NodeHandler } from "../../src/agent/graph.js";
+import { NodeTimeoutError, isRetryable, retryDelay, type NodePolicy } from "../../src/agent/node-policy.js";
+import { AgentState, createPipelineContext } from "../../src/agent/state.js";
+import { LLMClient, LLMTimeoutError } from "../../src/llm/client.js";
+import { ProviderError } from "../../src/llm/provider.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+/** PARSE_JD → DONE graph whose only node runs under `policy` */
+function singleNodeGraph(handler: NodeHandler, policy: NodePolicy): AgentGraph {
+  return {
+    nodes: new Map([[AgentState.PARSE_JD, handler]]),
+    edges: [{ from: AgentState.PARSE_JD, to: AgentState.DONE }],
+    terminalStates: new Set([AgentState.DONE, AgentState.ERROR, AgentState.BUDGET_EXCEEDED, AgentState.CANCELLED]),
+    policies: { [AgentState.PARSE_JD]: policy },
+  };
+}
+
+describe("node policy helpers", () => {
+  it("retries any error without retryOn, else only the listed classes", () => {
+    expect(isRetryable({}, new Error("x"))).toBe(true);
+    const policy: NodePolicy = { retryOn: [ProviderError, LLMTimeoutError] };
+    expect(isRetryable(policy, new ProviderError("503", 503))).toBe(true);
+    expect(isRetryable(policy, new LLMTimeoutError(10))).toBe(true);
+    expect(isRetryable(policy, new Error("schema"))).toBe(false);
+    expect(isRetryable({ retryOn: (error) => error instanceof TypeError }, new TypeError("x"))).toBe(true);
+  });
+
+  it("treats timeouts, rate limits, server and connection errors as transient", () => {
+    expect(isTransientLLMError(new NodeTimeoutError(AgentState.PARSE_JD, 10))).toBe(true);
+    for (const status of [408, 409, 429, 500, 503, undefined]) {
+      expect(isTransientLLMError(new ProviderError("failed", status))).toBe(true);
+    }
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isTransientLLMError(new ProviderError("failed", status))).toBe(false);
+    }
+    expect(isTransientLLMError(new Error("schema"))).toBe(false);
+  });
+
+  it("grows the backoff per attempt up to maxMs", () => {
+    const policy: NodePolicy = { backoff: { initialMs: 100, multiplier: 3, maxMs: 500 } };
+    expect([2, 3, 4].map((attempt) => retryDelay(policy, attempt))).toEqual([100, 300, 500]);
+    expect(retryDelay({}, 2)).toBe(0);
+  });
+});
+
+describe("runGraph node policies", () => {
+  it("retries a retryable failure and records every attempt", async () => {
+    let calls = 0;
+    const handler: NodeHandler = async () => {
+      if (++calls === 1) throw new ProviderError("Overloaded", 529);
+      return AgentState.DONE;
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(singleNodeGraph(handler, { maxAttempts: 3, retryOn: [ProviderError] }), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(ctx.currentState).toBe(AgentState.DONE);
+    expect(ctx.errors).toEqual([]);
+    const attempts = ctx.stateHistory.find((e) => e.state === AgentState.PARSE_JD)!.attempts!;
+    expect(attempts.map(({ attempt, error }) => ({ attempt, error }))).toEqual([
+      { attempt: 1, error: "Overloaded" },
+      { attempt: 2, error: undefined },
+    ]);
+  });
+
+  it("fails on the first non-retryable error", async () => {
+    let calls = 0;
+    const handler: NodeHandler = async () => {
+      calls++;
+      throw new Error("Schema validation failed after retries");
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(singleNodeGraph(handler, { maxAttempts: 3, retryOn: [ProviderError] }), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(calls).toBe(1);
+    expect(ctx.currentState).toBe(AgentState.ERROR);
+    expect(ctx.errors).toEqual(["PARSE_JD: Schema validation failed after retries"]);
+  });
+
+  it("gives up after maxAttempts and reports the last error", async () => {
+    let calls = 0;
+    const handler: NodeHandler = async () => {
+      throw new Error(`failure ${++calls}`);
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(singleNodeGraph(handler, { maxAttempts: 2 }), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(calls).toBe(2);
+    expect(ctx.errors).toEqual(["PARSE_JD: failure 2"]);
+    expect(ctx.stateHistory.find((e) => e.state === AgentState.PARSE_JD)!.attempts).toHaveLength(2);
+  });
+
+  it("times out a hung attempt, aborts its signal and retries", async () => {
+    const signals: AbortSignal[] = [];
+    const handler: NodeHandler = async (_ctx, _llm, options) => {
+      signals.push(options.signal!);
+      if (signals.length === 1) await new Promise(() => {}); // never settles
+      return AgentState.DONE;
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(
+      singleNodeGraph(handler, { timeoutMs: 20, maxAttempts: 2, retryOn: [NodeTimeoutError] }),
+      ctx,
+      makeMockLLM(),
+      AgentState.PARSE_JD
+    );
+
+    expect(ctx.currentState).toBe(AgentState.DONE);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason).toBeInstanceOf(NodeTimeoutError);
+    expect(ctx.stateHistory.find((e) => e.state === AgentState.PARSE_JD)!.attempts![0].error).toBe(
+      "PARSE_JD timed out after 20ms"
+    );
+  });
+
+  it("restarts a retry from the context the node started with, keeping spend", async () => {
+    let calls = 0;
+    const handler: NodeHandler = async (ctx) => {
+      ctx.validationAttempts++;
+      ctx.outputs.coverLetter = `draft ${++calls}`;
+      ctx.estimatedCost += 0.01;
+      if (calls === 1) throw new Error("transient");
+      return AgentState.DONE;
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(singleNodeGraph(handler, { maxAttempts: 2 }), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(ctx.validationAttempts).toBe(1);
+    expect(ctx.outputs.coverLetter).toBe("draft 2");
+    expect(ctx.estimatedCost).toBeCloseTo(0.02);
+  });
+
+  it("cancels the run when aborted during the backoff", async () => {
+    const controller = new AbortController();
+    const handler: NodeHandler = async () => {
+      setTimeout(() => controller.abort(new Error("User cancelled")), 10);
+      throw new Error("transient");
+    };
+    const ctx = createPipelineContext("jd", "resume");
+
+    await runGraph(
+      singleNodeGraph(handler, { maxAttempts: 2, backoff: { initialMs: 60_000 } }),
+      ctx,
+      makeMockLLM(),
+      AgentState.PARSE_JD,
+      { signal: controller.signal }
+    );
+
+    expect(ctx.currentState).toBe(AgentState.CANCELLED);
+    expect(ctx.cancelled?.reason).toBe("User cancelled");
+  });
+
+  it("gives every LLM node of the agent graph a retry policy", () => {
+    const { policies } = createAgentGraph();
+    for (const state of [AgentState.PARSE_JD, AgentState.PARSE_RESUME, AgentState.ANALYZE_FIT, AgentState.GENERATE_OUTPUTS]) {
+      expect(policies?.[state]?.maxAttempts).toBeGreaterThan(1);
+      expect(policies?.[state]?.retryOn).toBe(isTransientLLMError);
+    }
+    expect(policies?.[AgentState.VALIDATE]).toBeUndefined();
+  });
+
+  it("ends the run at once on a provider error a retry can't fix", async () => {
+    const handler = vi.fn<NodeHandler>(async () => {
+      throw new ProviderError("Chat completion request failed (400): bad request", 400);
+    });
+    const ctx = createPipelineContext("jd", "resume");
+    const policy = createAgentGraph().policies![AgentState.PARSE_JD]!;
+
+    await runGraph(singleNodeGraph(handler, policy), ctx, makeMockLLM(), AgentState.PARSE_JD);
+
+    expect(ctx.currentState).toBe(AgentState.ERROR);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { parseOutputSelection, selectedGenerators } from "../../src/agent/output-selection.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import { AgentState } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import { registerGenerator, unregisterGenerator, getGenerator } from "../../src/tools/generators/registry.js";
+import { writeRunOutputs } from "../../src/utils/output-writer.js";
+import recruiterNote from "../fixtures/plugins/recruiter-note.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+afterEach(() => {
+  if (getGenerator("recruiterNote")) unregisterGenerator("recruiterNote");
+});
+
+describe("parseOutputSelection", () => {
+  it("accepts generator names, filenames and aliases, returned in run order", () => {
+    expect(parseOutputSelection("bullets,cover-letter")).toEqual(["coverLetter", "tailoredBullets"]);
+    expect(parseOutputSelection(["interviewPrep", "interview-prep"])).toEqual(["interviewPrep"]);
+    expect(parseOutputSelection(" cover-letter , ")).toEqual(["coverLetter"]);
+  });
+
+  it("treats a missing or empty selection as every output", () => {
+    expect(parseOutputSelection(undefined)).toBeNull();
+    expect(parseOutputSelection("")).toBeNull();
+    expect(parseOutputSelection([])).toBeNull();
+  });
+
+  it("rejects unknown outputs with the names it accepts", () => {
+    expect(() => parseOutputSelection("cover-letter,thank-you")).toThrow(
+      "Unknown output: thank-you. Choose from: cover-letter, tailored-bullets|bullets, interview-prep"
+    );
+    expect(() => parseOutputSelection([1])).toThrow("outputs must be a comma-separated string or an array of output names");
+  });
+});
+
+describe("selectedGenerators", () => {
+  it("adds the generators a requested output depends on", () => {
+    registerGenerator(recruiterNote);
+
+    expect(selectedGenerators({ requestedOutputs: null }).map((g) => g.name)).toHaveLength(4);
+    expect(selectedGenerators({ requestedOutputs: ["recruiterNote"] }).map((g) => g.name)).toEqual([
+      "coverLetter",
+      "recruiterNote",
+    ]);
+  });
+});
+
+describe("selective generation in the pipeline", () => {
+  it("generates, validates and writes only the requested outputs", async () => {
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), { outputs: ["coverLetter"] });
+
+    expect(result.success).toBe(true);
+    expect(result.context.currentState).toBe(AgentState.DONE);
+    expect(result.context.outputs.coverLetter).toBeTruthy();
+    expect(result.context.outputs.tailoredBullets).toBeNull();
+    expect(result.context.outputs.interviewPrep).toBeNull();
+    expect(result.context.validation?.passed).toBe(true);
+    expect(Object.keys(result.context.validation!.byOutput)).toEqual(["coverLetter"]);
+    expect(result.context.validationAttempts).toBe(1);
+
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-only-"));
+    try {
+      writeRunOutputs(dir, result.context, {
+        timestamp: new Date().toISOString(),
+        success: result.success,
+        totalDurationMs: result.totalDurationMs,
+        jdSource: "test",
+        resumeSource: "test",
+        model: result.model,
+        tokenUsage: result.tokenUsage,
+        llmCalls: result.llmCalls,
+      });
+
+      expect(existsSync(join(dir, "cover-letter.md"))).toBe(true);
+      expect(existsSync(join(dir, "tailored-bullets.md"))).toBe(false);
+      expect(existsSync(join(dir, "interview-prep.md"))).toBe(false);
+      const metadata = JSON.parse(readFileSync(join(dir, "metadata.json"), "utf-8"));
+      expect(metadata.requestedOutputs).toEqual(["coverLetter"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("removes outputs an earlier run left in the directory but this run did not select", async () => {
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), { outputs: ["coverLetter"] });
+
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-stale-"));
+    try {
+      writeFileSync(join(dir, "tailored-bullets.md"), "bullets from an earlier run");
+      writeFileSync(join(dir, "interview-prep.md"), "prep from an earlier run");
+      writeRunOutputs(dir, result.context, {
+        timestamp: new Date().toISOString(),
+        success: result.success,
+        totalDurationMs: result.totalDurationMs,
+        jdSource: "test",
+        resumeSource: "test",
+        model: result.model,
+        tokenUsage: result.tokenUsage,
+        llmCalls: result.llmCalls,
+      });
+
+      expect(existsSync(join(dir, "cover-letter.md"))).toBe(true);
+      expect(existsSync(join(dir, "tailored-bullets.md"))).toBe(false);
+      expect(existsSync(join(dir, "interview-prep.md"))).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { regenerateOutputs } from "../../src/agent/orchestrator.js";
+import { AgentState } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import type { LLMProvider, ProviderRequest } from "../../src/llm/provider.js";
+import { mockParsedJD, mockParsedResume, mockFitAnalysis } from "../../src/llm/mock-data.js";
+import { latestVersionFilename, nextVersionFilename, writeRegeneratedOutputs, writeRunOutputs } from "../../src/utils/output-writer.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const analysis = { parsedJD: mockParsedJD, parsedResume: mockParsedResume, fitAnalysis: mockFitAnalysis };
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+/** Records every request; answers the cover letter generator only */
+function makeProvider(requests: ProviderRequest[]): LLMProvider {
+  const skill = mockParsedJD.requiredSkills[0].name;
+  return {
+    name: "openai",
+    defaultModel: "gpt-4o-mini",
+    apiKeyEnv: "K",
+    send: vi.fn(async (request: ProviderRequest) => {
+      requests.push(request);
+      const letter = `Dear ${mockParsedJD.company} team, ${`I build reliable ${skill} systems. `.repeat(40)}`;
+      return { text: JSON.stringify({ coverLetter: letter }), usage: { inputTokens: 10, outputTokens: 5 } };
+    }),
+  };
+}
+
+describe("regenerateOutputs", () => {
+  it("runs only the chosen generators, with the user's instructions, from the saved analysis", async () => {
+    process.env.MOCK_LLM = "false";
+    const requests: ProviderRequest[] = [];
+    const llm = new LLMClient({ provider: makeProvider(requests), baseDelayMs: 0 });
+
+    const saved = { ...analysis, previousOutputs: { coverLetter: "Saved letter text" } };
+    const result = await regenerateOutputs(saved, llm, { outputs: ["coverLetter"], instructions: "More concise, please." });
+
+    expect(result.context.stateHistory.map((e) => e.state)).not.toContain(AgentState.PARSE_JD);
+    expect(result.context.stateHistory.map((e) => e.state)).not.toContain(AgentState.ANALYZE_FIT);
+    expect(result.llmCalls.map((call) => call.stage)).toEqual(["coverLetter"]);
+    expect(requests[0].messages.map((m) => m.content).join("\n")).toContain(
+      "ADDITIONAL INSTRUCTIONS FROM THE CANDIDATE:\nMore concise, please."
+    );
+    // "More concise" applies to the saved letter
+    expect(requests[0].messages.map((m) => m.content).join("\n")).toContain("PREVIOUS VERSION:\nSaved letter text");
+    expect(result.context.outputs.coverLetter).toContain(`Dear ${mockParsedJD.company} team`);
+    expect(result.context.outputs.tailoredBullets).toBeNull();
+    expect(Object.keys(result.context.validation!.byOutput)).toEqual(["coverLetter"]);
+  });
+
+  it("regenerates every output when none are chosen", async () => {
+    const result = await regenerateOutputs(analysis, makeMockLLM());
+
+    expect(result.success).toBe(true);
+    expect(result.context.outputs.coverLetter).toBeTruthy();
+    expect(result.context.outputs.tailoredBullets).toBeTruthy();
+    expect(result.context.outputs.interviewPrep).toBeTruthy();
+  });
+});
+
+describe("versioned filenames", () => {
+  it("go after the highest saved version, past any gap", () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-regen-"));
+    try {
+      expect(nextVersionFilename(dir, "cover-letter.md")).toBe("cover-letter.v2.md");
+      expect(latestVersionFilename(dir, "cover-letter.md")).toBeNull();
+
+      for (const name of ["cover-letter.md", "cover-letter.v2.md", "cover-letter.v4.md", "cover-letter.v4.md.bak"]) {
+        writeFileSync(join(dir, name), name);
+      }
+      expect(nextVersionFilename(dir, "cover-letter.md")).toBe("cover-letter.v5.md");
+      expect(latestVersionFilename(dir, "cover-letter.md")).toBe("cover-letter.v4.md");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("writeRegeneratedOutputs", () => {
+  it("writes the next version next to the old files and appends to the changelog and ledger", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-regen-"));
+    try {
+      writeFileSync(join(dir, "cover-letter.md"), "Original letter");
+      writeFileSync(join(dir, "metadata.json"), JSON.stringify({ success: true }));
+      writeFileSync(join(dir, "llm-calls.jsonl"), '{"stage":"PARSE_JD"}\n');
+      expect(nextVersionFilename(dir, "cover-letter.md")).toBe("cover-letter.v2.md");
+
+      process.env.MOCK_LLM = "false";
+      const llm = new LLMClient({ provider: makeProvider([]), baseDelayMs: 0 });
+      const result = await regenerateOutputs(analysis, llm, { outputs: ["coverLetter"], instructions: "Shorter" });
+      const meta = {
+        timestamp: "2026-10-18T00:00:00.000Z",
+        success: result.success,
+        totalDurationMs: result.totalDurationMs,
+        model: result.model,
+        tokenUsage: result.tokenUsage,
+        llmCalls: result.llmCalls,
+      };
+      const first = writeRegeneratedOutputs(dir, result.context, meta);
+      const second = writeRegeneratedOutputs(dir, result.context, meta);
+
+      expect(first.files).toEqual({ coverLetter: "cover-letter.v2.md" });
+      expect(second.files).toEqual({ coverLetter: "cover-letter.v3.md" });
+      expect(readFileSync(join(dir, "cover-letter.md"), "utf-8")).toBe("Original letter");
+      expect(readFileSync(join(dir, "cover-letter.v2.md"), "utf-8")).toBe(result.context.outputs.coverLetter);
+      expect(existsSync(join(dir, "tailored-bullets.v2.md"))).toBe(false);
+
+      const metadata = JSON.parse(readFileSync(join(dir, "metadata.json"), "utf-8"));
+      expect(metadata.success).toBe(true);
+      expect(metadata.changelog).toHaveLength(2);
+      expect(metadata.changelog[0]).toMatchObject({ instructions: "Shorter", requestedOutputs: ["coverLetter"] });
+      expect(readFileSync(join(dir, "llm-calls.jsonl"), "utf-8").trim().split("\n")).toHaveLength(3);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the changelog when a run rewrites metadata.json", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-regen-"));
+    try {
+      const result = await regenerateOutputs(analysis, makeMockLLM(), { outputs: ["coverLetter"] });
+      const meta = {
+        timestamp: "2026-10-18T00:00:00.000Z",
+        success: result.success,
+        totalDurationMs: result.totalDurationMs,
+        model: result.model,
+        tokenUsage: result.tokenUsage,
+        llmCalls: result.llmCalls,
+      };
+      writeRunOutputs(dir, result.context, { ...meta, jdSource: "test", resumeSource: "test" });
+      const entry = writeRegeneratedOutputs(dir, result.context, meta);
+      writeRunOutputs(dir, result.context, { ...meta, jdSource: "test", resumeSource: "test" });
+
+      const metadata = JSON.parse(readFileSync(join(dir, "metadata.json"), "utf-8"));
+      expect(metadata.jdSource).toBe("test");
+      expect(metadata.changelog).toEqual([JSON.parse(JSON.stringify(entry))]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
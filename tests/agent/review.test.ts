@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { runOrchestrator, resumeOrchestrator } from "../../src/agent/orchestrator.js";
+import type { Checkpoint } from "../../src/agent/checkpoint.js";
+import { FitReviewError, applyFitReview, parseFitReview } from "../../src/agent/review.js";
+import { AgentState, createPipelineContext } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import { mockFitAnalysis } from "../../src/llm/mock-data.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+function makeMockLLM(): LLMClient {
+  process.env.MOCK_LLM = "true";
+  return new LLMClient();
+}
+
+describe("applyFitReview", () => {
+  it("approves the analysis unchanged when the reviewer returns nothing or the same analysis", () => {
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.fitAnalysis = structuredClone(mockFitAnalysis);
+
+    expect(applyFitReview(ctx, null).status).toBe("approved");
+    expect(applyFitReview(ctx, structuredClone(mockFitAnalysis)).status).toBe("approved");
+    expect(ctx.fitAnalysis).toEqual(mockFitAnalysis);
+    expect(ctx.fitReview?.reviewedAt).toBeTruthy();
+  });
+
+  it("replaces the analysis with a valid edit", () => {
+    const ctx = createPipelineContext("jd", "resume");
+    ctx.fitAnalysis = structuredClone(mockFitAnalysis);
+    const edited = { ...mockFitAnalysis, gaps: [] };
+
+    expect(applyFitReview(ctx, edited).status).toBe("edited");
+    expect(ctx.fitAnalysis.gaps).toEqual([]);
+  });
+
+  it("rejects an edit that doesn't match the schema", () => {
+    expect(() => parseFitReview({ ...mockFitAnalysis, overallScore: "high" })).toThrow(FitReviewError);
+    expect(() => parseFitReview({})).toThrow(/^Edited fit analysis is invalid: /);
+  });
+});
+
+describe("REVIEW_FIT in the pipeline", () => {
+  it("skips the review unless a reviewer is passed", async () => {
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM());
+
+    expect(result.context.stateHistory.map((e) => e.state)).not.toContain(AgentState.REVIEW_FIT);
+    expect(result.context.fitReview).toBeNull();
+  });
+
+  it("generates from the reviewer's edited analysis", async () => {
+    const seen: number[] = [];
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), {
+      reviewFit: async (fitAnalysis) => {
+        seen.push(fitAnalysis.overallScore);
+        return { ...fitAnalysis, overallScore: 42 };
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(seen).toHaveLength(1);
+    expect(result.context.fitAnalysis?.overallScore).toBe(42);
+    expect(result.context.fitReview?.status).toBe("edited");
+    const states = result.context.stateHistory.map((e) => e.state);
+    expect(states.indexOf(AgentState.REVIEW_FIT)).toBe(states.indexOf(AgentState.ANALYZE_FIT) + 1);
+  });
+
+  it("fails the run on an invalid edit", async () => {
+    const result = await runOrchestrator(jdText, resumeText, makeMockLLM(), {
+      reviewFit: async () => ({ overallScore: "high" }),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.context.currentState).toBe(AgentState.ERROR);
+    expect(result.context.errors[0]).toMatch(/^REVIEW_FIT: Edited fit analysis is invalid/);
+  });
+
+  it("resumes a run left waiting into the same review", async () => {
+    const checkpoints: Checkpoint[] = [];
+    const controller = new AbortController();
+    const first = await runOrchestrator(jdText, resumeText, makeMockLLM(), {
+      signal: controller.signal,
+      onCheckpoint: (checkpoint) => checkpoints.push(checkpoint),
+      reviewFit: async (_fitAnalysis, _ctx, signal) => {
+        controller.abort(new Error("Closed the tab"));
+        signal?.throwIfAborted();
+      },
+    });
+    expect(first.context.currentState).toBe(AgentState.CANCELLED);
+
+    const checkpoint = checkpoints[checkpoints.length - 1];
+    expect(checkpoint.nextState).toBe(AgentState.REVIEW_FIT);
+
+    const resumed = await resumeOrchestrator(checkpoint, makeMockLLM(), {
+      reviewFit: async () => null,
+    });
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.context.fitReview?.status).toBe("approved");
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import { loadModelRouting, parseModelRouting, resolveRoute } from "../../src/agent/routing.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import { AgentState } from "../../src/agent/state.js";
+import { LLMClient } from "../../src/llm/client.js";
+import type { LLMProvider } from "../../src/llm/provider.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+describe("parseModelRouting", () => {
+  it("returns null for missing or empty routing", () => {
+    expect(parseModelRouting(undefined)).toBeNull();
+    expect(parseModelRouting({})).toBeNull();
+  });
+
+  it("accepts pipeline states and output names", () => {
+    expect(
+      parseModelRouting({
+        PARSE_JD: { model: "claude-haiku-4-5", maxTokens: 2048 },
+        coverLetter: { model: "claude-opus-4-5" },
+      })
+    ).toEqual({
+      PARSE_JD: { model: "claude-haiku-4-5", maxTokens: 2048 },
+      coverLetter: { model: "claude-opus-4-5" },
+    });
+  });
+
+  it("rejects unknown keys and invalid routes", () => {
+    expect(() => parseModelRouting({ VALIDATE: { model: "m" } })).toThrow("Unknown routing key: VALIDATE");
+    expect(() => parseModelRouting({ PARSE_JD: "m" })).toThrow("Route for PARSE_JD must be an object");
+    expect(() => parseModelRouting({ PARSE_JD: { model: "" } })).toThrow("PARSE_JD.model must be a non-empty string");
+    expect(() => parseModelRouting({ PARSE_JD: { maxTokens: 0 } })).toThrow("PARSE_JD.maxTokens must be a positive integer");
+  });
+
+  it("loads routing from a JSON file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-routing-"));
+    try {
+      const path = join(dir, "routing.json");
+      writeFileSync(path, JSON.stringify({ ANALYZE_FIT: { model: "gpt-4.1" } }));
+      expect(loadModelRouting(path)).toEqual({ ANALYZE_FIT: { model: "gpt-4.1" } });
+
+      writeFileSync(path, "{not json");
+      expect(() => loadModelRouting(path)).toThrow(`Could not read model routing from ${path}`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("resolveRoute", () => {
+  const routing = {
+    GENERATE_OUTPUTS: { model: "claude-sonnet-4-5", maxTokens: 4096 },
+    coverLetter: { model: "claude-opus-4-5" },
+  };
+
+  it("returns no overrides for unrouted nodes", () => {
+    expect(resolveRoute(null, AgentState.PARSE_JD)).toEqual({});
+    expect(resolveRoute(routing, AgentState.PARSE_JD)).toEqual({});
+  });
+
+  it("layers a generator's route over the GENERATE_OUTPUTS route", () => {
+    expect(resolveRoute(routing, AgentState.GENERATE_OUTPUTS, "coverLetter")).toEqual({
+      model: "claude-opus-4-5",
+      maxTokens: 4096,
+    });
+    expect(resolveRoute(routing, AgentState.GENERATE_OUTPUTS, "interviewPrep")).toEqual({
+      model: "claude-sonnet-4-5",
+      maxTokens: 4096,
+    });
+  });
+});
+
+describe("LLMClient per-call model override", () => {
+  it("sends, prices and records the routed model", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi.fn().mockResolvedValue({ text: '{"foo":"ok"}', usage: { inputTokens: 1_000_000, outputTokens: 0 } });
+    const provider: LLMProvider = { name: "anthropic", defaultModel: "claude-sonnet-4-5", apiKeyEnv: "K", send };
+    const llm = new LLMClient({ provider, maxTokens: 4096 });
+
+    const result = await llm.structured("prompt", z.object({ foo: z.string() }), undefined, undefined, {
+      stage: "PARSE_JD",
+      model: "claude-haiku-4-5",
+      maxTokens: 1024,
+    });
+
+    expect(send.mock.calls[0][0]).toMatchObject({ model: "claude-haiku-4-5", maxTokens: 1024 });
+    expect(result.model).toBe("claude-haiku-4-5");
+    // claude-haiku-4-5: $1/M input
+    expect(result.costUsd).toBeCloseTo(1);
+    expect(llm.getCallLedger()[0].model).toBe("claude-haiku-4-5");
+    expect(llm.getModel()).toBe("claude-sonnet-4-5");
+  });
+});
+
+describe("runOrchestrator with model routing (mock)", () => {
+  it("records the routed model per node in stateHistory", async () => {
+    process.env.MOCK_LLM = "true";
+    const llm = new LLMClient({ model: "default-model" });
+
+    const result = await runOrchestrator(jdText, resumeText, llm, {
+      routing: {
+        ANALYZE_FIT: { model: "analysis-model" },
+        GENERATE_OUTPUTS: { model: "writer-model" },
+        interviewPrep: { model: "prep-model" },
+      },
+    });
+
+    const entry = (state: AgentState) => result.context.stateHistory.find((e) => e.state === state)!;
+    expect(entry(AgentState.ANALYZE_FIT).models).toEqual({ ANALYZE_FIT: "analysis-model (mock)" });
+    expect(entry(AgentState.GENERATE_OUTPUTS).models).toEqual({
+      coverLetter: "writer-model (mock)",
+      tailoredBullets: "writer-model (mock)",
+      interviewPrep: "prep-model (mock)",
+    });
+    expect(entry(AgentState.VALIDATE).models).toBeUndefined();
+    expect(result.context.routing?.GENERATE_OUTPUTS?.model).toBe("writer-model");
+  });
+});
@@ -4,7 +4,27 @@ import {
   createPipelineContext,
   transitionTo,
   addTokenUsage,
+  recordLLMRetries,
+  recordNodeUsage,
+  usageByStage,
 } from "../../src/agent/state.js";
+import type { LLMCallRecord } from "../../src/llm/client.js";
+
+function call(stage: string, overrides: Partial<LLMCallRecord> = {}): LLMCallRecord {
+  return {
+    timestamp: "2026-01-01T00:00:00.000Z",
+    stage,
+    model: "m",
+    attempt: 0,
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0.01,
+    durationMs: 10,
+    ...overrides,
+  };
+}
 
 describe("createPipelineContext", () => {
   it("creates context with correct defaults", () => {
@@ -22,7 +42,7 @@ describe("createPipelineContext", () => {
     expect(ctx.validation).toBeNull();
     expect(ctx.validationAttempts).toBe(0);
     expect(ctx.errors).toEqual([]);
-    expect(ctx.tokenUsage).toEqual({ inputTokens: 0, outputTokens: 0 });
+    expect(ctx.tokenUsage).toEqual({ inputTokens: 0, outputTokens: 0, cacheTokens: 0 });
   });
 
   it("initializes stateHistory with INTAKE", () => {
@@ -77,3 +97,62 @@ describe("addTokenUsage", () => {
     expect(ctx.tokenUsage.outputTokens).toBe(600);
   });
 });
+
+describe("recordLLMRetries", () => {
+  it("accumulates retries and repairs per stage", () => {
+    const ctx = createPipelineContext("jd", "resume");
+
+    recordLLMRetries(ctx, "coverLetter", { retries: 2, repairs: 1 });
+    recordLLMRetries(ctx, "coverLetter", { retries: 1, repairs: 1 });
+    recordLLMRetries(ctx, AgentState.PARSE_JD, {});
+
+    expect(ctx.llmRetries).toEqual({
+      coverLetter: { retries: 3, repairs: 2 },
+      PARSE_JD: { retries: 0, repairs: 0 },
+    });
+  });
+});
+
+describe("recordNodeUsage", () => {
+  it("attributes calls to the node's latest visit, per stage", () => {
+    const ctx = createPipelineContext("jd", "resume");
+    transitionTo(ctx, AgentState.GENERATE_OUTPUTS);
+    recordNodeUsage(ctx, AgentState.GENERATE_OUTPUTS, call("coverLetter"));
+    transitionTo(ctx, AgentState.VALIDATE);
+    transitionTo(ctx, AgentState.GENERATE_OUTPUTS);
+    recordNodeUsage(ctx, AgentState.GENERATE_OUTPUTS, call("interviewPrep", { cacheReadTokens: 500 }));
+    recordNodeUsage(ctx, AgentState.GENERATE_OUTPUTS, call("interviewPrep", { attempt: 1 }));
+
+    expect(ctx.stateHistory[1].usage).toMatchObject({ calls: 1, inputTokens: 100, cacheHits: 0 });
+    expect(ctx.stateHistory[2].usage).toBeUndefined();
+    expect(ctx.stateHistory[3].usage).toMatchObject({
+      calls: 2,
+      inputTokens: 200,
+      outputTokens: 100,
+      cacheReadTokens: 500,
+      costUsd: 0.02,
+      cacheHits: 1,
+      byStage: { interviewPrep: { calls: 2, cacheHits: 1 } },
+    });
+  });
+
+  it("sums every visit per stage", () => {
+    const ctx = createPipelineContext("jd", "resume");
+    transitionTo(ctx, AgentState.GENERATE_OUTPUTS);
+    recordNodeUsage(ctx, AgentState.GENERATE_OUTPUTS, call("interviewPrep"));
+    transitionTo(ctx, AgentState.GENERATE_OUTPUTS);
+    recordNodeUsage(ctx, AgentState.GENERATE_OUTPUTS, call("interviewPrep"));
+
+    expect(usageByStage(ctx.stateHistory)).toEqual({
+      interviewPrep: {
+        inputTokens: 200,
+        outputTokens: 100,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0.02,
+        calls: 2,
+        cacheHits: 0,
+      },
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { defineGenerator } from "../../../src/tools/generators/plugin.js";
+
+/** Example generator plugin: a short note to the recruiter, written after the cover letter */
+export default defineGenerator({
+  name: "recruiterNote",
+  label: "Recruiter note",
+  filename: "recruiter-note.md",
+  dependsOn: ["coverLetter"],
+  schema: z.object({ note: z.string() }),
+  systemPrompt: "You write short, friendly recruiter outreach notes. Respond with JSON only.",
+  buildPrompt: ({ parsedJD, outputs }) =>
+    `Write a three-sentence note to the recruiter for the ${parsedJD.role} role, consistent with this cover letter:\n\n${outputs.coverLetter}\n\nReturn JSON: { "note": "..." }`,
+  render: (data) => data.note,
+  mock: ({ parsedJD, outputs }) => ({
+    note: `Hi! I just applied for the ${parsedJD.role} role at ${parsedJD.company} (cover letter: ${outputs.coverLetter?.split(/\s+/).length} words).`,
+  }),
+  rules: [
+    (text, { parsedJD }) => (text.includes(parsedJD.company) ? null : "Recruiter note doesn't mention the company"),
+  ],
+});
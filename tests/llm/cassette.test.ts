@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { z } from "zod";
+import { LLMClient } from "../../src/llm/client.js";
+import { CassetteMissError } from "../../src/llm/cassette.js";
+import type { LLMProvider, ProviderRequest } from "../../src/llm/provider.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import { mockParsedJD, mockParsedResume, mockFitAnalysis } from "../../src/llm/mock-data.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const tempDirs: string[] = [];
+
+function tempCassette(): string {
+  const dir = mkdtempSync(join(tmpdir(), "jobfit-cassette-"));
+  tempDirs.push(dir);
+  return join(dir, "run.cassette.json");
+}
+
+function makeProvider(answer: (request: ProviderRequest) => string): LLMProvider & { send: ReturnType<typeof vi.fn> } {
+  return {
+    name: "anthropic",
+    defaultModel: "test-model",
+    apiKeyEnv: "TEST_API_KEY",
+    send: vi.fn(async (request: ProviderRequest) => ({
+      text: answer(request),
+      usage: { inputTokens: 10, outputTokens: 5 },
+    })),
+  };
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+describe("LLMClient cassettes", () => {
+  it("replays a recorded structured call without a provider", async () => {
+    process.env.MOCK_LLM = "false";
+    const path = tempCassette();
+    const schema = z.object({ foo: z.string() });
+
+    const provider = makeProvider(() => '{"foo":"recorded"}');
+    const recorder = new LLMClient({ provider, cassette: { path, mode: "record" } });
+    await recorder.structured("prompt", schema, "system");
+
+    const file = JSON.parse(readFileSync(path, "utf-8"));
+    expect(Object.keys(file.entries)).toHaveLength(1);
+
+    const player = new LLMClient({ model: "test-model", cassette: { path, mode: "replay" } });
+    const result = await player.structured("prompt", schema, "system");
+
+    expect(result.data.foo).toBe("recorded");
+    expect(player.getProviderName()).toBe("replay");
+    expect(provider.send).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails loudly on a cache miss instead of retrying", async () => {
+    process.env.MOCK_LLM = "false";
+    const path = tempCassette();
+    const recorder = new LLMClient({ provider: makeProvider(() => "hi"), cassette: { path, mode: "record" } });
+    await recorder.complete("hello");
+
+    const player = new LLMClient({ model: "test-model", cassette: { path, mode: "replay" } });
+
+    await expect(player.complete("something else")).rejects.toBeInstanceOf(CassetteMissError);
+    await expect(
+      player.structured("hello", z.object({ foo: z.string() }))
+    ).rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  it("keys recordings by model and schema", async () => {
+    process.env.MOCK_LLM = "false";
+    const path = tempCassette();
+    const recorder = new LLMClient({ provider: makeProvider(() => '{"foo":"x"}'), cassette: { path, mode: "record" } });
+    await recorder.structured("prompt", z.object({ foo: z.string() }));
+
+    const otherModel = new LLMClient({ model: "other-model", cassette: { path, mode: "replay" } });
+    await expect(otherModel.structured("prompt", z.object({ foo: z.string() }))).rejects.toThrow(CassetteMissError);
+
+    const otherSchema = new LLMClient({ model: "test-model", cassette: { path, mode: "replay" } });
+    await expect(otherSchema.structured("prompt", z.object({ foo: z.number() }))).rejects.toThrow(CassetteMissError);
+  });
+
+  it("replays a full orchestrator run deterministically", async () => {
+    process.env.MOCK_LLM = "false";
+    const path = tempCassette();
+    const jdText = `Cassette JD ${Date.now()}`;
+    const resumeText = `Cassette resume ${Date.now()}`;
+
+    const provider = makeProvider((request) => {
+      if (request.system.includes("technical recruiter. Extract")) return JSON.stringify(mockParsedJD);
+      if (request.system.includes("resume analyst")) return JSON.stringify(mockParsedResume);
+      if (request.system.includes("career advisor")) return JSON.stringify(mockFitAnalysis);
+      if (request.system.includes("cover letters")) return JSON.stringify({ coverLetter: "Dear Acme Cloud team" });
+      if (request.system.includes("resume writer")) return JSON.stringify({ bullets: [] });
+      return JSON.stringify({ technicalQuestions: [], behavioralQuestions: [], questionsToAsk: [] });
+    });
+
+    const recorded = await runOrchestrator(
+      jdText,
+      resumeText,
+      new LLMClient({ provider, baseDelayMs: 0, cassette: { path, mode: "record" } })
+    );
+    const replayed = await runOrchestrator(
+      jdText,
+      resumeText,
+      new LLMClient({ model: "test-model", baseDelayMs: 0, cassette: { path, mode: "replay" } })
+    );
+
+    expect(replayed.context.currentState).toBe(recorded.context.currentState);
+    expect(replayed.context.fitAnalysis).toEqual(recorded.context.fitAnalysis);
+    expect(replayed.context.outputs).toEqual(recorded.context.outputs);
+  });
+});
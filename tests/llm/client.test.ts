@@ -1,5 +1,25 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
 import { LLMClient } from "../../src/llm/client.js";
+import type { LLMProvider } from "../../src/llm/provider.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+function ledgerEntry(inputTokens: number, outputTokens: number) {
+  return {
+    timestamp: new Date().toISOString(),
+    stage: "other",
+    model: "test-model",
+    attempt: 0,
+    inputTokens,
+    outputTokens,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0,
+    durationMs: 1,
+  };
+}
 
 describe("LLMClient token usage summary", () => {
   it("tracks usage per instance without cross-bleed", () => {
@@ -8,9 +28,9 @@ describe("LLMClient token usage summary", () => {
     const clientA = new LLMClient();
     const clientB = new LLMClient();
 
-    (clientA as any).usageLog.push({ inputTokens: 100, outputTokens: 40 });
-    (clientA as any).usageLog.push({ inputTokens: 50, outputTokens: 10 });
-    (clientB as any).usageLog.push({ inputTokens: 10, outputTokens: 5 });
+    (clientA as any).ledger.push(ledgerEntry(100, 40));
+    (clientA as any).ledger.push(ledgerEntry(50, 10));
+    (clientB as any).ledger.push(ledgerEntry(10, 5));
 
     const summaryA = clientA.getUsageSummary();
     const summaryB = clientB.getUsageSummary();
@@ -31,8 +51,47 @@ describe("LLMClient token usage summary", () => {
     expect(client.getUsageSummary()).toEqual({
       totalInputTokens: 0,
       totalOutputTokens: 0,
+      totalCacheReadTokens: 0,
+      totalCacheWriteTokens: 0,
       totalCalls: 0,
       estimatedCost: 0,
     });
   });
 });
+
+describe("LLMClient call ledger", () => {
+  it("records every attempt with stage, model, tokens and model-specific cost", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce({ text: "{not-json", usage: { inputTokens: 1_000_000, outputTokens: 0 } })
+      .mockResolvedValueOnce({ text: '{"foo":"ok"}', usage: { inputTokens: 0, outputTokens: 1_000_000 } });
+    const provider: LLMProvider = { name: "openai", defaultModel: "gpt-4o-mini", apiKeyEnv: "K", send };
+    const llm = new LLMClient({ provider, baseDelayMs: 0 });
+
+    const result = await llm.structured("prompt", z.object({ foo: z.string() }), undefined, undefined, {
+      stage: "PARSE_JD",
+    });
+
+    const ledger = llm.getCallLedger();
+    expect(ledger.map((call) => [call.stage, call.model, call.attempt])).toEqual([
+      ["PARSE_JD", "gpt-4o-mini", 0],
+      ["PARSE_JD", "gpt-4o-mini", 1],
+    ]);
+    // gpt-4o-mini: $0.15/M input, $0.60/M output
+    expect(ledger[0].costUsd).toBeCloseTo(0.15);
+    expect(ledger[1].costUsd).toBeCloseTo(0.6);
+    expect(result.costUsd).toBeCloseTo(0.75);
+    expect(llm.getUsageSummary().estimatedCost).toBeCloseTo(0.75);
+  });
+
+  it("labels calls without a stage as 'other'", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi.fn().mockResolvedValue({ text: "hi", usage: { inputTokens: 1, outputTokens: 1 } });
+    const llm = new LLMClient({ provider: { name: "anthropic", defaultModel: "m", apiKeyEnv: "K", send } });
+
+    await llm.complete("prompt");
+
+    expect(llm.getCallLedger()[0].stage).toBe("other");
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from "vitest";
+import { readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import {
+  mockParseJD,
+  mockParseResume,
+  mockAnalyzeFit,
+  mockCoverLetter,
+  mockResumeBullets,
+  mockInterviewPrep,
+} from "../../src/llm/heuristic-mock.js";
+import { ParsedJDSchema, ParsedResumeSchema, FitAnalysisSchema } from "../../src/llm/schemas.js";
+import { validateOutputs } from "../../src/agent/validator.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import { LLMClient } from "../../src/llm/client.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+const dataJD = `Senior Data Engineer — Analytics
+
+Company: Brightline Health
+
+We're looking for a data engineer to own our warehouse and pipelines. Fully remote.
+
+Requirements:
+- 5+ years of experience with Python and SQL
+- Production experience with Airflow and Snowflake
+- Familiarity with AWS
+
+Nice to have:
+- Kafka
+- Terraform
+`;
+
+const frontendResume = `SUMMARY
+Frontend developer with 3 years of experience building React applications.
+
+EXPERIENCE
+Frontend Developer | Pixel Studio | Mar 2021 - Mar 2024
+- Built a design system in React and TypeScript used by 12 product teams
+- Improved Lighthouse performance scores from 60 to 95
+
+SKILLS
+React, TypeScript, CSS, Figma
+`;
+
+describe("mockParseJD", () => {
+  it("extracts company, role, level, team and skills from the sample JD", () => {
+    const jd = ParsedJDSchema.parse(mockParseJD(jdText));
+
+    expect(jd.company).toBe("Acme Cloud Inc.");
+    expect(jd.role).toBe("Staff Software Engineer");
+    expect(jd.level).toBe("Staff");
+    expect(jd.team).toBe("Platform Infrastructure");
+    expect(jd.requiredSkills.map((s) => s.name)).toEqual(expect.arrayContaining(["Go", "Rust", "Kubernetes"]));
+    expect(jd.preferredSkills.map((s) => s.name)).toContain("gRPC");
+    expect(jd.techStack).toContain("Terraform");
+    expect(jd.responsibilities.length).toBeGreaterThan(0);
+  });
+
+  it("reads a different posting differently", () => {
+    const jd = mockParseJD(dataJD);
+
+    expect(jd.company).toBe("Brightline Health");
+    expect(jd.role).toBe("Senior Data Engineer");
+    expect(jd.level).toBe("Senior");
+    expect(jd.team).toBe("Analytics");
+    expect(jd.requiredSkills.map((s) => s.name)).toEqual(["Python", "SQL", "Airflow", "Snowflake", "AWS"]);
+    expect(jd.preferredSkills.map((s) => s.name)).toEqual(["Kafka", "Terraform"]);
+    expect(jd.culture).toContain("Remote-friendly");
+  });
+
+  it("does not mistake the verb 'go' or JavaScript for languages it isn't", () => {
+    const jd = mockParseJD("Frontend Engineer\n\nRequirements:\n- JavaScript\n- Willing to go the extra mile");
+    expect(jd.requiredSkills.map((s) => s.name)).toEqual(["JavaScript"]);
+  });
+});
+
+describe("mockParseResume", () => {
+  it("builds experiences, education and certifications from section headings", () => {
+    const resume = ParsedResumeSchema.parse(mockParseResume(resumeText));
+
+    expect(resume.experiences.map((e) => e.company)).toEqual(["TechScale Inc.", "DataFlow Systems", "WebCraft Solutions"]);
+    expect(resume.experiences[0]).toMatchObject({ role: "Senior Software Engineer", duration: "3 years" });
+    expect(resume.experiences[0].techUsed).toContain("Kafka");
+    expect(resume.experiences[0].highlights).toHaveLength(5);
+    expect(resume.education[0]).toMatchObject({ degree: "Bachelor of Science", field: "Computer Science", year: "2017" });
+    expect(resume.certifications).toHaveLength(2);
+    expect(resume.yearsOfExperience).toBe(7);
+  });
+
+  it("computes durations from date ranges", () => {
+    const resume = mockParseResume(frontendResume);
+
+    expect(resume.experiences).toHaveLength(1);
+    expect(resume.experiences[0]).toMatchObject({ role: "Frontend Developer", company: "Pixel Studio", duration: "3 years" });
+    expect(resume.skills.map((s) => s.name)).toEqual(["React", "TypeScript"]);
+  });
+});
+
+describe("mockAnalyzeFit", () => {
+  it("scores a matching resume above a mismatched one", () => {
+    const jd = mockParseJD(jdText);
+    const strong = FitAnalysisSchema.parse(mockAnalyzeFit(jd, mockParseResume(resumeText)));
+    const weak = mockAnalyzeFit(jd, mockParseResume(frontendResume));
+
+    expect(strong.overallScore).toBeGreaterThan(weak.overallScore);
+    expect(strong.strongMatches.map((m) => m.skill)).toContain("Kafka");
+    expect(strong.gaps.find((g) => g.skill === "Go")?.severity).toBe("critical");
+    expect(weak.dealBreakers.length).toBeGreaterThan(0);
+  });
+
+  it("cites the resume highlight as evidence for strong matches", () => {
+    const fit = mockAnalyzeFit(mockParseJD(dataJD), mockParseResume(resumeText));
+    const python = fit.strongMatches.find((m) => m.skill === "Python");
+    expect(python?.evidence).toContain("DataFlow Systems: Built high-throughput data ingestion service");
+  });
+});
+
+describe("mock generators", () => {
+  it("produce outputs that pass validation for the sample inputs", () => {
+    const jd = mockParseJD(jdText);
+    const resume = mockParseResume(resumeText);
+    const fit = mockAnalyzeFit(jd, resume);
+
+    const coverLetter = mockCoverLetter(jd, resume, fit).coverLetter;
+    const bullets = mockResumeBullets(jd, resume, fit).bullets;
+    const prep = mockInterviewPrep(jd, resume, fit);
+
+    expect(coverLetter).toContain("Acme Cloud Inc.");
+    expect(bullets.length).toBeGreaterThanOrEqual(4);
+    expect(prep.questionsToAsk.some((q) => q.question.includes("Platform Infrastructure"))).toBe(true);
+
+    const result = validateOutputs(
+      {
+        coverLetter,
+        tailoredBullets: bullets.map((b) => `- ${b.bullet}`).join("\n"),
+        interviewPrep: `# Interview Prep for ${jd.company}\n\n## Technical Questions\n\n## Behavioral Questions\n\n## Questions to Ask\n`,
+      },
+      jd
+    );
+    expect(result.issues).toEqual([]);
+  });
+
+  it("drive a mock pipeline run whose outputs reflect the inputs", async () => {
+    process.env.MOCK_LLM = "true";
+    const result = await runOrchestrator(dataJD, resumeText, new LLMClient());
+
+    expect(result.context.parsedJD?.company).toBe("Brightline Health");
+    expect(result.context.outputs.coverLetter).toContain("Brightline Health");
+    expect(result.context.outputs.coverLetter).not.toContain("Acme");
+  });
+});
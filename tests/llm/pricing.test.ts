@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PRICING,
+  estimateCost,
+  getModelPricing,
+  registerModelPricing,
+} from "../../src/llm/pricing.js";
+
+describe("getModelPricing", () => {
+  it("matches dated model ids by prefix", () => {
+    expect(getModelPricing("claude-sonnet-4-5-20250929")).toEqual(getModelPricing("claude-sonnet-4-5"));
+    expect(getModelPricing("claude-haiku-4-5-20251001").inputPerM).toBe(1.0);
+  });
+
+  it("prefers the longest matching prefix", () => {
+    expect(getModelPricing("gpt-4o-mini-2024-07-18").inputPerM).toBe(0.15);
+    expect(getModelPricing("gpt-4o-2024-08-06").inputPerM).toBe(2.5);
+    expect(getModelPricing("claude-opus-4-1-20250805").outputPerM).toBe(75.0);
+  });
+
+  it("falls back to default pricing for unknown models", () => {
+    expect(getModelPricing("llama-3.1-8b-instruct")).toEqual(DEFAULT_PRICING);
+  });
+
+  it("accepts registered pricing for custom models", () => {
+    registerModelPricing("local-llama", { inputPerM: 0, outputPerM: 0, cacheReadPerM: 0, cacheWritePerM: 0 });
+    expect(estimateCost("local-llama-3.1", { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBe(0);
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices input, output and cache tokens separately", () => {
+    const cost = estimateCost("claude-sonnet-4-5", {
+      inputTokens: 1_000_000,
+      outputTokens: 1_000_000,
+      cacheReadTokens: 1_000_000,
+      cacheWriteTokens: 1_000_000,
+    });
+    expect(cost).toBeCloseTo(3.0 + 15.0 + 0.3 + 3.75);
+  });
+});
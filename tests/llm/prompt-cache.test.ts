@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LLMClient } from "../../src/llm/client.js";
+import type { LLMProvider, ProviderRequest } from "../../src/llm/provider.js";
+import { AnthropicProvider } from "../../src/llm/providers/anthropic.js";
+import { OpenAICompatibleProvider } from "../../src/llm/providers/openai-compatible.js";
+import { cassetteKey } from "../../src/llm/cassette.js";
+import { generateCoverLetter } from "../../src/tools/generators/cover-letter.js";
+import { generateResumeBullets } from "../../src/tools/generators/resume-bullets.js";
+import { generateInterviewPrep } from "../../src/tools/generators/interview-prep.js";
+import { mockParsedJD, mockParsedResume, mockFitAnalysis } from "../../src/llm/mock-data.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const request: ProviderRequest = {
+  model: "m",
+  maxTokens: 10,
+  system: "s",
+  messages: [{ role: "user", content: "Write the cover letter." }],
+  context: "SHARED CONTEXT",
+};
+
+describe("AnthropicProvider prompt caching", () => {
+  it("sends the context as a cache_control block ahead of the prompt", async () => {
+    const provider = new AnthropicProvider({ apiKey: "test-key" });
+    const create = vi.fn().mockResolvedValue({
+      usage: { input_tokens: 20, output_tokens: 5, cache_read_input_tokens: 1500, cache_creation_input_tokens: 0 },
+      content: [{ type: "text", text: "ok" }],
+    });
+    (provider as any).client = { messages: { create } };
+
+    const response = await provider.send(request);
+
+    expect(create.mock.calls[0][0].messages[0].content).toEqual([
+      { type: "text", text: "SHARED CONTEXT", cache_control: { type: "ephemeral" } },
+      { type: "text", text: "Write the cover letter." },
+    ]);
+    expect(response.usage).toEqual({ inputTokens: 20, outputTokens: 5, cacheReadTokens: 1500, cacheWriteTokens: 0 });
+  });
+
+  it("leaves messages as plain strings without context", async () => {
+    const provider = new AnthropicProvider({ apiKey: "test-key" });
+    const create = vi.fn().mockResolvedValue({
+      usage: { input_tokens: 1, output_tokens: 1 },
+      content: [{ type: "text", text: "ok" }],
+    });
+    (provider as any).client = { messages: { create } };
+
+    await provider.send({ ...request, context: undefined });
+
+    expect(create.mock.calls[0][0].messages[0].content).toBe("Write the cover letter.");
+  });
+});
+
+describe("OpenAICompatibleProvider prompt caching", () => {
+  it("prepends the context and reports cached tokens separately", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          choices: [{ message: { content: "ok" } }],
+          usage: { prompt_tokens: 1200, completion_tokens: 10, prompt_tokens_details: { cached_tokens: 1024 } },
+        }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await new OpenAICompatibleProvider({ baseUrl: "http://localhost:9999/v1" }).send(request);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[1].content).toBe("SHARED CONTEXT\n\nWrite the cover letter.");
+    expect(response.usage).toEqual({ inputTokens: 176, outputTokens: 10, cacheReadTokens: 1024 });
+  });
+});
+
+describe("cassetteKey with context", () => {
+  it("keeps keys for context-free requests and separates different contexts", () => {
+    const plain = { ...request, context: undefined };
+    delete plain.context;
+    const withoutContext = cassetteKey(plain, null);
+
+    expect(cassetteKey({ ...plain }, null)).toBe(withoutContext);
+    expect(cassetteKey(request, null)).not.toBe(withoutContext);
+    expect(cassetteKey({ ...request, context: "OTHER" }, null)).not.toBe(cassetteKey(request, null));
+  });
+});
+
+describe("generator shared context", () => {
+  it("sends the same context to every generator and tracks cache tokens", async () => {
+    process.env.MOCK_LLM = "false";
+    const requests: ProviderRequest[] = [];
+    const send = vi.fn(async (req: ProviderRequest) => {
+      requests.push(req);
+      const text = req.system.includes("cover letter")
+        ? JSON.stringify({ coverLetter: "Dear team" })
+        : req.system.includes("resume writer")
+          ? JSON.stringify({ bullets: [{ bullet: "b", targetRequirement: "t", originalExperience: "o" }] })
+          : JSON.stringify({ technicalQuestions: [], behavioralQuestions: [], questionsToAsk: [] });
+      return { text, usage: { inputTokens: 50, outputTokens: 20, cacheReadTokens: 2000, cacheWriteTokens: 0 } };
+    });
+    const provider: LLMProvider = { name: "anthropic", defaultModel: "claude-sonnet-4-5", apiKeyEnv: "K", send };
+    const llm = new LLMClient({ provider });
+
+    await generateCoverLetter(mockParsedJD, mockParsedResume, mockFitAnalysis, llm);
+    await generateResumeBullets(mockParsedJD, mockParsedResume, mockFitAnalysis, llm);
+    await generateInterviewPrep(mockParsedJD, mockParsedResume, mockFitAnalysis, llm);
+
+    expect(requests).toHaveLength(3);
+    const contexts = new Set(requests.map((r) => r.context));
+    expect(contexts.size).toBe(1);
+    expect(requests[0].context).toContain(mockParsedJD.company);
+    expect(requests[0].messages[0].content).not.toContain(JSON.stringify(mockParsedResume, null, 2));
+
+    const summary = llm.getUsageSummary();
+    expect(summary.totalCacheReadTokens).toBe(6000);
+    expect(summary.totalCacheWriteTokens).toBe(0);
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { LLMClient } from "../../src/llm/client.js";
+import { createProvider, resolveProviderName } from "../../src/llm/provider.js";
+import type { LLMProvider } from "../../src/llm/provider.js";
+import { OpenAICompatibleProvider } from "../../src/llm/providers/openai-compatible.js";
+import { AnthropicProvider } from "../../src/llm/providers/anthropic.js";
+import { buildOutputTool } from "../../src/llm/json-schema.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+function makeChatResponse(content: string, status = 200) {
+  return new Response(
+    JSON.stringify({
+      choices: [{ message: { content } }],
+      usage: { prompt_tokens: 12, completion_tokens: 7 },
+    }),
+    { status, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("provider selection", () => {
+  it("resolves known provider names case-insensitively", () => {
+    expect(resolveProviderName("OpenAI")).toBe("openai");
+    expect(resolveProviderName(undefined)).toBe("anthropic");
+  });
+
+  it("rejects unknown provider names", () => {
+    expect(() => resolveProviderName("bard")).toThrow("Unknown LLM provider: bard");
+  });
+
+  it("creates an OpenAI-compatible provider without an API key", () => {
+    const provider = createProvider("openai", { baseUrl: "http://localhost:9999/v1" });
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.name).toBe("openai");
+  });
+});
+
+describe("OpenAICompatibleProvider", () => {
+  it("sends a chat-completions request with the system prompt first", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(makeChatResponse("hello"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: "http://localhost:9999/v1/", apiKey: "local" });
+    const response = await provider.send({
+      model: "llama-3",
+      maxTokens: 256,
+      system: "be brief",
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(response).toEqual({ text: "hello", usage: { inputTokens: 12, outputTokens: 7, cacheReadTokens: 0 } });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:9999/v1/chat/completions");
+    expect(init.headers.Authorization).toBe("Bearer local");
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe("llama-3");
+    expect(body.max_tokens).toBe(256);
+    expect(body.messages).toEqual([
+      { role: "system", content: "be brief" },
+      { role: "user", content: "hi" },
+    ]);
+  });
+
+  it("surfaces HTTP status on failure", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("nope", { status: 401 })));
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: "http://localhost:9999/v1" });
+    await expect(
+      provider.send({ model: "m", maxTokens: 1, system: "", messages: [] })
+    ).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("works behind LLMClient with retries and token accounting", async () => {
+    process.env.MOCK_LLM = "false";
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(makeChatResponse("not json"))
+        .mockResolvedValueOnce(makeChatResponse('```json\n{"foo":"ok"}\n```'))
+    );
+
+    const llm = new LLMClient({
+      provider: "openai",
+      baseUrl: "http://localhost:9999/v1",
+      model: "local-model",
+      maxRetries: 2,
+      baseDelayMs: 0,
+    });
+    const result = await llm.structured("prompt", z.object({ foo: z.string() }));
+
+    expect(result.data.foo).toBe("ok");
+    expect(result.model).toBe("local-model");
+    expect(llm.getProviderName()).toBe("openai");
+    expect(llm.getUsageSummary().totalInputTokens).toBe(24);
+    expect(llm.getUsageSummary().totalCalls).toBe(2);
+  });
+});
+
+describe("tool-use structured output", () => {
+  const schema = z.object({ foo: z.string().describe("A foo") }).describe("Foo output");
+
+  it("converts Zod schemas to a JSON Schema tool definition", () => {
+    const tool = buildOutputTool(schema);
+
+    expect(tool.description).toBe("Foo output");
+    expect(tool.inputSchema).toMatchObject({
+      type: "object",
+      properties: { foo: { type: "string", description: "A foo" } },
+      required: ["foo"],
+    });
+    expect(tool.inputSchema).not.toHaveProperty("$schema");
+  });
+
+  it("forces the output tool and validates its input when the provider supports tools", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi.fn().mockResolvedValue({
+      text: '{"foo":"typed"}',
+      toolInput: { foo: "typed" },
+      usage: { inputTokens: 1, outputTokens: 1 },
+    });
+    const provider: LLMProvider = { name: "anthropic", defaultModel: "m", apiKeyEnv: "K", supportsTools: true, send };
+
+    const result = await new LLMClient({ provider }).structured("prompt", schema);
+
+    expect(result.data.foo).toBe("typed");
+    expect(send.mock.calls[0][0].tool.name).toBe("record_output");
+  });
+
+  it("falls back to free-text JSON when tool use is disabled", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi.fn().mockResolvedValue({ text: '{"foo":"text"}', usage: { inputTokens: 1, outputTokens: 1 } });
+    const provider: LLMProvider = { name: "openai", defaultModel: "m", apiKeyEnv: "K", supportsTools: true, send };
+
+    const result = await new LLMClient({ provider, toolUse: false }).structured("prompt", schema);
+
+    expect(result.data.foo).toBe("text");
+    expect(send.mock.calls[0][0].tool).toBeUndefined();
+  });
+
+  it("sends function tools to OpenAI-compatible servers and parses tool call arguments", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          choices: [{ message: { content: null, tool_calls: [{ function: { name: "record_output", arguments: '{"foo":"fn"}' } }] } }],
+          usage: { prompt_tokens: 3, completion_tokens: 2 },
+        }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: "http://localhost:9999/v1" });
+    const response = await provider.send({
+      model: "m",
+      maxTokens: 10,
+      system: "s",
+      messages: [{ role: "user", content: "hi" }],
+      tool: buildOutputTool(schema),
+    });
+
+    expect(response.toolInput).toEqual({ foo: "fn" });
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.tools[0].function.name).toBe("record_output");
+    expect(body.tool_choice).toEqual({ type: "function", function: { name: "record_output" } });
+  });
+
+  it("can be disabled for OpenAI-compatible servers without function calling", () => {
+    expect(new OpenAICompatibleProvider({ tools: false }).supportsTools).toBe(false);
+  });
+
+  it("reads tool_use blocks from Anthropic responses", async () => {
+    const provider = new AnthropicProvider({ apiKey: "test-key" });
+    const create = vi.fn().mockResolvedValue({
+      usage: { input_tokens: 4, output_tokens: 2 },
+      content: [{ type: "tool_use", id: "t1", name: "record_output", input: { foo: "anthropic" } }],
+    });
+    (provider as any).client = { messages: { create } };
+
+    const response = await provider.send({
+      model: "m",
+      maxTokens: 10,
+      system: "s",
+      messages: [{ role: "user", content: "hi" }],
+      tool: buildOutputTool(schema),
+    });
+
+    expect(response.toolInput).toEqual({ foo: "anthropic" });
+    expect(create.mock.calls[0][0].tool_choice).toEqual({ type: "tool", name: "record_output" });
+  });
+});
@@ -1,29 +1,32 @@
 import { describe, expect, it, vi } from "vitest";
 import { z } from "zod";
-import { LLMClient } from "../../src/llm/client.js";
+import { LLMClient, LLMTimeoutError } from "../../src/llm/client.js";
+import { ProviderError, parseRetryAfter } from "../../src/llm/provider.js";
+import type { LLMProvider, ProviderRequest } from "../../src/llm/provider.js";
 
 vi.spyOn(console, "log").mockImplementation(() => {});
 vi.spyOn(console, "error").mockImplementation(() => {});
 
 function makeResponse(text: string) {
   return {
-    usage: { input_tokens: 10, output_tokens: 5 },
-    content: [{ type: "text", text }],
-  } as any;
+    text,
+    usage: { inputTokens: 10, outputTokens: 5 },
+  };
+}
+
+function makeProvider(send: ReturnType<typeof vi.fn>): LLMProvider {
+  return { name: "anthropic", defaultModel: "test-model", apiKeyEnv: "TEST_API_KEY", send };
 }
 
 describe("LLMClient structured retry behavior", () => {
   it("retries and succeeds after malformed output", async () => {
     process.env.MOCK_LLM = "false";
-    process.env.ANTHROPIC_API_KEY = "test-key";
 
-    const llm = new LLMClient({ maxRetries: 2, baseDelayMs: 0 });
     const createMock = vi
       .fn()
       .mockResolvedValueOnce(makeResponse("{not-json"))
       .mockResolvedValueOnce(makeResponse('{"foo":"ok"}'));
-
-    (llm as any).client = { messages: { create: createMock } };
+    const llm = new LLMClient({ provider: makeProvider(createMock), maxRetries: 2, baseDelayMs: 0 });
 
     const schema = z.object({ foo: z.string() });
     const result = await llm.structured("prompt", schema);
@@ -31,20 +34,214 @@ describe("LLMClient structured retry behavior", () => {
     expect(result.data.foo).toBe("ok");
     expect(createMock).toHaveBeenCalledTimes(2);
     expect(llm.getUsageSummary().totalCalls).toBe(2);
+    expect(result.retries).toBe(1);
+    expect(result.repairs).toBe(1);
+    expect(result.usage).toEqual({ inputTokens: 20, outputTokens: 10 });
+  });
+
+  it("sends the previous output and Zod issue paths back on a repair attempt", async () => {
+    process.env.MOCK_LLM = "false";
+
+    const createMock = vi
+      .fn()
+      .mockResolvedValueOnce(makeResponse('{"foo":"ok","count":"three"}'))
+      .mockResolvedValueOnce(makeResponse('{"foo":"ok","count":3}'));
+    const llm = new LLMClient({ provider: makeProvider(createMock), maxRetries: 2, baseDelayMs: 0 });
+
+    const schema = z.object({ foo: z.string(), count: z.number() });
+    const result = await llm.structured("prompt", schema);
+
+    expect(result.data.count).toBe(3);
+    expect(result.repairs).toBe(1);
+
+    const repairRequest = createMock.mock.calls[1][0];
+    expect(repairRequest.messages).toHaveLength(3);
+    expect(repairRequest.messages[0]).toEqual({ role: "user", content: "prompt" });
+    expect(repairRequest.messages[1]).toEqual({ role: "assistant", content: '{"foo":"ok","count":"three"}' });
+    expect(repairRequest.messages[2].role).toBe("user");
+    expect(repairRequest.messages[2].content).toContain("- count:");
+    expect(repairRequest.messages[2].content).toContain("Fix ONLY the fields listed below");
+  });
+
+  it("re-sends the original prompt after an API error", async () => {
+    process.env.MOCK_LLM = "false";
+
+    const createMock = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error("overloaded"), { status: 529 }))
+      .mockResolvedValueOnce(makeResponse('{"foo":"ok"}'));
+    const llm = new LLMClient({ provider: makeProvider(createMock), maxRetries: 2, baseDelayMs: 0 });
+
+    const result = await llm.structured("prompt", z.object({ foo: z.string() }));
+
+    expect(result.retries).toBe(1);
+    expect(result.repairs).toBe(0);
+    expect(createMock.mock.calls[1][0].messages).toEqual([{ role: "user", content: "prompt" }]);
   });
 
   it("fails after repeated schema validation errors", async () => {
     process.env.MOCK_LLM = "false";
-    process.env.ANTHROPIC_API_KEY = "test-key";
 
-    const llm = new LLMClient({ maxRetries: 3, baseDelayMs: 0 });
     const createMock = vi.fn().mockResolvedValue(makeResponse('{"bar":"nope"}'));
-
-    (llm as any).client = { messages: { create: createMock } };
+    const llm = new LLMClient({ provider: makeProvider(createMock), maxRetries: 3, baseDelayMs: 0 });
 
     const schema = z.object({ foo: z.string() });
 
     await expect(llm.structured("prompt", schema)).rejects.toThrow("Schema validation failed after retries");
     expect(createMock).toHaveBeenCalledTimes(3);
   });
+
+  it("fails clearly in mock mode when the call has no mock data", async () => {
+    process.env.MOCK_LLM = "true";
+
+    const llm = new LLMClient();
+    const schema = z.object({ foo: z.string() });
+
+    await expect(llm.structured("prompt", schema, undefined, undefined, { stage: "PARSE_JD" })).rejects.toThrow(
+      "MOCK_LLM=true but the PARSE_JD call has no mock data to return."
+    );
+  });
+});
+
+describe("LLMClient.complete retry behavior", () => {
+  it("retries API errors and charges every billed attempt", async () => {
+    process.env.MOCK_LLM = "false";
+
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error("overloaded"), { status: 529 }))
+      .mockResolvedValueOnce(makeResponse("hello"));
+    const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 2, baseDelayMs: 0 });
+
+    const result = await llm.complete("prompt", undefined, { stage: "summary" });
+
+    expect(result.data).toBe("hello");
+    expect(result.retries).toBe(1);
+    expect(send.mock.calls[1][0].messages).toEqual([{ role: "user", content: "prompt" }]);
+    expect(llm.getCallLedger()).toMatchObject([{ stage: "summary", attempt: 1, inputTokens: 10 }]);
+  });
+
+  it("does not retry bad credentials", async () => {
+    process.env.MOCK_LLM = "false";
+
+    const send = vi.fn().mockRejectedValue(Object.assign(new Error("unauthorized"), { status: 401 }));
+    const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 3, baseDelayMs: 0 });
+
+    await expect(llm.complete("prompt")).rejects.toThrow("Invalid API key. Check your TEST_API_KEY.");
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns mock text without calling a provider in mock mode", async () => {
+    process.env.MOCK_LLM = "true";
+    const deltas: string[] = [];
+
+    const result = await new LLMClient().complete("prompt", undefined, {
+      mockText: () => "mocked",
+      onDelta: (text) => deltas.push(text),
+    });
+
+    expect(result.data).toBe("mocked");
+    expect(result.model).toContain("(mock)");
+    expect(deltas).toEqual(["mocked"]);
+  });
+});
+
+describe("rate limits and timeouts", () => {
+  it("parses retry-after seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2_000);
+    expect(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(50_000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it("waits for the server's retry-after instead of the exponential backoff", async () => {
+    process.env.MOCK_LLM = "false";
+    vi.useFakeTimers();
+    try {
+      const send = vi
+        .fn()
+        .mockRejectedValueOnce(new ProviderError("rate limited", 429, 2_000))
+        .mockResolvedValueOnce(makeResponse('{"foo":"ok"}'));
+      // A 60s base delay would stall the test if retry-after were ignored
+      const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 2, baseDelayMs: 60_000 });
+
+      const call = llm.structured("prompt", z.object({ foo: z.string() }));
+      await vi.advanceTimersByTimeAsync(1_900);
+      expect(send).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect((await call).data.foo).toBe("ok");
+      expect(send).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("reads retry-after from SDK error headers", async () => {
+    process.env.MOCK_LLM = "false";
+    vi.useFakeTimers();
+    try {
+      const rateLimited = Object.assign(new Error("rate limited"), {
+        status: 429,
+        headers: new Headers({ "retry-after": "1" }),
+      });
+      const send = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce(makeResponse("ok"));
+      const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 1, baseDelayMs: 60_000 });
+
+      const call = llm.complete("prompt");
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      expect((await call).data).toBe("ok");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("aborts and retries an attempt that exceeds the timeout", async () => {
+    process.env.MOCK_LLM = "false";
+
+    const send = vi
+      .fn()
+      .mockImplementationOnce(
+        (request: ProviderRequest) =>
+          new Promise((_, reject) => request.signal!.addEventListener("abort", () => reject(request.signal!.reason)))
+      )
+      .mockResolvedValueOnce(makeResponse("ok"));
+    const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 1, baseDelayMs: 0, timeoutMs: 20 });
+
+    const result = await llm.complete("prompt");
+
+    expect(result.data).toBe("ok");
+    expect(result.retries).toBe(1);
+  });
+
+  it("fails with LLMTimeoutError once every attempt has timed out", async () => {
+    process.env.MOCK_LLM = "false";
+
+    const send = vi.fn(
+      (request: ProviderRequest) =>
+        new Promise<never>((_, reject) => request.signal!.addEventListener("abort", () => reject(new Error("aborted"))))
+    );
+    const llm = new LLMClient({ provider: makeProvider(send), maxRetries: 1, baseDelayMs: 0 });
+
+    await expect(
+      llm.structured("prompt", z.object({ foo: z.string() }), undefined, undefined, { timeoutMs: 10 })
+    ).rejects.toBeInstanceOf(LLMTimeoutError);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects an LLM_TIMEOUT_MS that isn't a number of milliseconds", () => {
+    process.env.MOCK_LLM = "false";
+    const provider = makeProvider(vi.fn());
+    try {
+      process.env.LLM_TIMEOUT_MS = "2m";
+      expect(() => new LLMClient({ provider })).toThrow("Invalid LLM_TIMEOUT_MS: 2m");
+      process.env.LLM_TIMEOUT_MS = "-1";
+      expect(() => new LLMClient({ provider })).toThrow("Invalid LLM_TIMEOUT_MS: -1");
+      process.env.LLM_TIMEOUT_MS = "0";
+      expect(() => new LLMClient({ provider })).not.toThrow();
+    } finally {
+      delete process.env.LLM_TIMEOUT_MS;
+    }
+  });
 });
@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import { createJSONTextStream } from "../../src/llm/stream-text.js";
+import { LLMClient } from "../../src/llm/client.js";
+import { ProviderError, type LLMProvider, type ProviderRequest } from "../../src/llm/provider.js";
+import { OpenAICompatibleProvider } from "../../src/llm/providers/openai-compatible.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import type { OutputDelta } from "../../src/agent/graph.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function project(chunks: string[]): string[] {
+  const deltas: string[] = [];
+  const push = createJSONTextStream((text) => deltas.push(text));
+  for (const chunk of chunks) push(chunk);
+  return deltas;
+}
+
+describe("createJSONTextStream", () => {
+  const json = JSON.stringify({
+    bullets: [
+      { bullet: "Led \"platform\" work", targetRequirement: "Scale\nsystems" },
+      { bullet: "Cut costs 40% — café", count: 3, ok: true },
+    ],
+  });
+
+  it("emits string values only, one per line", () => {
+    expect(project([json]).join("")).toBe(
+      'Led "platform" work\nScale\nsystems\nCut costs 40% — café'
+    );
+  });
+
+  it("produces the same text regardless of chunk boundaries", () => {
+    const oneCharAtATime = project(json.split(""));
+    expect(oneCharAtATime.join("")).toBe(project([json]).join(""));
+  });
+
+  it("decodes unicode escapes split across chunks", () => {
+    expect(project(['{"a":"caf\\u00', 'e9"}']).join("")).toBe("café");
+  });
+});
+
+describe("LLMClient streaming", () => {
+  const schema = z.object({ coverLetter: z.string() });
+
+  it("streams readable deltas from a streaming provider and validates the full text", async () => {
+    process.env.MOCK_LLM = "false";
+    const stream = vi.fn(async (_request: ProviderRequest, onText: (chunk: string) => void) => {
+      onText('{"coverLetter":"Dear ');
+      onText('Acme"}');
+      return { text: '{"coverLetter":"Dear Acme"}', usage: { inputTokens: 1, outputTokens: 1 } };
+    });
+    const provider: LLMProvider = {
+      name: "anthropic",
+      defaultModel: "m",
+      apiKeyEnv: "K",
+      send: vi.fn(),
+      stream,
+    };
+
+    const deltas: [string, number][] = [];
+    const result = await new LLMClient({ provider }).structured("p", schema, undefined, undefined, {
+      onDelta: (text, attempt) => deltas.push([text, attempt]),
+    });
+
+    expect(result.data.coverLetter).toBe("Dear Acme");
+    expect(deltas).toEqual([["Dear ", 0], ["Acme", 0]]);
+    expect(provider.send).not.toHaveBeenCalled();
+  });
+
+  it("tags deltas from a retry with the new attempt number", async () => {
+    process.env.MOCK_LLM = "false";
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce({ text: '{"coverLetter": 5}', usage: { inputTokens: 1, outputTokens: 1 } })
+      .mockResolvedValueOnce({ text: '{"coverLetter":"fixed"}', usage: { inputTokens: 1, outputTokens: 1 } });
+    const provider: LLMProvider = { name: "anthropic", defaultModel: "m", apiKeyEnv: "K", send };
+
+    const deltas: [string, number][] = [];
+    await new LLMClient({ provider, baseDelayMs: 0 }).structured("p", schema, undefined, undefined, {
+      onDelta: (text, attempt) => deltas.push([text, attempt]),
+    });
+
+    expect(deltas).toEqual([["fixed", 1]]);
+  });
+
+  it("parses OpenAI-compatible server-sent chunks", async () => {
+    const body = [
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}',
+      'data: {"choices":[],"usage":{"prompt_tokens":4,"completion_tokens":2}}',
+      "data: [DONE]",
+      "",
+    ].join("\n\n");
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+    const chunks: string[] = [];
+    const response = await new OpenAICompatibleProvider({ baseUrl: "http://localhost:9999/v1" }).stream(
+      { model: "m", maxTokens: 10, system: "s", messages: [{ role: "user", content: "hi" }] },
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(chunks).toEqual(["Hel", "lo"]);
+    expect(response).toEqual({ text: "Hello", usage: { inputTokens: 4, outputTokens: 2, cacheReadTokens: 0 } });
+  });
+
+  it("fails a stream with a malformed chunk as a provider error", async () => {
+    const body = ['data: {"choices":[{"delta":{"content":"Hel"}}]}', 'data: {"choices":[{"del', ""].join("\n\n");
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+    const call = new OpenAICompatibleProvider({ baseUrl: "http://localhost:9999/v1" }).stream(
+      { model: "m", maxTokens: 10, system: "s", messages: [{ role: "user", content: "hi" }] },
+      () => {}
+    );
+
+    await expect(call).rejects.toThrow(ProviderError);
+    await expect(call).rejects.toThrow("Malformed chunk in chat completion stream");
+  });
+
+  it("parses a final chunk the server sends without a trailing newline", async () => {
+    const body = [
+      'data: {"choices":[{"delta":{"content":"Hi"}}]}',
+      'data: {"choices":[],"usage":{"prompt_tokens":4,"completion_tokens":2}}',
+    ].join("\n\n");
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+    const response = await new OpenAICompatibleProvider({ baseUrl: "http://localhost:9999/v1" }).stream(
+      { model: "m", maxTokens: 10, system: "s", messages: [{ role: "user", content: "hi" }] },
+      () => {}
+    );
+
+    expect(response).toEqual({ text: "Hi", usage: { inputTokens: 4, outputTokens: 2, cacheReadTokens: 0 } });
+  });
+
+  it("cancels the response body when a chunk is malformed", async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Left open: the rest of the body never arrives unless the reader is released
+        controller.enqueue(new TextEncoder().encode('data: {"choices":[{"del\n\n'));
+      },
+      cancel,
+    });
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+    const call = new OpenAICompatibleProvider({ baseUrl: "http://localhost:9999/v1" }).stream(
+      { model: "m", maxTokens: 10, system: "s", messages: [{ role: "user", content: "hi" }] },
+      () => {}
+    );
+
+    await expect(call).rejects.toThrow(ProviderError);
+    expect(cancel).toHaveBeenCalled();
+  });
+});
+
+describe("runOrchestrator streaming", () => {
+  it("emits deltas tagged by output type for every generator", async () => {
+    process.env.MOCK_LLM = "true";
+    const deltas: OutputDelta[] = [];
+
+    await runOrchestrator(jdText, resumeText, new LLMClient(), {
+      onDelta: (delta) => deltas.push(delta),
+    });
+
+    const outputs = new Set(deltas.map((d) => d.output));
+    expect(outputs).toEqual(new Set(["coverLetter", "tailoredBullets", "interviewPrep"]));
+    expect(deltas.every((d) => d.generation === 1)).toBe(true);
+  });
+});
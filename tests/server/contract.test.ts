@@ -1,10 +1,13 @@
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import { spawn, ChildProcessWithoutNullStreams } from "child_process";
-import { existsSync } from "fs";
-import { join } from "path";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { basename, join } from "path";
 
 let serverProcess: ChildProcessWithoutNullStreams;
 let baseUrl: string;
+// Runs go to a fresh directory, so each test run starts without earlier versions of its outputs
+const outputRoot = mkdtempSync(join(tmpdir(), "jobfit-server-"));
 
 async function waitForServer(url: string, timeoutMs = 15000): Promise<void> {
   const start = Date.now();
@@ -45,6 +48,7 @@ beforeAll(async () => {
       ...process.env,
       MOCK_LLM: "true",
       PORT: `${port}`,
+      JOBFIT_OUTPUT_DIR: outputRoot,
     },
     stdio: "pipe",
   });
@@ -56,6 +60,7 @@ afterAll(async () => {
   if (serverProcess && !serverProcess.killed) {
     serverProcess.kill("SIGTERM");
   }
+  rmSync(outputRoot, { recursive: true, force: true });
 });
 
 describe("server API contracts", () => {
@@ -70,6 +75,28 @@ describe("server API contracts", () => {
     expect(response.status).toBe(403);
   });
 
+  it("rejects an invalid run budget", async () => {
+    const response = await fetch(`${baseUrl}/api/analyze/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jdText: "JD", resumeText: "Resume", maxCostUsd: -1 }),
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("maxCostUsd must be a positive number");
+  });
+
+  it("rejects an unknown output selection", async () => {
+    const response = await fetch(`${baseUrl}/api/analyze/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jdText: "JD", resumeText: "Resume", outputs: ["coverLetter", "haiku"] }),
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/^Unknown output: haiku\./);
+  });
+
   it("streams completion and persists output artifacts", async () => {
     const response = await fetch(`${baseUrl}/api/analyze/stream`, {
       method: "POST",
@@ -84,6 +111,10 @@ describe("server API contracts", () => {
     const raw = await response.text();
     const events = parseSSEEvents(raw);
 
+    const deltas = events.filter((event) => event.event === "delta");
+    expect(deltas.length).toBeGreaterThan(0);
+    expect(deltas.map((event) => event.data.output)).toContain("coverLetter");
+
     const complete = events.find((event) => event.event === "complete");
     expect(complete).toBeTruthy();
     expect(complete!.data.outputDir).toBeTruthy();
@@ -95,5 +126,112 @@ describe("server API contracts", () => {
     expect(existsSync(join(outputDir, "tailored-bullets.md"))).toBe(true);
     expect(existsSync(join(outputDir, "interview-prep.md"))).toBe(true);
     expect(existsSync(join(outputDir, "metadata.json"))).toBe(true);
+    expect(existsSync(join(outputDir, "llm-calls.jsonl"))).toBe(true);
+    expect(complete!.data.metadata.model).toBeTruthy();
+  });
+
+  it("regenerates a saved run's outputs as new versions", async () => {
+    const analyze = await fetch(`${baseUrl}/api/analyze/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jdText: "Senior platform engineer at Regen Labs. Requires Go and Kubernetes.",
+        resumeText: "Platform engineer with Go and Kubernetes experience.",
+      }),
+    });
+    const outputDir = parseSSEEvents(await analyze.text()).find((event) => event.event === "complete")!.data.outputDir;
+
+    const response = await fetch(`${baseUrl}/api/runs/regenerate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ dir: basename(outputDir), outputs: ["cover-letter"], instructions: "more concise" }),
+    });
+
+    expect(response.status).toBe(200);
+    const complete = parseSSEEvents(await response.text()).find((event) => event.event === "complete");
+    const entry = complete!.data.changelogEntry;
+    expect(entry).toMatchObject({ requestedOutputs: ["coverLetter"], instructions: "more concise" });
+    expect(entry.files).toEqual({ coverLetter: "cover-letter.v2.md" });
+    expect(existsSync(join(outputDir, "cover-letter.md"))).toBe(true);
+    expect(existsSync(join(outputDir, "cover-letter.v2.md"))).toBe(true);
+
+    const missing = await fetch(`${baseUrl}/api/runs/regenerate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ dir: "no-such-run" }),
+    });
+    expect(missing.status).toBe(400);
+  });
+
+  it("pauses a run for a fit review until it is approved", async () => {
+    const notPending = await fetch(`${baseUrl}/api/runs/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reviewId: "no-such-review" }),
+    });
+    expect(notPending.status).toBe(404);
+
+    const response = await fetch(`${baseUrl}/api/analyze/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jdText: "Staff software engineer role. Requires TypeScript, distributed systems, and mentoring.",
+        resumeText: "Senior engineer with TypeScript and distributed systems experience. Mentored engineers.",
+        reviewFit: true,
+      }),
+    });
+    expect(response.status).toBe(200);
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let raw = "";
+    let review: { reviewId: string; dir: string; fitAnalysis: any } | undefined;
+    while (!review) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      raw += decoder.decode(value, { stream: true });
+      review = parseSSEEvents(raw).find((event) => event.event === "review")?.data;
+    }
+    expect(review?.fitAnalysis.overallScore).toBeTypeOf("number");
+
+    // A resumed run keeps its directory, so only the review id answers a review
+    const byDir = await fetch(`${baseUrl}/api/runs/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ dir: review!.dir }),
+    });
+    expect(byDir.status).toBe(404);
+
+    const invalid = await fetch(`${baseUrl}/api/runs/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reviewId: review!.reviewId, fitAnalysis: { overallScore: "high" } }),
+    });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).issues.length).toBeGreaterThan(0);
+
+    const approved = await fetch(`${baseUrl}/api/runs/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reviewId: review!.reviewId }),
+    });
+    expect(await approved.json()).toEqual({ reviewId: review!.reviewId, status: "approved" });
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      raw += decoder.decode(value, { stream: true });
+    }
+    const complete = parseSSEEvents(raw).find((event) => event.event === "complete");
+    expect(complete!.data.metadata.fitReview.status).toBe("approved");
+  });
+
+  it("breaks run costs down by model and stage", async () => {
+    const response = await fetch(`${baseUrl}/api/runs/costs`);
+    expect(response.status).toBe(200);
+
+    const body = await response.json();
+    expect(Array.isArray(body.byModel)).toBe(true);
+    expect(Array.isArray(body.byStage)).toBe(true);
   });
 });
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import {
+  registerGenerator,
+  unregisterGenerator,
+  getGenerators,
+  getGenerator,
+  loadGeneratorPlugins,
+} from "../../src/tools/generators/registry.js";
+import { buildGeneratorPrompt, defineGenerator } from "../../src/tools/generators/plugin.js";
+import { runOrchestrator } from "../../src/agent/orchestrator.js";
+import { parseModelRouting } from "../../src/agent/routing.js";
+import { validateOutputs } from "../../src/agent/validator.js";
+import type { OutputDelta } from "../../src/agent/graph.js";
+import { LLMClient } from "../../src/llm/client.js";
+import { mockParsedJD } from "../../src/llm/mock-data.js";
+import { writeRunOutputs } from "../../src/utils/output-writer.js";
+import recruiterNote from "../fixtures/plugins/recruiter-note.js";
+
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const jdText = readFileSync(join(__dirname, "../fixtures/sample-jd.txt"), "utf-8");
+const resumeText = readFileSync(join(__dirname, "../fixtures/sample-resume.txt"), "utf-8");
+
+function plugin(overrides: Record<string, unknown> = {}) {
+  return defineGenerator({
+    name: "thankYouNote",
+    label: "Thank-you note",
+    filename: "thank-you.md",
+    schema: z.object({ text: z.string() }),
+    systemPrompt: "",
+    buildPrompt: () => "",
+    render: (data) => data.text,
+    mock: () => ({ text: "Thanks!" }),
+    ...overrides,
+  });
+}
+
+afterEach(() => {
+  for (const name of ["thankYouNote", "recruiterNote"]) {
+    if (getGenerator(name)) unregisterGenerator(name);
+  }
+});
+
+describe("generator registry", () => {
+  it("lists the built-ins first, then plugins in registration order", () => {
+    registerGenerator(recruiterNote);
+    expect(getGenerators().map((g) => g.name)).toEqual(["coverLetter", "tailoredBullets", "interviewPrep", "recruiterNote"]);
+  });
+
+  it("rejects invalid or clashing registrations", () => {
+    expect(() => registerGenerator(plugin({ name: "Thank you" }))).toThrow("Invalid generator name");
+    expect(() => registerGenerator(plugin({ name: "coverLetter" }))).toThrow("already registered");
+    expect(() => registerGenerator(plugin({ filename: "../thank-you.md" }))).toThrow("invalid filename");
+    expect(() => registerGenerator(plugin({ filename: "metadata.json" }))).toThrow("invalid filename");
+    expect(() => registerGenerator(plugin({ filename: "cover-letter.md" }))).toThrow("coverLetter already writes");
+    expect(() => registerGenerator(plugin({ dependsOn: ["recruiterNote"] }))).toThrow("not registered before it");
+  });
+
+  it("protects built-ins and generators that others depend on", () => {
+    expect(() => unregisterGenerator("coverLetter")).toThrow("Cannot unregister built-in");
+    registerGenerator(recruiterNote);
+    registerGenerator(plugin({ dependsOn: ["recruiterNote"] }));
+    expect(() => unregisterGenerator("recruiterNote")).toThrow("another generator depends on it");
+  });
+
+  it("loads plugins listed in a config file, once per module", async () => {
+    const configPath = join(__dirname, "../fixtures/plugins/plugins.json");
+    expect(await loadGeneratorPlugins(configPath)).toEqual(["recruiterNote"]);
+    expect(await loadGeneratorPlugins(configPath)).toEqual([]);
+    expect(getGenerator("recruiterNote")?.filename).toBe("recruiter-note.md");
+  });
+
+  it("reports unreadable plugin configs", async () => {
+    await expect(loadGeneratorPlugins(join(__dirname, "missing.json"))).rejects.toThrow("Could not read plugin config");
+    await expect(loadGeneratorPlugins(join(__dirname, "../fixtures/sample-jd.txt"))).rejects.toThrow("Could not read plugin config");
+  });
+});
+
+describe("plugin generators in the pipeline", () => {
+  it("validates plugin outputs with their own rules", () => {
+    registerGenerator(recruiterNote);
+    const result = validateOutputs(
+      { coverLetter: null, tailoredBullets: null, interviewPrep: null, recruiterNote: "Hello there" },
+      mockParsedJD
+    );
+    expect(result.byOutput.recruiterNote).toEqual({ valid: false, issues: ["Recruiter note doesn't mention the company"] });
+    expect(result.byOutput.coverLetter.issues).toEqual(["Cover letter missing"]);
+  });
+
+  it("generates, streams, routes and writes a plugin output", async () => {
+    registerGenerator(recruiterNote);
+    process.env.MOCK_LLM = "true";
+    const deltas: OutputDelta[] = [];
+    const routing = parseModelRouting({ recruiterNote: { maxTokens: 512 } });
+
+    const result = await runOrchestrator(jdText, resumeText, new LLMClient(), {
+      onDelta: (delta) => deltas.push(delta),
+      routing,
+    });
+
+    const { outputs, validation, parsedJD } = result.context;
+    expect(result.success).toBe(true);
+    // Runs after the cover letter it depends on
+    expect(outputs.recruiterNote).toContain(`cover letter: ${outputs.coverLetter!.split(/\s+/).length} words`);
+    expect(outputs.recruiterNote).toContain(parsedJD!.company);
+    expect(validation!.byOutput.recruiterNote.valid).toBe(true);
+    expect(deltas.some((d) => d.output === "recruiterNote")).toBe(true);
+
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-plugins-"));
+    try {
+      writeRunOutputs(dir, result.context, {
+        timestamp: new Date().toISOString(),
+        success: result.success,
+        totalDurationMs: result.totalDurationMs,
+        jdSource: "jd.txt",
+        resumeSource: "resume.txt",
+        model: result.model,
+        tokenUsage: result.tokenUsage,
+        llmCalls: result.llmCalls,
+      });
+      expect(readFileSync(join(dir, "recruiter-note.md"), "utf-8")).toBe(outputs.recruiterNote);
+      expect(existsSync(join(dir, "cover-letter.md"))).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("revises a failed output with its previous text and issues, and records the prompt", async () => {
+    registerGenerator(plugin({
+      buildPrompt: () => "Write a thank-you note.",
+      mock: ({ feedback }: { feedback?: unknown }) => ({ text: feedback ? "Thanks, revised" : "Thanks!" }),
+      rules: [(text: string) => (text.includes("revised") ? null : "Thank-you note isn't revised")],
+    }));
+    process.env.MOCK_LLM = "true";
+
+    const result = await runOrchestrator(jdText, resumeText, new LLMClient());
+
+    const { outputs, regenerations, validationAttempts } = result.context;
+    expect(outputs.thankYouNote).toBe("Thanks, revised");
+    expect(validationAttempts).toBe(2);
+    expect(regenerations).toHaveLength(1);
+    expect(regenerations[0]).toMatchObject({
+      output: "thankYouNote",
+      generation: 2,
+      issues: ["Thank-you note isn't revised"],
+      previousOutput: "Thanks!",
+    });
+    expect(regenerations[0].prompt).toMatch(/^Write a thank-you note\.\n\nREVISION/);
+    expect(regenerations[0].prompt).toContain("PREVIOUS VERSION:\nThanks!");
+    expect(regenerations[0].prompt).toContain("- Thank-you note isn't revised");
+  });
+
+  it("sends the plain prompt when there is no feedback", () => {
+    const note = plugin({ buildPrompt: () => "Write a thank-you note." });
+    const inputs = { parsedJD: mockParsedJD, parsedResume: {} as any, fitAnalysis: {} as any, outputs: {} };
+    expect(buildGeneratorPrompt(note, inputs)).toBe("Write a thank-you note.");
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { breakdownCosts, loadRunAnalysis, loadRunCalls, RunAnalysisError } from "../../src/utils/run-loader.js";
+import { latestVersionFilename } from "../../src/utils/output-writer.js";
+import { createCheckpoint, saveCheckpoint } from "../../src/agent/checkpoint.js";
+import { AgentState, createPipelineContext } from "../../src/agent/state.js";
+import type { LLMCallRecord } from "../../src/llm/client.js";
+import { mockParsedJD, mockParsedResume, mockFitAnalysis } from "../../src/llm/mock-data.js";
+
+function call(stage: string, model: string, costUsd: number): LLMCallRecord {
+  return {
+    timestamp: "2026-01-01T00:00:00.000Z",
+    stage,
+    model,
+    attempt: 0,
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd,
+    durationMs: 10,
+  };
+}
+
+describe("loadRunCalls", () => {
+  it("reads llm-calls.jsonl and skips malformed lines", () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-runs-"));
+    try {
+      writeFileSync(
+        join(dir, "llm-calls.jsonl"),
+        JSON.stringify(call("PARSE_JD", "m", 0.01)) + "\n{oops\n" + JSON.stringify(call("coverLetter", "m", 0.02)) + "\n"
+      );
+      expect(loadRunCalls(dir).map((c) => c.stage)).toEqual(["PARSE_JD", "coverLetter"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("returns an empty list for runs without a ledger", () => {
+    expect(loadRunCalls(join(tmpdir(), "jobfit-no-such-run"))).toEqual([]);
+  });
+});
+
+describe("breakdownCosts", () => {
+  const calls = [
+    call("PARSE_JD", "claude-haiku-4-5", 0.001),
+    call("coverLetter", "claude-sonnet-4-5", 0.02),
+    call("PARSE_JD", "claude-haiku-4-5", 0.001),
+  ];
+
+  it("groups by model, most expensive first", () => {
+    expect(breakdownCosts(calls, "model")).toEqual([
+      { key: "claude-sonnet-4-5", calls: 1, inputTokens: 100, outputTokens: 50, cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0.02, cacheSavings: 0 },
+      { key: "claude-haiku-4-5", calls: 2, inputTokens: 200, outputTokens: 100, cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0.002, cacheSavings: 0 },
+    ]);
+  });
+
+  it("groups by stage", () => {
+    expect(breakdownCosts(calls, "stage").map((row) => [row.key, row.calls])).toEqual([
+      ["coverLetter", 1],
+      ["PARSE_JD", 2],
+    ]);
+  });
+});
+
+describe("breakdownCosts cache savings", () => {
+  it("nets discounted cache reads against the cache-write surcharge", () => {
+    const [row] = breakdownCosts(
+      [{ ...call("coverLetter", "claude-sonnet-4-5", 0), cacheReadTokens: 1_000_000, cacheWriteTokens: 1_000_000 }],
+      "stage"
+    );
+    // Sonnet: read saves $3.00 - $0.30, write costs $3.75 - $3.00 extra
+    expect(row.cacheSavings).toBeCloseTo(2.7 - 0.75);
+  });
+
+  it("treats ledgers without cache fields as uncached", () => {
+    const legacy = { ...call("PARSE_JD", "m", 0.01) } as Partial<LLMCallRecord>;
+    delete legacy.cacheReadTokens;
+    delete legacy.cacheWriteTokens;
+    const [row] = breakdownCosts([legacy as LLMCallRecord], "stage");
+    expect(row.cacheReadTokens).toBe(0);
+    expect(row.cacheSavings).toBe(0);
+  });
+});
+
+describe("loadRunAnalysis", () => {
+  it("reads a completed run's parsed inputs and fit analysis", () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-runs-"));
+    try {
+      const analysis = { parsedJD: mockParsedJD, parsedResume: mockParsedResume, fitAnalysis: mockFitAnalysis };
+      writeFileSync(join(dir, "analysis.json"), JSON.stringify(analysis));
+
+      expect(loadRunAnalysis(dir)).toEqual({ ...analysis, previousOutputs: {} });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reads the raw inputs from the checkpoint and the latest version of each output", () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-runs-"));
+    try {
+      const analysis = { parsedJD: mockParsedJD, parsedResume: mockParsedResume, fitAnalysis: mockFitAnalysis };
+      writeFileSync(join(dir, "analysis.json"), JSON.stringify(analysis));
+      saveCheckpoint(dir, createCheckpoint(createPipelineContext("JD text", "Resume text"), AgentState.DONE, []));
+      writeFileSync(join(dir, "cover-letter.md"), "Original letter");
+      writeFileSync(join(dir, "cover-letter.v2.md"), "Second letter");
+      writeFileSync(join(dir, "interview-prep.md"), "Prep");
+      expect(latestVersionFilename(dir, "cover-letter.md")).toBe("cover-letter.v2.md");
+      expect(latestVersionFilename(dir, "tailored-bullets.md")).toBeNull();
+
+      expect(loadRunAnalysis(dir)).toMatchObject({
+        jdText: "JD text",
+        resumeText: "Resume text",
+        previousOutputs: { coverLetter: "Second letter", interviewPrep: "Prep" },
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects runs without a usable analysis", () => {
+    const dir = mkdtempSync(join(tmpdir(), "jobfit-runs-"));
+    try {
+      expect(() => loadRunAnalysis(dir)).toThrow(RunAnalysisError);
+      expect(() => loadRunAnalysis(dir)).toThrow("No analysis.json found");
+
+      writeFileSync(join(dir, "analysis.json"), "{oops");
+      expect(() => loadRunAnalysis(dir)).toThrow("Could not read");
+
+      const unfinished = { parsedJD: mockParsedJD, parsedResume: mockParsedResume, fitAnalysis: null };
+      writeFileSync(join(dir, "analysis.json"), JSON.stringify(unfinished));
+      expect(() => loadRunAnalysis(dir)).toThrow("has no valid fitAnalysis");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});